@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { analyzeTransactionIntent } from '@/lib/ai/service';
+import { DEFAULT_MODEL } from '@/lib/ai/providers/registry';
 
 export async function POST(req: Request) {
   console.log('------------------------------------------');
@@ -11,13 +12,14 @@ export async function POST(req: Request) {
     
     // 1. Gelen veriyi okumayı dene
     const body = await req.json();
-    const { message, history = [], model = 'gemini-2.5-flash', memoryContext = null, linkData = null } = body;
+    const { message, history = [], model = DEFAULT_MODEL, memoryContext = null, linkData = null, network = null, portfolio = null } = body;
 
     console.log('📩 Kullanıcı Mesajı:', message);
     console.log('📚 Chat History:', history.length, 'messages');
     console.log('🤖 Selected Model (raw):', model);
     console.log('🧠 Memory Context:', memoryContext ? 'Present' : 'None');
     console.log('🔗 Link Data:', linkData ? 'Present' : 'None');
+    console.log('🌐 Network:', network || 'Unknown');
 
     if (!message) {
       throw new Error('Mesaj içeriği boş geldi!');
@@ -25,7 +27,7 @@ export async function POST(req: Request) {
 
     // 2. Yapay Zeka Servisini Çağır
     console.log('🤖 AI Servisi Çağırılıyor...');
-    const result = await analyzeTransactionIntent(message, history, model, memoryContext, linkData);
+    const result = await analyzeTransactionIntent(message, history, model, memoryContext, linkData, network, portfolio);
     
     console.timeEnd('API_Route_Total');
 
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { streamTransactionIntent, type MemoryContext } from '@/lib/ai/service';
+import { DEFAULT_MODEL } from '@/lib/ai/providers/registry';
+import { encodeStreamEvent } from '@/lib/ai/streaming';
+import type { PortfolioContextEntry } from '@/lib/portfolio';
+
+// Force dynamic rendering - responses are streamed per request
+export const dynamic = 'force-dynamic';
+
+// Request body - the fields the route reads are checked, the context objects are passed on to the AI service as sent
+const StreamRequestSchema = z.object({
+  message: z.string().trim().min(1, 'Mesaj içeriği boş geldi!'),
+  history: z.array(z.unknown()).default([]),
+  model: z.string().default(DEFAULT_MODEL),
+  memoryContext: z.custom<MemoryContext>().nullable().default(null),
+  linkData: z.unknown().default(null),
+  network: z.string().nullable().default(null),
+  portfolio: z.array(z.custom<PortfolioContextEntry>()).nullable().default(null),
+});
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json(
+    {
+      type: 'CHAT',
+      data: {
+        summary: `Sistem Hatası: ${message}`,
+        action_type: 'NONE',
+        params: {},
+      },
+    },
+    { status }
+  );
+}
+
+export async function POST(req: Request) {
+  console.log('------------------------------------------');
+  console.log('🔵 API İsteği Alındı (/api/analyze/stream)');
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (error) {
+    console.error('❌ [Stream] Invalid request body:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Invalid request body', 400);
+  }
+
+  const parsed = StreamRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    console.error('❌ [Stream] Invalid request body:', parsed.error.issues);
+    return errorResponse(parsed.error.issues.map((issue) => issue.message).join(', '), 400);
+  }
+  const { message, history, model, memoryContext, linkData, network, portfolio } = parsed.data;
+
+  console.log('📩 Kullanıcı Mesajı:', message);
+  console.log('🤖 Selected Model (raw):', model);
+  console.log('🌐 Network:', network || 'Unknown');
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of streamTransactionIntent(message, history, model, memoryContext, linkData, network, portfolio)) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+        }
+        console.log('✅ [Stream] AI stream completed');
+      } catch (error) {
+        console.error('🔥 [Stream] AI stream failed:', error);
+        controller.enqueue(
+          encoder.encode(
+            encodeStreamEvent({
+              type: 'final',
+              response: {
+                type: 'CHAT',
+                data: {
+                  summary: `Sistem Hatası: ${error instanceof Error ? error.message : 'AI stream failed'}`,
+                  action_type: 'NONE',
+                  params: {},
+                },
+              },
+            })
+          )
+        );
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
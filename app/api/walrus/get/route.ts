@@ -1,15 +1,16 @@
 import { NextResponse } from 'next/server';
+import { getWalrusEndpoints } from '@/lib/walrus/service';
 
 // Force dynamic rendering - this route uses request.url which is dynamic
 export const dynamic = 'force-dynamic';
 
-const WALRUS_AGGREGATOR = process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR || 'https://aggregator.walrus-testnet.walrus.space';
 const DOWNLOAD_TIMEOUT = 10000; // 10 seconds
 
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
     const blobId = searchParams.get('blobId');
+    const { aggregator } = getWalrusEndpoints(searchParams.get('network'));
 
     if (!blobId) {
       return NextResponse.json(
@@ -28,7 +29,7 @@ export async function GET(req: Request) {
       const startTime = Date.now();
       
       // Forward request to Walrus Aggregator
-      const response = await fetch(`${WALRUS_AGGREGATOR}/v1/${blobId}`, {
+      const response = await fetch(`${aggregator}/v1/${blobId}`, {
         method: 'GET',
         signal: controller.signal,
       });
@@ -1,15 +1,24 @@
 import { NextResponse } from 'next/server';
+import { getWalrusEndpoints } from '@/lib/walrus/service';
 
 // Force dynamic rendering - this route uses request.url which is dynamic
 export const dynamic = 'force-dynamic';
 
-const WALRUS_PUBLISHER = process.env.NEXT_PUBLIC_WALRUS_PUBLISHER || 'https://publisher.walrus-testnet.walrus.space';
 const UPLOAD_TIMEOUT = 10000; // 10 seconds
 
 export async function PUT(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
     const epochs = searchParams.get('epochs') || '5';
+    const walrusNetwork = searchParams.get('network') || 'testnet';
+    const { publisher } = getWalrusEndpoints(walrusNetwork);
+
+    if (!publisher) {
+      return NextResponse.json(
+        { error: `No Walrus publisher configured for ${walrusNetwork}` },
+        { status: 503 }
+      );
+    }
 
     // Read the request body
     const body = await req.text();
@@ -22,7 +31,7 @@ export async function PUT(req: Request) {
     }
 
     console.log('📤 [Walrus Proxy] Uploading to Walrus...', {
-      url: `${WALRUS_PUBLISHER}/v1/blobs?epochs=${epochs}`,
+      url: `${publisher}/v1/blobs?epochs=${epochs}`,
       bodySize: body.length,
       epochs,
     });
@@ -35,7 +44,7 @@ export async function PUT(req: Request) {
       const startTime = Date.now();
       
       // Forward request to Walrus Publisher
-      const response = await fetch(`${WALRUS_PUBLISHER}/v1/blobs?epochs=${epochs}`, {
+      const response = await fetch(`${publisher}/v1/blobs?epochs=${epochs}`, {
         method: 'PUT',
         body: body,
         headers: {
@@ -1,17 +1,24 @@
 'use client';
 
-import { ConnectButton, useCurrentAccount } from '@mysten/dapp-kit';
+import { ConnectButton, useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit';
 import { ChatInterface } from '@/components/chat/ChatInterface';
 import { DashboardPanel } from '@/components/dashboard/DashboardPanel';
 import { WalletRequiredModal } from '@/components/WalletRequiredModal';
+import { NetworkSelector } from '@/components/NetworkSelector';
 import { useEffect, useState } from 'react';
 import type { TransactionResponse } from '@/lib/schemas/transaction';
+import type { ActivityLogEntry, ScheduledJob } from '@/types';
+import type { SuiNetwork } from '@/lib/network';
 import { Moon, Sun } from 'lucide-react';
 
 export default function Home() {
   const currentAccount = useCurrentAccount();
+  const { network, selectNetwork } = useSuiClientContext();
   const [transactionIntent, setTransactionIntent] = useState<TransactionResponse | null>(null);
   const [transactionDigest, setTransactionDigest] = useState<string | null>(null);
+  const [dashboardActivity, setDashboardActivity] = useState<ActivityLogEntry | null>(null);
+  const [activityLogs, setActivityLogs] = useState<ActivityLogEntry[]>([]);
+  const [scheduledJobs, setScheduledJobs] = useState<ScheduledJob[]>([]);
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   
   // Check if wallet is connected
@@ -48,6 +55,14 @@ export default function Home() {
     setTransactionDigest(null);
   };
 
+  // Ağ değişince bekleyen işlem eski ağın verisiyle hazırlanmış olur, temizliyoruz
+  const handleNetworkChange = (next: SuiNetwork) => {
+    if (next === network) return;
+    handleClearIntent();
+    setDashboardActivity(null);
+    selectNetwork(next);
+  };
+
   const handleTransactionSuccess = (digest: string) => {
     setTransactionDigest(digest);
     // Intent'i hemen temizlemiyoruz, success ekranı görünüyor
@@ -71,6 +86,7 @@ export default function Home() {
         </div>
         
         <div className="flex items-center gap-3">
+          <NetworkSelector value={network} onChange={handleNetworkChange} />
           <button
             onClick={toggleTheme}
             className="flex items-center justify-center h-10 w-10 rounded-full bg-white/70 dark:bg-slate-900/70 border border-white/40 dark:border-white/10 shadow-lg backdrop-blur-md text-slate-700 dark:text-slate-100 hover:shadow-xl transition"
@@ -98,6 +114,9 @@ export default function Home() {
           <ChatInterface 
              onTransactionGenerated={setTransactionIntent}
              onTransactionSuccess={handleTransactionSuccess}
+             externalActivity={dashboardActivity}
+             onActivityLogsChange={setActivityLogs}
+             onScheduledJobsChange={setScheduledJobs}
           />
         </div>
 
@@ -108,6 +127,10 @@ export default function Home() {
               transactionDigest={transactionDigest}
               onClearIntent={handleClearIntent}
               onTransactionSuccess={handleTransactionSuccess}
+              onActivityLogged={setDashboardActivity}
+              activityLogs={activityLogs}
+              onTransactionGenerated={setTransactionIntent}
+              scheduledJobs={scheduledJobs}
            />
         </div>
       </div>
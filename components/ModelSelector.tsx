@@ -1,8 +1,9 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import { MODEL_REGISTRY, type ModelId } from '@/lib/ai/providers/registry';
 
-export type ModelType = 'gemini-2.5-flash' | 'gemini-1.5-pro';
+export type ModelType = ModelId;
 
 interface ModelSelectorProps {
   value: ModelType;
@@ -14,10 +15,11 @@ export function ModelSelector({ value, onChange, className }: ModelSelectorProps
   const [open, setOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const options: Array<{ value: ModelType; label: string; icon: string }> = [
-    { value: 'gemini-2.5-flash', label: 'Hızlı VAQI', icon: '⚡' },
-    { value: 'gemini-1.5-pro', label: 'Düşünen VAQI', icon: '🧠' },
-  ];
+  const options: Array<{ value: ModelType; label: string; icon: string }> = MODEL_REGISTRY.map((m) => ({
+    value: m.id,
+    label: m.label,
+    icon: m.icon,
+  }));
 
   useEffect(() => {
     const handler = (e: MouseEvent) => {
@@ -0,0 +1,66 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { NETWORK_LABELS, SUI_NETWORKS, type SuiNetwork } from '@/lib/network';
+
+interface NetworkSelectorProps {
+  value: string;
+  onChange: (network: SuiNetwork) => void;
+  className?: string;
+}
+
+// Mainnet moves real funds - give it a different dot than the test networks
+const dotClass = (network: string) => (network === 'mainnet' ? 'bg-emerald-500' : 'bg-amber-400');
+
+export function NetworkSelector({ value, onChange, className }: NetworkSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, []);
+
+  const currentLabel = NETWORK_LABELS[value as SuiNetwork] ?? value;
+
+  return (
+    <div ref={containerRef} className={`relative ${className || ''}`}>
+      <button
+        type="button"
+        onClick={() => setOpen((s) => !s)}
+        className="h-10 rounded-full bg-white/70 dark:bg-slate-900/70 border border-white/40 dark:border-white/10 text-sm font-semibold text-slate-800 dark:text-slate-100 shadow-lg backdrop-blur-md px-4 flex items-center gap-2 hover:shadow-xl transition"
+        aria-label="Select network"
+      >
+        <span className={`w-2 h-2 rounded-full ${dotClass(value)}`} />
+        {currentLabel}
+        <span className="text-slate-400">▾</span>
+      </button>
+
+      {open && (
+        <div className="absolute top-full mt-2 right-0 min-w-[160px] rounded-2xl bg-white/90 dark:bg-slate-900/90 border border-white/50 dark:border-white/10 shadow-2xl backdrop-blur-xl overflow-hidden z-50">
+          {SUI_NETWORKS.map((network) => (
+            <button
+              key={network}
+              type="button"
+              onClick={() => {
+                onChange(network);
+                setOpen(false);
+              }}
+              className={`w-full text-left px-4 py-3 text-sm flex items-center gap-2 transition hover:bg-blue-50/80 dark:hover:bg-slate-800/80 ${
+                network === value ? 'bg-blue-500/10 text-blue-700 dark:text-blue-200 font-semibold' : 'text-slate-800 dark:text-slate-100'
+              }`}
+            >
+              <span className={`w-2 h-2 rounded-full ${dotClass(network)}`} />
+              {NETWORK_LABELS[network]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
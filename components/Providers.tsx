@@ -5,7 +5,8 @@ import { getFullnodeUrl } from '@mysten/sui/client';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@mysten/dapp-kit/dist/index.css'; // Cüzdan stillerini ekle
 import { WalletErrorBoundary } from '@/components/WalletErrorBoundary';
-import { useEffect } from 'react';
+import { DEFAULT_NETWORK, isSuiNetwork, NETWORK_STORAGE_KEY, type SuiNetwork } from '@/lib/network';
+import { useEffect, useState } from 'react';
 
 // Ağ ayarları (Mainnet, Testnet, Devnet)
 const { networkConfig } = createNetworkConfig({
@@ -18,6 +19,21 @@ const { networkConfig } = createNetworkConfig({
 const queryClient = new QueryClient();
 
 export function Providers({ children }: { children: React.ReactNode }) {
+	// Seçili ağ - varsayılan NEXT_PUBLIC_SUI_NETWORK, kullanıcının seçimi localStorage'da saklanır
+	const [network, setNetwork] = useState<SuiNetwork>(DEFAULT_NETWORK);
+
+	useEffect(() => {
+		const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+		if (isSuiNetwork(stored)) {
+			setNetwork(stored);
+		}
+	}, []);
+
+	const handleNetworkChange = (next: SuiNetwork) => {
+		setNetwork(next);
+		localStorage.setItem(NETWORK_STORAGE_KEY, next);
+	};
+
 	// Global error handler to catch and ignore MetaMask errors
 	useEffect(() => {
 		const handleError = (event: ErrorEvent) => {
@@ -69,7 +85,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
 	return (
 		<WalletErrorBoundary>
 			<QueryClientProvider client={queryClient}>
-				<SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
+				<SuiClientProvider networks={networkConfig} network={network} onNetworkChange={handleNetworkChange}>
 					<WalletProvider autoConnect={false}>
 						{children}
 					</WalletProvider>
@@ -2,19 +2,60 @@
 
 import { useState, useRef, useEffect, useMemo } from 'react';
 import Image from 'next/image';
-import { Send, Loader2, BookOpen, X, Trash2, Plus, Globe } from 'lucide-react';
-import type { TransactionResponse } from '@/lib/schemas/transaction';
-import { useSignAndExecuteTransaction, useCurrentAccount } from '@mysten/dapp-kit';
-import { Transaction } from '@mysten/sui/transactions';
+import { Send, Loader2, BookOpen, X, Trash2, Plus, Globe, ShieldCheck, FileUp } from 'lucide-react';
+import { TransactionResponseSchema, type TransactionParams, type TransactionResponse } from '@/lib/schemas/transaction';
+import { useSignAndExecuteTransaction, useCurrentAccount, useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { ModelSelector, type ModelType } from '@/components/ModelSelector';
+import { SpendingPolicySettings } from '@/components/chat/SpendingPolicySettings';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { useWalletMemory } from '@/hooks/useWalletMemory';
-import type { ChatMessage, ActivityLogEntry } from '@/types';
+import { usePortfolio } from '@/hooks/usePortfolio';
+import { readStreamEvents } from '@/lib/ai/streaming';
+import { getAmountError } from '@/lib/transactions/amount';
+import { getBatchRows } from '@/lib/transactions/batch';
+import {
+  chunkPayouts,
+  getPayoutCoin,
+  looksLikePayoutList,
+  MAX_BATCH_RECIPIENTS,
+  parsePayoutList,
+  type PayoutRowError,
+} from '@/lib/payouts';
+import { buildIntent } from '@/lib/transactions/executor';
+import { canSkipPreview, getConfirmationPolicy } from '@/lib/transactions/confirmation';
+import {
+  DEFAULT_SPENDING_POLICY,
+  evaluateSpendingPolicy,
+  formatPolicyViolations,
+  getIntentRecipients,
+  getSuiOutflowMist,
+} from '@/lib/transactions/policy';
+import { assessRecipient } from '@/lib/transactions/risk';
+import { isSuiNsName, resolveSuiNsRecipients } from '@/lib/transactions/suins';
+import { assertSimulationSucceeds } from '@/lib/transactions/simulation';
+import { MAX_SPLIT_COINS } from '@/lib/transactions/tidy';
+import { isActivityOnNetwork } from '@/lib/network';
+import { toPortfolioContext } from '@/lib/portfolio';
+import {
+  completeScheduledRun,
+  createScheduledJob,
+  describeScheduledJob,
+  findScheduledJobs,
+  formatScheduledRun,
+  getDueJobs,
+  getLocalTimeContext,
+  getNetworkJobs,
+  MAX_SCHEDULED_JOBS,
+  toScheduledIntent,
+  updateScheduledJob,
+} from '@/lib/scheduler';
+import type { ChatMessage, ActivityLogEntry, SpendingPolicy, ScheduledJob } from '@/types';
 
 interface Message {
   id: string;
@@ -28,15 +69,33 @@ interface Contact {
   address: string;
 }
 
+// Largest payout list (CSV/JSON) accepted from a file
+const MAX_PAYOUT_FILE_BYTES = 1_000_000;
+
 interface ChatInterfaceProps {
   onTransactionGenerated: (response: TransactionResponse | null) => void;
   onRecipientResolved?: (name: string | null, address: string) => void;
   onTransactionSuccess?: (digest: string) => void;
+  // Activity executed outside the chat (e.g. confirmed in DashboardPanel) that should be logged to Walrus
+  externalActivity?: ActivityLogEntry | null;
+  // Activity history from Walrus memory, shared with the DashboardPanel recipient check
+  onActivityLogsChange?: (activityLogs: ActivityLogEntry[]) => void;
+  // Scheduled payments of the selected network, listed in the DashboardPanel
+  onScheduledJobsChange?: (jobs: ScheduledJob[]) => void;
 }
 
-export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onTransactionSuccess }: ChatInterfaceProps) {
+export function ChatInterface({
+  onTransactionGenerated,
+  onRecipientResolved,
+  onTransactionSuccess,
+  externalActivity,
+  onActivityLogsChange,
+  onScheduledJobsChange,
+}: ChatInterfaceProps) {
   const { mutate: signAndExecuteTransaction, isPending: isTransactionPending } = useSignAndExecuteTransaction();
   const currentAccount = useCurrentAccount();
+  const client = useSuiClient();
+  const { network } = useSuiClientContext();
   
   // Walrus Memory Hook
   const { 
@@ -47,20 +106,115 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
     addActivityLog,
     updateAiSummary,
     updateContacts: updateWalrusContacts,
+    updateSpendingPolicy,
+    updateScheduledJobs,
   } = useWalletMemory();
+
+  // Live coin balances, sent to the AI so balance questions get exact answers
+  const { assets: portfolioAssets } = usePortfolio();
+
+  // Only activity from the selected network - testnet history never feeds mainnet checks
+  const networkActivityLogs = useMemo(
+    () => (memory?.activityLogs || []).filter((activity) => isActivityOnNetwork(activity, network)),
+    [memory?.activityLogs, network]
+  );
+  
+  // Scheduled payments (stored in Walrus memory for every network, run on the network they were made for)
+  const scheduledJobs = memory?.scheduledJobs || [];
+  const networkScheduledJobs = useMemo(() => getNetworkJobs(memory?.scheduledJobs || [], network), [memory?.scheduledJobs, network]);
   
   // Address Book State
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [isAddressBookOpen, setIsAddressBookOpen] = useState(false);
   const [newContactName, setNewContactName] = useState('');
   const [newContactAddress, setNewContactAddress] = useState('');
+
+  // Spending Policy State (stored in Walrus memory next to the contacts)
+  const [isPolicyOpen, setIsPolicyOpen] = useState(false);
+  const spendingPolicy = memory?.spendingPolicy || DEFAULT_SPENDING_POLICY;
   
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
   const [selectedModel, setSelectedModel] = useState<ModelType>('gemini-1.5-pro'); // Default to Thinking (Düşünen)
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Imported payout batches waiting for the previous batch to be confirmed
+  const [pendingPayoutBatches, setPendingPayoutBatches] = useState<TransactionResponse[]>([]);
+  const [isPayoutDragOver, setIsPayoutDragOver] = useState(false);
+  const payoutFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Due scheduled payment open in the preview, and the due ones opening after it
+  const [activeScheduledRun, setActiveScheduledRun] = useState<ScheduledJob | null>(null);
+  const [pendingScheduledRuns, setPendingScheduledRuns] = useState<ScheduledJob[]>([]);
+  // Runs already raised in this session (job id + due time) - a dismissed payment waits for the next visit
+  const raisedRunsRef = useRef<Set<string>>(new Set());
+
+  // Log activities confirmed in DashboardPanel to Walrus memory
+  useEffect(() => {
+    if (externalActivity) {
+      addActivityLog(externalActivity);
+
+      // A signed scheduled payment moves its job to the next run, then the next due payment opens
+      if (activeScheduledRun && externalActivity.type === activeScheduledRun.actionType && externalActivity.status === 'success') {
+        finishScheduledRun(activeScheduledRun, externalActivity.timestamp);
+        const [next, ...rest] = pendingScheduledRuns;
+        setPendingScheduledRuns(rest);
+        setActiveScheduledRun(null);
+        if (next) {
+          openScheduledRun(next, [externalActivity]);
+        }
+        return;
+      }
+
+      // The next imported payout batch opens once the previous one is confirmed
+      if (externalActivity.type === 'BATCH_TRANSFER' && pendingPayoutBatches.length > 0) {
+        const [next, ...rest] = pendingPayoutBatches;
+        setPendingPayoutBatches(rest);
+        addMessageToChat(`📦 Next payout batch: ${next.data.summary}`, 'assistant');
+        openPayoutBatch(next, [externalActivity]);
+      }
+    }
+  }, [externalActivity]);
+
+  // Batches prepared for another network are dropped
+  useEffect(() => {
+    setPendingPayoutBatches([]);
+    setActiveScheduledRun(null);
+    setPendingScheduledRuns([]);
+  }, [network]);
+
+  useEffect(() => {
+    onActivityLogsChange?.(networkActivityLogs);
+  }, [networkActivityLogs]);
+
+  useEffect(() => {
+    onScheduledJobsChange?.(networkScheduledJobs);
+  }, [networkScheduledJobs]);
+
+  // Payments that fell due while the app was closed are raised once the wallet's memory has loaded:
+  // the first opens in the preview, the rest one by one after each signed payment
+  useEffect(() => {
+    if (!currentAccount?.address || !memory || isMemoryLoading || memory.walletAddress !== currentAccount.address) return;
+
+    const due = getDueJobs(memory.scheduledJobs || [], network, Date.now()).filter(
+      (job) => !raisedRunsRef.current.has(`${job.id}:${job.nextRunAt}`)
+    );
+    if (due.length === 0) return;
+    due.forEach((job) => raisedRunsRef.current.add(`${job.id}:${job.nextRunAt}`));
+
+    if (due.length > 1) {
+      addMessageToChat(`⏰ ${due.length} scheduled payments are due. They open one by one in the preview.`, 'assistant');
+    }
+    if (activeScheduledRun) {
+      setPendingScheduledRuns((prev) => [...prev, ...due]);
+      return;
+    }
+    setPendingScheduledRuns(due.slice(1));
+    openScheduledRun(due[0]);
+  }, [currentAccount?.address, memory, isMemoryLoading, network]);
+
   // Memoize Walrus status to prevent unnecessary re-renders
   const walrusStatus = useMemo(() => {
     if (!currentAccount?.address) return null;
@@ -215,7 +369,16 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
   }, [contacts, currentAccount?.address]);
 
   // Smart Address Resolution
-  const resolveRecipient = (recipient: string): { address: string; name: string | null } => {
+  // .sui names are looked up through SuiNS beforehand and passed in as name → address
+  const resolveRecipient = (
+    recipient: string,
+    suinsAddresses: Record<string, string> = {}
+  ): { address: string; name: string | null } => {
+    if (isSuiNsName(recipient)) {
+      const name = recipient.trim().toLowerCase();
+      return { address: suinsAddresses[name] || '', name };
+    }
+
     // If it starts with 0x, it's already an address
     if (recipient.startsWith('0x')) {
       // Check if this address is in our contacts
@@ -240,7 +403,171 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingContent]);
+
+  // SUI balance is only needed when an "all my SUI" intent has to be checked against the limits
+  const getBalanceForPolicy = async (data: TransactionResponse['data']): Promise<bigint | undefined> => {
+    if (!currentAccount?.address || getSuiOutflowMist(data) !== null) {
+      return undefined;
+    }
+    try {
+      const { totalBalance } = await client.getBalance({ owner: currentAccount.address });
+      return BigInt(totalBalance);
+    } catch (error) {
+      console.error('Failed to load balance for spending policy:', error);
+      return undefined;
+    }
+  };
+
+  // Open a due scheduled payment in the preview, after the spending policy check
+  const openScheduledRun = async (job: ScheduledJob, recentActivity: ActivityLogEntry[] = []): Promise<boolean> => {
+    const intent = toScheduledIntent(job);
+    const violations = evaluateSpendingPolicy(intent.data, {
+      policy: spendingPolicy,
+      contacts,
+      activityLogs: [...networkActivityLogs, ...recentActivity],
+      now: Date.now(),
+      balanceMist: await getBalanceForPolicy(intent.data),
+    });
+    if (violations.length > 0) {
+      addMessageToChat(
+        `${intent.data.summary}\n\n${formatPolicyViolations(violations)}\n\nThe payment stays due and opens again the next time you open VAQI.`,
+        'assistant'
+      );
+      setActiveScheduledRun(null);
+      setPendingScheduledRuns([]);
+      onTransactionGenerated(null);
+      return false;
+    }
+    addMessageToChat(`${intent.data.summary}\n\nIt was due ${formatScheduledRun(job.nextRunAt)} and is ready to sign in the preview.`, 'assistant');
+    setActiveScheduledRun(job);
+    onTransactionGenerated(intent);
+    return true;
+  };
+
+  // Move a signed job to its next run, or drop it after its last one
+  const finishScheduledRun = (job: ScheduledJob, now: number) => {
+    const current = scheduledJobs.find((scheduled) => scheduled.id === job.id);
+    if (!current) return; // Cancelled while its payment was open
+
+    const next = completeScheduledRun(current, now);
+    updateScheduledJobs(
+      scheduledJobs.flatMap((scheduled) => (scheduled.id !== job.id ? [scheduled] : next ? [next] : []))
+    );
+    addMessageToChat(
+      next
+        ? `🗓️ Next scheduled payment: ${formatScheduledRun(next.nextRunAt)}.`
+        : `🗓️ That was the last payment of "${describeScheduledJob(current)}".`,
+      'assistant'
+    );
+  };
+
+  // Drop the due payments in the preview and the queue, e.g. when a new request opens another ticket
+  const clearScheduledRuns = () => {
+    setActiveScheduledRun(null);
+    setPendingScheduledRuns([]);
+  };
+
+  // Recipients of a scheduled payment must resolve now, even though they are looked up again at each run
+  const getUnresolvedScheduledRecipients = (job: ScheduledJob, suinsAddresses: Record<string, string>): string[] => {
+    const recipients = job.actionType === 'TRANSFER' ? [job.params.recipient || ''] : getBatchRows(job.params).map((row) => row.recipient);
+    return recipients.filter((recipient) => !resolveRecipient(recipient, suinsAddresses).address);
+  };
+
+  const formatScheduledJobList = (jobs: ScheduledJob[]): string =>
+    jobs.map((job) => `- ${describeScheduledJob(job)} (next: ${formatScheduledRun(job.nextRunAt)})`).join('\n');
+
+  /**
+   * Create, update or cancel a scheduled payment
+   * Only Walrus memory changes - nothing is signed until a run is due, and the open ticket stays as it is.
+   */
+  const handleScheduleIntent = (params: TransactionParams, suinsAddresses: Record<string, string>) => {
+    const operation = params.schedule?.operation || 'create';
+    const now = Date.now();
+
+    try {
+      if (operation === 'create') {
+        if (scheduledJobs.length >= MAX_SCHEDULED_JOBS) {
+          addMessageToChat(`❌ You can keep at most ${MAX_SCHEDULED_JOBS} scheduled payments. Please cancel one first.`, 'assistant');
+          return;
+        }
+        const job = createScheduledJob(params, { now, network });
+        const unresolved = getUnresolvedScheduledRecipients(job, suinsAddresses);
+        if (unresolved.length > 0) {
+          addMessageToChat(
+            `❌ Invalid recipients: ${unresolved.join(', ')}. Please add them to your address book first or use a registered .sui name.`,
+            'assistant'
+          );
+          return;
+        }
+        updateScheduledJobs([...scheduledJobs, job]);
+        addMessageToChat(
+          `🗓️ Scheduled: ${describeScheduledJob(job)}.\nFirst payment: ${formatScheduledRun(job.nextRunAt)}. When it is due, I will prepare it for you to sign the next time VAQI is open.`,
+          'assistant'
+        );
+        return;
+      }
+
+      const matches = findScheduledJobs(networkScheduledJobs, params.schedule?.job);
+      if (matches.length !== 1) {
+        addMessageToChat(
+          networkScheduledJobs.length === 0
+            ? `❌ You have no scheduled payments on ${network}.`
+            : matches.length === 0
+              ? `❌ I could not find that scheduled payment. Your scheduled payments:\n${formatScheduledJobList(networkScheduledJobs)}`
+              : `Which scheduled payment do you mean?\n${formatScheduledJobList(matches)}`,
+          'assistant'
+        );
+        return;
+      }
+
+      const [job] = matches;
+      const isOpen = activeScheduledRun?.id === job.id;
+      if (operation === 'cancel') {
+        updateScheduledJobs(scheduledJobs.filter((scheduled) => scheduled.id !== job.id));
+        setPendingScheduledRuns((prev) => prev.filter((scheduled) => scheduled.id !== job.id));
+        if (isOpen) {
+          setActiveScheduledRun(null);
+          onTransactionGenerated(null);
+        }
+        addMessageToChat(`🗑️ Cancelled: ${describeScheduledJob(job)}.`, 'assistant');
+        return;
+      }
+
+      const updated = updateScheduledJob(job, params, now);
+      const unresolved = getUnresolvedScheduledRecipients(updated, suinsAddresses);
+      if (unresolved.length > 0) {
+        addMessageToChat(
+          `❌ Invalid recipients: ${unresolved.join(', ')}. Please add them to your address book first or use a registered .sui name.`,
+          'assistant'
+        );
+        return;
+      }
+      updateScheduledJobs(scheduledJobs.map((scheduled) => (scheduled.id === job.id ? updated : scheduled)));
+      setPendingScheduledRuns((prev) => prev.map((scheduled) => (scheduled.id === job.id ? updated : scheduled)));
+      addMessageToChat(
+        `✏️ Updated: ${describeScheduledJob(updated)}.\nNext payment: ${formatScheduledRun(updated.nextRunAt)}.`,
+        'assistant'
+      );
+      // The open payment is replaced by the updated one, or closed when the update moved it to later
+      if (isOpen) {
+        if (updated.nextRunAt <= now) {
+          openScheduledRun(updated);
+        } else {
+          setActiveScheduledRun(null);
+          onTransactionGenerated(null);
+        }
+      }
+    } catch (error) {
+      addMessageToChat(`❌ ${error instanceof Error ? error.message : 'Could not save the scheduled payment.'}`, 'assistant');
+    }
+  };
+
+  const handleSavePolicy = (policy: SpendingPolicy) => {
+    updateSpendingPolicy(policy);
+    setIsPolicyOpen(false);
+    addMessageToChat('✅ Spending policy saved.', 'assistant');
+  };
 
   const addMessageToChat = (content: string, role: 'user' | 'assistant') => {
     const timestamp = Date.now();
@@ -282,7 +609,141 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
     return `\`\`\`${lang}\n${trimmed}\n\`\`\``;
   };
 
-  const handleAIResponse = (responseData: TransactionResponse | string) => {
+  // Open one imported payout batch in the preview, after the spending policy check
+  const openPayoutBatch = async (batch: TransactionResponse, recentActivity: ActivityLogEntry[] = []): Promise<boolean> => {
+    const violations = evaluateSpendingPolicy(batch.data, {
+      policy: spendingPolicy,
+      contacts,
+      activityLogs: [...networkActivityLogs, ...recentActivity],
+      now: Date.now(),
+      balanceMist: await getBalanceForPolicy(batch.data),
+    });
+    if (violations.length > 0) {
+      addMessageToChat(`${batch.data.summary}\n\n${formatPolicyViolations(violations)}`, 'assistant');
+      setPendingPayoutBatches([]);
+      onTransactionGenerated(null);
+      return false;
+    }
+    onTransactionGenerated(batch);
+    return true;
+  };
+
+  /**
+   * Import a CSV/JSON payout list (dropped file, picked file or pasted text)
+   * Every row is resolved like a chat recipient; invalid rows are listed and skipped. Valid rows become
+   * BATCH_TRANSFER previews per coin, chunked to MAX_BATCH_RECIPIENTS recipients - the first opens now,
+   * the rest one by one after each confirmed batch.
+   */
+  const importPayoutList = async (text: string, source: string) => {
+    addMessageToChat(`📄 Payout list: ${source}`, 'user');
+    // The imported batches replace a scheduled payment waiting in the preview
+    clearScheduledRuns();
+
+    const { rows, errors } = parsePayoutList(text);
+    const rowErrors: PayoutRowError[] = [...errors];
+
+    let suinsAddresses: Record<string, string> = {};
+    try {
+      const names = rows.map((row) => row.recipient).filter((recipient) => isSuiNsName(recipient));
+      suinsAddresses = (await resolveSuiNsRecipients(client, names)).addresses;
+    } catch (error) {
+      console.error('SuiNS Resolution Error:', error);
+      addMessageToChat('❌ Could not reach the SuiNS resolver. Please try again.', 'assistant');
+      return;
+    }
+
+    // Valid rows grouped by coin (one batch transaction moves one coin)
+    const byCoin = new Map<string, Array<{ address: string; amount: string }>>();
+    for (const row of rows) {
+      const { address } = resolveRecipient(row.recipient, suinsAddresses);
+      const amountError = getAmountError(row.amount);
+      if (!address) {
+        rowErrors.push({
+          line: row.line,
+          recipient: row.recipient,
+          message: isSuiNsName(row.recipient) ? 'SuiNS name is not registered.' : 'Not a 0x address or a saved contact.',
+        });
+      } else if (!isValidSuiAddress(normalizeSuiAddress(address)) || !/^0x[0-9a-fA-F]+$/.test(address)) {
+        rowErrors.push({ line: row.line, recipient: row.recipient, message: 'Invalid Sui address.' });
+      } else if (amountError) {
+        rowErrors.push({ line: row.line, recipient: row.recipient, message: amountError });
+      } else {
+        const coin = getPayoutCoin(row.coinType);
+        byCoin.set(coin, [...(byCoin.get(coin) || []), { address, amount: row.amount }]);
+      }
+    }
+
+    const validCount = Array.from(byCoin.values()).reduce((sum, payouts) => sum + payouts.length, 0);
+    const report = [`📄 Imported ${source}: ${validCount} valid row(s).`];
+    if (rowErrors.length > 0) {
+      const shown = rowErrors.sort((a, b) => a.line - b.line).slice(0, 20);
+      report.push(
+        [
+          `⚠️ ${rowErrors.length} row(s) skipped:`,
+          ...shown.map((error) => `- Line ${error.line}${error.recipient ? ` (${error.recipient})` : ''}: ${error.message}`),
+          ...(rowErrors.length > shown.length ? [`- ...and ${rowErrors.length - shown.length} more`] : []),
+        ].join('\n')
+      );
+    }
+
+    const batches: TransactionResponse[] = [];
+    byCoin.forEach((payouts, coin) => {
+      const chunks = chunkPayouts(payouts);
+      chunks.forEach((chunk, index) => {
+        batches.push({
+          type: 'TRANSACTION',
+          data: {
+            summary: `${source} - ${coin} batch ${index + 1}/${chunks.length} (${chunk.length} recipients)`,
+            action_type: 'BATCH_TRANSFER',
+            params: {
+              token: coin,
+              allocations: chunk.map((payout) => ({ recipient: payout.address, amount: payout.amount })),
+            },
+          },
+        });
+      });
+    });
+
+    if (batches.length === 0) {
+      addMessageToChat([...report, '❌ No valid rows to send.'].join('\n\n'), 'assistant');
+      onTransactionGenerated(null);
+      return;
+    }
+    report.push(
+      batches.length === 1
+        ? '📦 The batch is open in the preview.'
+        : `📦 Split into ${batches.length} batch transactions (at most ${MAX_BATCH_RECIPIENTS} recipients and one coin each). The first is open in the preview; the next opens after each confirmed batch.`
+    );
+    addMessageToChat(report.join('\n\n'), 'assistant');
+
+    setPendingPayoutBatches(batches.slice(1));
+    await openPayoutBatch(batches[0]);
+  };
+
+  const handlePayoutImport = async (text: string, source: string) => {
+    if (isLoading) return;
+    setIsLoading(true);
+    try {
+      await importPayoutList(text, source);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePayoutFile = async (file: File) => {
+    if (file.size > MAX_PAYOUT_FILE_BYTES) {
+      addMessageToChat(`❌ ${file.name} is too large. Payout lists can be at most 1 MB.`, 'assistant');
+      return;
+    }
+    try {
+      await handlePayoutImport(await file.text(), file.name);
+    } catch (error) {
+      console.error('Payout Import Error:', error);
+      addMessageToChat(`❌ Could not read ${file.name}.`, 'assistant');
+    }
+  };
+
+  const handleAIResponse = async (responseData: TransactionResponse | string) => {
     try {
       // Parse the JSON string coming from the AI (if it's a string)
       // or use directly if it's already an object
@@ -296,13 +757,46 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
       // 2. Eğer türü TRANSACTION ise cüzdan işlemini tetikle
       if (aiData.type === 'TRANSACTION') {
         const { action_type, params } = aiData.data;
+        // A new request replaces any imported payout batches and scheduled payments still waiting
+        // (scheduling only changes memory, so the open ticket stays)
+        if (action_type !== 'SCHEDULE') {
+          setPendingPayoutBatches([]);
+          clearScheduledRuns();
+        }
+
+        // Spending policy is checked before anything is built - a violation is explained here, no wallet popup
+        const violations = evaluateSpendingPolicy(aiData.data, {
+          policy: spendingPolicy,
+          contacts,
+          activityLogs: networkActivityLogs,
+          now: Date.now(),
+          balanceMist: await getBalanceForPolicy(aiData.data),
+        });
+        if (violations.length > 0) {
+          addMessageToChat(formatPolicyViolations(violations), 'assistant');
+          onTransactionGenerated(null);
+          return;
+        }
+
+        // Resolve .sui recipients through the SuiNS resolver
+        let suinsAddresses: Record<string, string> = {};
+        try {
+          suinsAddresses = (await resolveSuiNsRecipients(client, getIntentRecipients(aiData.data))).addresses;
+        } catch (error) {
+          console.error('SuiNS Resolution Error:', error);
+          addMessageToChat('❌ Could not reach the SuiNS resolver. Please try again.', 'assistant');
+          onTransactionGenerated(null);
+          return;
+        }
 
         if (action_type === 'TRANSFER') {
           // Validate required parameters
           const amount = params.amount;
           const recipientInput = params.recipient || (params as any).to_address;
+          // "Send all my SUI" carries no amount - the executor sends the whole balance
+          const isMax = params.isMax === true;
 
-          if (!amount || !recipientInput) {
+          if ((!amount && !isMax) || !recipientInput) {
             addMessageToChat(
               'Error: Missing required parameters. Please provide both amount and recipient address.',
               'assistant'
@@ -311,12 +805,21 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
             return;
           }
 
+          const amountError = isMax ? null : getAmountError(amount);
+          if (amountError) {
+            addMessageToChat(`Error: ${amountError}`, 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
+
           // Smart Address Resolution
-          const { address, name } = resolveRecipient(recipientInput);
+          const { address, name } = resolveRecipient(recipientInput, suinsAddresses);
 
           if (!address) {
             addMessageToChat(
-              `❌ Contact '${recipientInput}' not found. Please add them to your address book first.`,
+              isSuiNsName(recipientInput)
+                ? `❌ SuiNS name '${recipientInput}' is not registered.`
+                : `❌ Contact '${recipientInput}' not found. Please add them to your address book first.`,
               'assistant'
             );
             onTransactionGenerated(null);
@@ -328,20 +831,42 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
             onRecipientResolved(name, address);
           }
 
-          try {
-            // Convert SUI to MIST (1 SUI = 1,000,000,000 MIST)
-            // Use Math.floor to ensure integer, then convert to BigInt
-            const amountInMist = BigInt(Math.floor(parseFloat(amount) * 1_000_000_000));
+          // Transfers need explicit confirmation on the DashboardPanel ticket,
+          // unless the confirmation policy lets small transfers to saved contacts skip it
+          // (a flagged recipient always gets the ticket, where the warnings are shown)
+          const isSavedContact = contacts.some((contact) => contact.address.toLowerCase() === address.toLowerCase());
+          const recipientRisk = currentAccount
+            ? assessRecipient(address, { sender: currentAccount.address, contacts, activityLogs: networkActivityLogs })
+            : null;
+          if (
+            !canSkipPreview(aiData.data, getConfirmationPolicy(), isSavedContact) ||
+            !recipientRisk ||
+            recipientRisk.warnings.length > 0
+          ) {
+            onTransactionGenerated(aiData);
+            return;
+          }
 
-            // Create a new transaction
-            const tx = new Transaction();
+          if (!currentAccount) {
+            addMessageToChat('❌ Please connect your wallet first.', 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
 
-            // Split coins from gas to get the amount to transfer
-            // Use tx.pure.u64() to explicitly specify the type as unsigned 64-bit integer
-            const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(amountInMist)]);
+          try {
+            // Build through the shared intent executor (same code path as the dashboard tickets)
+            const { transaction: tx, preview } = await buildIntent(aiData.data, {
+              client,
+              sender: currentAccount.address,
+              network,
+              resolveRecipient: (recipient: string) => {
+                const resolved = resolveRecipient(recipient, suinsAddresses);
+                return resolved.address ? { name: resolved.name, address: resolved.address } : null;
+              },
+            });
 
-            // Transfer the coin to the recipient (use resolved address)
-            tx.transferObjects([coin], address);
+            // Dry-run before the wallet prompt; a failing transaction is reported instead of signed
+            await assertSimulationSucceeds(client, tx, currentAccount.address);
 
             // Execute the transaction
             signAndExecuteTransaction(
@@ -351,20 +876,19 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
               {
                 onSuccess: (result) => {
                   const digest = result.digest;
-                  const recipientDisplay = name ? `${name} (${address.slice(0, 6)}...${address.slice(-4)})` : address;
                   addMessageToChat(
-                    `✅ Transaction successful! Sent ${amount} SUI to ${recipientDisplay}\nDigest: ${digest}`,
+                    `✅ Transaction successful! ${preview.completedMessage}\nDigest: ${digest}`,
                     'assistant'
                   );
                   // Log activity to Walrus
-                  addActivityLog({
-                    type: 'TRANSFER',
-                    digest,
-                    amount,
-                    recipient: address,
-                    timestamp: Date.now(),
-                    status: 'success',
-                  });
+                  if (preview.activity) {
+                    addActivityLog({
+                      ...preview.activity,
+                      digest,
+                      timestamp: Date.now(),
+                      status: 'success',
+                    });
+                  }
                   // Notify parent about successful transaction
                   if (onTransactionSuccess) {
                     onTransactionSuccess(digest);
@@ -379,14 +903,14 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
                     'assistant'
                   );
                   // Log failed activity
-                  addActivityLog({
-                    type: 'TRANSFER',
-                    digest: '',
-                    amount,
-                    recipient: address,
-                    timestamp: Date.now(),
-                    status: 'failed',
-                  });
+                  if (preview.activity) {
+                    addActivityLog({
+                      ...preview.activity,
+                      digest: '',
+                      timestamp: Date.now(),
+                      status: 'failed',
+                    });
+                  }
                   onTransactionGenerated(null);
                 },
               }
@@ -401,9 +925,11 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
           }
         } else if (action_type === 'BATCH_TRANSFER') {
           // Batch transfer - show preview in DashboardPanel for confirmation
-          const recipients = params.recipients || [];
+          const recipients = getBatchRows(params).map((row) => row.recipient);
           const totalAmount = params.amount;
           const isMax = params.isMax === true;
+          // Per-recipient amounts make the batch total optional
+          const hasAllocations = (params.allocations || []).length > 0;
 
           if (!recipients || recipients.length === 0) {
             addMessageToChat(
@@ -414,10 +940,17 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
             return;
           }
 
+          const amountError = isMax || (hasAllocations && !totalAmount) ? null : getAmountError(totalAmount);
+          if (amountError) {
+            addMessageToChat(`Error: ${amountError}`, 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
+
           // Validate recipients can be resolved (but don't execute yet)
           const unresolvedRecipients: string[] = [];
           recipients.forEach((recipient: string) => {
-            const { address } = resolveRecipient(recipient);
+            const { address } = resolveRecipient(recipient, suinsAddresses);
             if (!address) {
               unresolvedRecipients.push(recipient);
             }
@@ -425,7 +958,7 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
 
           if (unresolvedRecipients.length > 0) {
             addMessageToChat(
-              `❌ Invalid recipients: ${unresolvedRecipients.join(', ')}. Please add them to your address book first.`,
+              `❌ Invalid recipients: ${unresolvedRecipients.join(', ')}. Please add them to your address book first or use a registered .sui name.`,
               'assistant'
             );
             onTransactionGenerated(null);
@@ -434,105 +967,144 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
 
           // Show batch transfer preview in DashboardPanel
           onTransactionGenerated(aiData);
-        } else if (action_type === 'DEFI_SUPPLY') {
-          // Scallop Supply - Simulated via self-transfer
-          const amount = params.amount;
+        } else if (action_type === 'MULTI_STEP') {
+          // Multi-step - compiled into one PTB, always confirmed in DashboardPanel
+          const steps = params.steps || [];
 
-          if (!amount || parseFloat(amount) <= 0) {
+          if (steps.length === 0) {
             addMessageToChat(
-              'Error: Missing or invalid amount. Please provide a valid amount to supply.',
+              'Error: No steps found. Please describe the actions you want to perform.',
               'assistant'
             );
             onTransactionGenerated(null);
             return;
           }
 
-          if (!currentAccount?.address) {
+          // Validate every step's recipients can be resolved (but don't execute yet)
+          const unresolvedRecipients: string[] = [];
+          steps.forEach((step) => {
+            const stepRecipients = step.params.recipient ? [step.params.recipient] : getBatchRows(step.params).map((row) => row.recipient);
+            stepRecipients.forEach((recipient: string) => {
+              const { address } = resolveRecipient(recipient, suinsAddresses);
+              if (!address) {
+                unresolvedRecipients.push(recipient);
+              }
+            });
+          });
+
+          if (unresolvedRecipients.length > 0) {
             addMessageToChat(
-              'Error: Please connect your wallet to supply to Scallop.',
+              `❌ Invalid recipients: ${unresolvedRecipients.join(', ')}. Please add them to your address book first or use a registered .sui name.`,
               'assistant'
             );
             onTransactionGenerated(null);
             return;
           }
 
-          // Set intent so DashboardPanel can track it
+          // Show multi-step preview in DashboardPanel
           onTransactionGenerated(aiData);
+        } else if (action_type === 'NFT_TRANSFER') {
+          // NFT transfer - the NFT is looked up and confirmed in DashboardPanel
+          if (!params.nft || !params.recipient) {
+            addMessageToChat('Error: Please tell me which NFT to send and to whom.', 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
 
-          try {
-            // Convert SUI to MIST
-            const amountInMist = BigInt(Math.floor(parseFloat(amount) * 1_000_000_000));
+          const { address } = resolveRecipient(params.recipient, suinsAddresses);
+          if (!address) {
+            addMessageToChat(
+              isSuiNsName(params.recipient)
+                ? `❌ SuiNS name '${params.recipient}' is not registered.`
+                : `❌ Contact '${params.recipient}' not found. Please add them to your address book first.`,
+              'assistant'
+            );
+            onTransactionGenerated(null);
+            return;
+          }
 
-            // Create transaction - Simulate Scallop supply by transferring to own address
-            const tx = new Transaction();
-            const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(amountInMist)]);
-            
-            // Transfer to own address (simulating Scallop pool deposit)
-            tx.transferObjects([coin], currentAccount.address);
+          onTransactionGenerated(aiData);
+        } else if (action_type === 'SCHEDULE') {
+          // Scheduled payment - kept in Walrus memory and raised for signing when due
+          handleScheduleIntent(params, suinsAddresses);
+        } else if (action_type === 'UNSTAKE') {
+          // Unstake - positions are listed and confirmed in DashboardPanel
+          onTransactionGenerated(aiData);
+        } else if (action_type === 'MERGE_COINS') {
+          // Coin merge - the coin objects are listed and confirmed in DashboardPanel
+          onTransactionGenerated(aiData);
+        } else if (action_type === 'SPLIT_COINS') {
+          // Coin split - the equal parts are shown and confirmed in DashboardPanel
+          const amountError = getAmountError(params.amount);
+          if (amountError) {
+            addMessageToChat(`Error: ${amountError}`, 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
 
-            // Execute the transaction
-            signAndExecuteTransaction(
-              {
-                transaction: tx as any,
-              },
-              {
-                onSuccess: (result) => {
-                  const digest = result.digest;
-                  addMessageToChat(
-                    `✅ Successfully Supplied ${amount} SUI to Scallop Protocol (Simulated)\nDigest: ${digest}`,
-                    'assistant'
-                  );
-                  // Log DeFi activity to Walrus
-                  addActivityLog({
-                    type: 'DEFI_SUPPLY',
-                    digest,
-                    amount,
-                    timestamp: Date.now(),
-                    status: 'success',
-                  });
-                  
-                  // Notify parent about successful transaction
-                  if (onTransactionSuccess) {
-                    onTransactionSuccess(digest);
-                  }
-                  
-                  // Clear the transaction preview after a delay to allow DashboardPanel to process
-                  setTimeout(() => {
-                    onTransactionGenerated(null);
-                  }, 100);
-                },
-                onError: (error) => {
-                  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-                  addMessageToChat(
-                    `❌ Scallop supply failed: ${errorMessage}`,
-                    'assistant'
-                  );
-                  onTransactionGenerated(null);
-                },
-              }
-            );
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Failed to build transaction';
+          const count = params.count;
+          if (!count || !Number.isInteger(count) || count < 2 || count > MAX_SPLIT_COINS) {
+            addMessageToChat(`Error: Please tell me how many coins to split into (2 to ${MAX_SPLIT_COINS}).`, 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
+
+          onTransactionGenerated(aiData);
+        } else if (
+          action_type === 'DEFI_SUPPLY' ||
+          action_type === 'DEFI_WITHDRAW' ||
+          action_type === 'DEFI_BORROW' ||
+          action_type === 'DEFI_REPAY'
+        ) {
+          // Lending - protocol, APY and positions are shown in DashboardPanel for confirmation
+          const amountError = getAmountError(params.amount);
+          if (amountError) {
+            addMessageToChat(`Error: ${amountError}`, 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
+
+          onTransactionGenerated(aiData);
+        } else if (action_type === 'SWAP') {
+          // Swap - quoted and confirmed in DashboardPanel
+          if (!params.amount || !params.target_token) {
             addMessageToChat(
-              `❌ Error: ${errorMessage}`,
+              'Error: Please tell me how much to swap and which token you want to receive.',
               'assistant'
             );
             onTransactionGenerated(null);
+            return;
           }
-        } else if (action_type === 'SWAP') {
-          // Swap feature is not available - inform user
-          addMessageToChat(
-            `Swap feature is currently under development. I can help you Send SUI to any address.`,
-            'assistant'
-          );
-          onTransactionGenerated(null);
-        } else if (action_type === 'STAKE') {
-          // TODO: Implement stake logic
-          addMessageToChat(
-            'Staking functionality is not yet implemented. Coming soon!',
-            'assistant'
-          );
+
+          const amountError = getAmountError(params.amount);
+          if (amountError) {
+            addMessageToChat(`Error: ${amountError}`, 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
+
           onTransactionGenerated(aiData);
+        } else if (action_type === 'STAKE') {
+          // Native staking - validator is chosen and confirmed in DashboardPanel
+          const amountError = params.isMax === true ? null : getAmountError(params.amount);
+          if (amountError) {
+            addMessageToChat(`Error: ${amountError}`, 'assistant');
+            onTransactionGenerated(null);
+            return;
+          }
+
+          // No validator requested → reuse the validator of the user's last successful stake
+          const previousValidator = networkActivityLogs
+            .filter((log) => log.type === 'STAKE' && log.status === 'success' && log.validator)
+            .pop()?.validator;
+
+          onTransactionGenerated({
+            ...aiData,
+            data: {
+              ...aiData.data,
+              params: { ...params, validator: params.validator || previousValidator || null },
+            },
+          });
         } else {
           // Show transaction preview for other types
           onTransactionGenerated(aiData);
@@ -669,7 +1241,7 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
         content: msg.content,
       }));
 
-      const response = await fetch('/api/analyze', {
+      const response = await fetch('/api/analyze/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -678,23 +1250,42 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
           message: userMessage.content,
           history: historyMessages,
           model: selectedModel,
+          network,
+          portfolio: toPortfolioContext(portfolioAssets).slice(0, 20), // Top 20 holdings by value
           memoryContext: memory ? {
             aiSummary: memory.aiSummary,
-            recentActivities: memory.activityLogs.slice(-5), // Last 5 activities
+            recentActivities: networkActivityLogs.slice(-5), // Last 5 activities on this network
             chatHistory: memory.chatHistory.slice(-20), // Last 20 messages from previous sessions
+            localTime: getLocalTimeContext(Date.now()),
+            scheduledPayments: networkScheduledJobs.map((job) => ({ id: job.id, description: describeScheduledJob(job) })),
           } : null,
           linkData: linkData, // Include analyzed link data
         }),
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error('Failed to analyze transaction');
       }
 
-      // Get response as JSON (API returns parsed JSON)
-      const data: TransactionResponse = await response.json();
+      // Render summary tokens live, keep the envelope for the end of the stream
+      let finalEnvelope: unknown = null;
+      for await (const event of readStreamEvents(response.body)) {
+        if (event.type === 'delta') {
+          setStreamingContent((prev) => prev + event.text);
+        } else if (event.type === 'final') {
+          finalEnvelope = event.response;
+        }
+      }
+      setStreamingContent('');
       console.timeEnd('API_Request_Total');
-      handleAIResponse(data);
+
+      // Only act on the transaction once the envelope passes schema validation
+      const validated = TransactionResponseSchema.safeParse(finalEnvelope);
+      if (!validated.success) {
+        console.error('Invalid response envelope:', validated.error);
+        throw new Error('Received an invalid response from VAQI');
+      }
+      await handleAIResponse(validated.data);
     } catch (error) {
       console.timeEnd('API_Request_Total');
       console.error('API request failed:', error);
@@ -704,6 +1295,7 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
       );
       onTransactionGenerated(null);
     } finally {
+      setStreamingContent('');
       setIsLoading(false);
     }
   };
@@ -793,6 +1385,16 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
             >
               <BookOpen className="h-5 w-5" />
             </Button>
+            <Button
+              onClick={() => setIsPolicyOpen(true)}
+              variant="outline"
+              size="icon"
+              disabled={!memory}
+              className="rounded-full h-10 w-10 border-white/40 bg-white/50 hover:bg-white/80 text-blue-600 hover:text-blue-700 shadow-sm"
+              title="Spending Policy"
+            >
+              <ShieldCheck className="h-5 w-5" />
+            </Button>
           </div>
         </div>
       </div>
@@ -861,7 +1463,21 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
           ))
         )}
         
-        {isLoading && (
+        {isLoading && streamingContent && (
+          <div className="flex w-full justify-start">
+            <div className="flex flex-col max-w-[85%]">
+              <div className="px-6 py-3.5 shadow-sm text-sm leading-relaxed bubble-ai text-gray-800 dark:text-gray-100 rounded-2xl rounded-tl-sm mr-auto">
+                <div className="prose prose-sm dark:prose-invert max-w-none whitespace-pre-wrap break-words">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                    {streamingContent}
+                  </ReactMarkdown>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {isLoading && !streamingContent && (
            <div className="flex justify-start w-full">
               <div className="flex items-center gap-3 bg-white/50 dark:bg-gray-800/50 px-4 py-3 rounded-2xl rounded-tl-sm shadow-sm border border-white/20">
                 <div className="relative h-6 w-6 animate-pulse">
@@ -877,12 +1493,64 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
 
       {/* 3. INPUT ALANI */}
       <div className="flex-none p-6 pt-2">
+        {pendingPayoutBatches.length > 0 && (
+          <div className="mb-2 flex items-center justify-between gap-2 px-4 py-2 rounded-full text-xs bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 border border-purple-200 dark:border-purple-800">
+            <span>📦 {pendingPayoutBatches.length} more payout batch(es) open after the current one is confirmed</span>
+            <button type="button" onClick={() => setPendingPayoutBatches([])} className="font-medium hover:underline">
+              Discard
+            </button>
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="relative">
-          <div className="relative flex items-center gap-2 bg-white dark:bg-gray-800 p-1.5 pl-4 rounded-full shadow-lg border border-gray-100 dark:border-gray-700 ring-1 ring-gray-900/5 focus-within:ring-2 focus-within:ring-blue-500/50 transition-all duration-300 hover:shadow-xl">
-            
+          {/* Payout lists (CSV/JSON) can be dropped on the composer, picked from a file or pasted */}
+          <div
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes('Files')) return;
+              e.preventDefault();
+              setIsPayoutDragOver(true);
+            }}
+            onDragLeave={() => setIsPayoutDragOver(false)}
+            onDrop={(e) => {
+              const file = e.dataTransfer.files[0];
+              if (!file) return;
+              e.preventDefault();
+              setIsPayoutDragOver(false);
+              handlePayoutFile(file);
+            }}
+            className={`relative flex items-center gap-2 bg-white dark:bg-gray-800 p-1.5 pl-4 rounded-full shadow-lg border border-gray-100 dark:border-gray-700 ring-1 ring-gray-900/5 focus-within:ring-2 focus-within:ring-blue-500/50 transition-all duration-300 hover:shadow-xl ${
+              isPayoutDragOver ? 'ring-2 ring-purple-500/60' : ''
+            }`}
+          >
+            <input
+              ref={payoutFileInputRef}
+              type="file"
+              accept=".csv,.json,.txt,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handlePayoutFile(file);
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => payoutFileInputRef.current?.click()}
+              disabled={isLoading}
+              className="text-gray-400 hover:text-purple-600 disabled:opacity-50 transition-colors"
+              title="Import a payout list (CSV or JSON: recipient, amount, coin type)"
+            >
+              <FileUp className="h-5 w-5" />
+            </button>
+
             <Input
               value={input}
               onChange={(e) => setInput(e.target.value)}
+              onPaste={(e) => {
+                const text = e.clipboardData.getData('text');
+                if (!looksLikePayoutList(text)) return;
+                e.preventDefault();
+                handlePayoutImport(text, 'pasted list');
+              }}
               placeholder={isLoading ? "VAQI is thinking..." : "Ask VAQI anything..."}
               disabled={isLoading}
               className="flex-1 border-none shadow-none bg-transparent focus-visible:ring-0 px-2 py-3 text-base placeholder:text-gray-400"
@@ -1000,6 +1668,15 @@ export function ChatInterface({ onTransactionGenerated, onRecipientResolved, onT
           </div>
         </div>
       )}
+
+      {/* Spending Policy Modal */}
+      {isPolicyOpen && (
+        <SpendingPolicySettings
+          policy={spendingPolicy}
+          onSave={handleSavePolicy}
+          onClose={() => setIsPolicyOpen(false)}
+        />
+      )}
     </div>
   );
 }
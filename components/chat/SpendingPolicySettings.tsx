@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getAmountError } from '@/lib/transactions/amount';
+import type { SpendingPolicy } from '@/types';
+
+interface SpendingPolicySettingsProps {
+  policy: SpendingPolicy;
+  onSave: (policy: SpendingPolicy) => void;
+  onClose: () => void;
+}
+
+// Empty input disables the rule
+const toOptionalAmount = (value: string) => (value.trim() ? value.trim() : null);
+
+export function SpendingPolicySettings({ policy, onSave, onClose }: SpendingPolicySettingsProps) {
+  const [maxPerTransaction, setMaxPerTransaction] = useState(policy.maxPerTransactionSui || '');
+  const [dailyLimit, setDailyLimit] = useState(policy.dailyLimitSui || '');
+  const [contactsOnly, setContactsOnly] = useState(policy.contactsOnly);
+  const [blockedCoinTypes, setBlockedCoinTypes] = useState(policy.blockedCoinTypes.join('\n'));
+  const [largeTransfer, setLargeTransfer] = useState(policy.largeTransferSui || '');
+  const [cooldownMinutes, setCooldownMinutes] = useState(policy.cooldownMinutes ? String(policy.cooldownMinutes) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const amounts: [string, string][] = [
+      ['Per-transaction limit', maxPerTransaction],
+      ['Daily limit', dailyLimit],
+      ['Large transfer', largeTransfer],
+    ];
+    for (const [label, value] of amounts) {
+      const amountError = value.trim() ? getAmountError(value) : null;
+      if (amountError) {
+        setError(`${label}: ${amountError}`);
+        return;
+      }
+    }
+
+    const cooldown = cooldownMinutes.trim() ? Number(cooldownMinutes) : 0;
+    if (!Number.isInteger(cooldown) || cooldown < 0) {
+      setError('Cool-down must be a whole number of minutes.');
+      return;
+    }
+
+    onSave({
+      maxPerTransactionSui: toOptionalAmount(maxPerTransaction),
+      dailyLimitSui: toOptionalAmount(dailyLimit),
+      contactsOnly,
+      blockedCoinTypes: blockedCoinTypes
+        .split(/[\n,]/)
+        .map((coinType) => coinType.trim())
+        .filter(Boolean),
+      largeTransferSui: toOptionalAmount(largeTransfer),
+      cooldownMinutes: cooldown,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-white/20 animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100 dark:border-gray-800">
+          <h3 className="text-lg font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-cyan-500">Spending Policy</h3>
+          <Button variant="ghost" size="sm" onClick={onClose} className="rounded-full w-8 h-8 p-0 hover:bg-gray-100">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="p-5 space-y-4 max-h-[60vh] overflow-y-auto">
+          <p className="text-xs text-gray-500">
+            Rules are checked before any transaction is prepared. Leave a field empty to turn the rule off.
+          </p>
+
+          <div className="bg-gray-50 dark:bg-gray-800/50 p-4 rounded-xl space-y-3 border border-gray-100 dark:border-gray-700">
+            <h4 className="font-semibold text-xs uppercase tracking-wider text-gray-500">Limits (SUI)</h4>
+            <Input
+              placeholder="Per-transaction limit (e.g., 10)"
+              value={maxPerTransaction}
+              onChange={(e) => setMaxPerTransaction(e.target.value)}
+              className="bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700"
+            />
+            <Input
+              placeholder="Daily limit (e.g., 50)"
+              value={dailyLimit}
+              onChange={(e) => setDailyLimit(e.target.value)}
+              className="bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700"
+            />
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-800/50 p-4 rounded-xl space-y-3 border border-gray-100 dark:border-gray-700">
+            <h4 className="font-semibold text-xs uppercase tracking-wider text-gray-500">Cool-down After Large Transfers</h4>
+            <Input
+              placeholder="Large transfer from (SUI, e.g., 100)"
+              value={largeTransfer}
+              onChange={(e) => setLargeTransfer(e.target.value)}
+              className="bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700"
+            />
+            <Input
+              placeholder="Cool-down (minutes, e.g., 60)"
+              value={cooldownMinutes}
+              onChange={(e) => setCooldownMinutes(e.target.value)}
+              className="bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-700"
+            />
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-800/50 p-4 rounded-xl space-y-3 border border-gray-100 dark:border-gray-700">
+            <h4 className="font-semibold text-xs uppercase tracking-wider text-gray-500">Recipients & Coins</h4>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={contactsOnly}
+                onChange={(e) => setContactsOnly(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              Only send to saved contacts
+            </label>
+            <textarea
+              placeholder={'Blocked coins, one per line (e.g., USDT or 0x...::coin::COIN)'}
+              value={blockedCoinTypes}
+              onChange={(e) => setBlockedCoinTypes(e.target.value)}
+              rows={3}
+              className="w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-3 py-2 text-xs font-mono"
+            />
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <Button onClick={handleSave} className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg" size="sm">
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Save Policy
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
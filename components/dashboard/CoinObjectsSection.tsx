@@ -0,0 +1,72 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Loader2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCoinObjects } from '@/hooks/useCoinObjects';
+import { getMergeableGroups } from '@/lib/coins';
+import { formatAmount } from '@/lib/transactions/amount';
+
+interface CoinObjectsSectionProps {
+  // Opens a MERGE_COINS ticket for one coin type, or for every fragmented type when null
+  onMerge: (coinType: string | null) => void;
+}
+
+export function CoinObjectsSection({ onMerge }: CoinObjectsSectionProps) {
+  const { groups, isLoading, error } = useCoinObjects();
+  const mergeable = useMemo(() => getMergeableGroups(groups), [groups]);
+  const objectCount = groups.reduce((sum, group) => sum + group.objectCount, 0);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+        Coin Objects{objectCount > 0 && <span className="ml-2 text-gray-900 dark:text-gray-100">{objectCount}</span>}
+      </p>
+
+      <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto max-h-48 space-y-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 text-center">Could not load coin objects</p>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No coins</p>
+        ) : (
+          groups.map((group) => (
+            <div key={group.coinType} className="flex items-center gap-3 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-700/50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate" title={group.coinType}>
+                  {group.symbol}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {group.objectCount} {group.objectCount === 1 ? 'object' : 'objects'}
+                  {group.emptyCount > 0 && <span className="text-amber-600 dark:text-amber-400"> · {group.emptyCount} empty</span>}
+                  {' · '}
+                  {formatAmount(group.totalBalance, group.decimals ?? 0)}
+                </p>
+              </div>
+              {group.objectCount > 1 && (
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => onMerge(group.coinType)}>
+                  Merge
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {mergeable.length === 0
+            ? 'Every coin is a single object'
+            : `${mergeable.length} ${mergeable.length === 1 ? 'coin is' : 'coins are'} split across several objects`}
+        </span>
+        <Button variant="outline" size="sm" className="h-7 text-xs" disabled={mergeable.length === 0} onClick={() => onMerge(null)}>
+          <Sparkles className="mr-1 h-3 w-3" />
+          Tidy up
+        </Button>
+      </div>
+    </div>
+  );
+}
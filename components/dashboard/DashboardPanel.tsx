@@ -1,12 +1,79 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useSuiClientQuery, useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from '@mysten/dapp-kit';
-import { Transaction } from '@mysten/sui/transactions';
+import { useState, useEffect, useMemo } from 'react';
+import { useSuiClientQuery, useCurrentAccount, useSignAndExecuteTransaction, useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Copy, CheckCircle2, ExternalLink, Wallet, Send, Loader2, Coins } from 'lucide-react';
+import { Copy, CheckCircle2, ExternalLink, Wallet, Send, Loader2, Coins, Layers, Landmark, Unlock, PiggyBank, Image as ImageIcon, Combine, Scissors } from 'lucide-react';
 import type { TransactionResponse } from '@/lib/schemas/transaction';
+import {
+  formatMist,
+  needsSpendableBalance,
+  planSteps,
+  planStepsSpendAll,
+  type PlannedStep,
+} from '@/lib/transactions/compiler';
+import type { SuiSpendPlan } from '@/lib/transactions/gas';
+import {
+  getStakeAmountMist,
+  MIN_STAKE_MIST,
+  planStakeAll,
+  selectStakePositions,
+  selectValidator,
+  toStakePositions,
+  toValidatorOptions,
+} from '@/lib/transactions/staking';
+import {
+  fromBaseUnits,
+  getSlippage,
+  getSwapRouter,
+  quoteSwap,
+  resolveToken,
+  toSwapRequest,
+  type SwapQuote,
+  type SwapToken,
+} from '@/lib/swap';
+import {
+  assertLendingSupported,
+  getLendingAdapter,
+  isDryRun,
+  isLendingIntent,
+  LENDING_ACTIONS,
+  type LendingMarket,
+  type LendingPosition,
+} from '@/lib/lending';
+import { getBatchFunding, getTransferableBalance, resolveTransferCoin } from '@/lib/transactions/transfer';
+import { describeBatchRule, getBatchRows, getBatchTotal, planBatchTransfer, type BatchAllocation } from '@/lib/transactions/batch';
+import { buildIntent, getActionTitle, type ExecutorContext } from '@/lib/transactions/executor';
+import { isSuiCoinType } from '@/lib/transactions/coins';
+import { amountToNumber, formatAmount, parsePositiveAmount } from '@/lib/transactions/amount';
+import {
+  assertSimulationSucceeds,
+  simulateTransaction,
+  type TransactionSimulation,
+} from '@/lib/transactions/simulation';
+import { getIntentRecipients } from '@/lib/transactions/policy';
+import { assessRecipient, needsExtraConfirmation } from '@/lib/transactions/risk';
+import { isSuiNsName, resolveSuiNsRecipients } from '@/lib/transactions/suins';
+import { getEqualSplit, MAX_MERGE_COINS } from '@/lib/transactions/tidy';
+import { findCoinGroup, getMergeableGroups, type CoinObjectGroup } from '@/lib/coins';
+import { TransactionPreview } from '@/components/transaction/TransactionPreview';
+import { SimulationPreview } from '@/components/transaction/SimulationPreview';
+import { RecipientRiskWarnings } from '@/components/transaction/RecipientRiskWarnings';
+import { PortfolioSection } from '@/components/dashboard/PortfolioSection';
+import { NftGallery } from '@/components/dashboard/NftGallery';
+import { CoinObjectsSection } from '@/components/dashboard/CoinObjectsSection';
+import { ScheduledPaymentsSection } from '@/components/dashboard/ScheduledPaymentsSection';
+import { useOwnedNfts } from '@/hooks/useOwnedNfts';
+import { useCoinObjects } from '@/hooks/useCoinObjects';
+import { useTransactionHistory } from '@/hooks/useTransactionHistory';
+import { useSuiNsNames } from '@/hooks/useSuiNsNames';
+import { describeActivity, mergeActivityLogs } from '@/lib/history';
+import { findNft, type OwnedNft } from '@/lib/nft';
+import { getExplorerTxUrl } from '@/lib/network';
+import type { ActivityLogEntry, ScheduledJob } from '@/types';
 import toast from 'react-hot-toast';
 
 interface Contact {
@@ -19,18 +86,34 @@ interface DashboardPanelProps {
   onClearIntent?: () => void;
   transactionDigest?: string | null;
   onTransactionSuccess?: (digest: string) => void;
+  onActivityLogged?: (activity: ActivityLogEntry) => void;
+  // Activity history from Walrus memory - recipients never sent to before are flagged
+  activityLogs?: ActivityLogEntry[];
+  // Opens a ticket started from the dashboard itself (coin tidy-up)
+  onTransactionGenerated?: (intent: TransactionResponse) => void;
+  // Scheduled payments of the selected network from Walrus memory
+  scheduledJobs?: ScheduledJob[];
 }
 
 type PanelState = 'IDLE' | 'PREVIEW' | 'SUCCESS';
 
-export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTransactionSuccess }: DashboardPanelProps) {
+export function DashboardPanel({
+  intent,
+  onClearIntent,
+  transactionDigest,
+  onTransactionSuccess,
+  onActivityLogged,
+  activityLogs = [],
+  onTransactionGenerated,
+  scheduledJobs = [],
+}: DashboardPanelProps) {
   const [panelState, setPanelState] = useState<PanelState>('IDLE');
   const [copied, setCopied] = useState(false);
   const [contacts, setContacts] = useState<Contact[]>([]);
-  const [recentActivity, setRecentActivity] = useState<Array<{ id: string; type: string; description: string; timestamp: Date; digest?: string }>>([]);
   const [optimisticBalanceAdjustment, setOptimisticBalanceAdjustment] = useState<number>(0);
   const account = useCurrentAccount();
   const client = useSuiClient();
+  const queryClient = useQueryClient();
   const { mutate: signAndExecuteTransaction, isPending: isTransactionPending } = useSignAndExecuteTransaction();
 
   // Fetch balance using useSuiClientQuery
@@ -42,6 +125,185 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
     }
   );
 
+  // Validators and stakes are only fetched while a STAKE / UNSTAKE ticket is open
+  const isStakeIntent = intent?.type === 'TRANSACTION' && intent.data.action_type === 'STAKE';
+  const isUnstakeIntent = intent?.type === 'TRANSACTION' && intent.data.action_type === 'UNSTAKE';
+  const isNftTransferIntent = intent?.type === 'TRANSACTION' && intent.data.action_type === 'NFT_TRANSFER';
+  const { nfts: ownedNfts, isLoading: nftsLoading, error: nftsError } = useOwnedNfts();
+  const isMergeCoinsIntent = intent?.type === 'TRANSACTION' && intent.data.action_type === 'MERGE_COINS';
+  const { groups: coinGroups, isLoading: coinGroupsLoading, error: coinGroupsError } = useCoinObjects();
+  const [selectedValidator, setSelectedValidator] = useState<string | null>(null);
+  const { data: systemState, isLoading: validatorsLoading } = useSuiClientQuery('getLatestSuiSystemState', undefined, {
+    enabled: isStakeIntent || isUnstakeIntent,
+  });
+  const { data: validatorsApy } = useSuiClientQuery('getValidatorsApy', undefined, {
+    enabled: isStakeIntent,
+  });
+  const { data: delegatedStakes, isLoading: stakesLoading } = useSuiClientQuery(
+    'getStakes',
+    { owner: account?.address || '' },
+    {
+      enabled: isUnstakeIntent && !!account?.address,
+    }
+  );
+  const validatorOptions = useMemo(
+    () => toValidatorOptions(systemState?.activeValidators || [], validatorsApy),
+    [systemState, validatorsApy]
+  );
+  const stakePositions = useMemo(
+    () => toStakePositions(delegatedStakes || [], validatorOptions),
+    [delegatedStakes, validatorOptions]
+  );
+
+  // Reset the manual validator choice when a new intent arrives
+  useEffect(() => {
+    setSelectedValidator(null);
+  }, [intent]);
+
+  const { network } = useSuiClientContext();
+
+  // Pending balance adjustments belong to the previous network
+  useEffect(() => {
+    setOptimisticBalanceAdjustment(0);
+  }, [network]);
+
+  // Walrus log and on-chain history (including transfers received and transactions made outside the app)
+  const transactionHistory = useTransactionHistory();
+  const recentActivity = useMemo(
+    () => mergeActivityLogs(activityLogs, transactionHistory.entries),
+    [activityLogs, transactionHistory.entries]
+  );
+  // SuiNS names of the addresses in the activity list (recipients and senders of received transfers)
+  const activityAddresses = useMemo(
+    () =>
+      recentActivity.flatMap((activity) => [
+        ...(activity.recipient ? [activity.recipient] : []),
+        ...(activity.recipients || []),
+        ...(activity.sender ? [activity.sender] : []),
+      ]),
+    [recentActivity]
+  );
+  const activityNames = useSuiNsNames(activityAddresses);
+
+  // Coin of a TRANSFER / BATCH_TRANSFER / SPLIT_COINS intent (and of a MERGE_COINS intent naming one) - unknown or
+  // ambiguous tokens block the confirm button
+  const [transferCoin, setTransferCoin] = useState<SwapToken | null>(null);
+  const [transferCoinError, setTransferCoinError] = useState<string | null>(null);
+  // Sendable balance of that coin (SUI after the exact fee) - loaded for "send all" and for batch percentages
+  const [transferableBalance, setTransferableBalance] = useState<bigint | null>(null);
+
+  useEffect(() => {
+    setTransferCoin(null);
+    setTransferCoinError(null);
+    setTransferableBalance(null);
+    const usesCoin =
+      intent?.type === 'TRANSACTION' &&
+      (['TRANSFER', 'BATCH_TRANSFER', 'SPLIT_COINS'].includes(intent.data.action_type) ||
+        (intent.data.action_type === 'MERGE_COINS' && !!intent.data.params.token));
+    if (!intent || !usesCoin || !account?.address) {
+      return;
+    }
+
+    let cancelled = false;
+    const owner = account.address;
+    const params = intent.data.params;
+    const isBatch = intent.data.action_type === 'BATCH_TRANSFER';
+    resolveTransferCoin(client, owner, params.token)
+      .then(async (coin) => {
+        // Batches use the same balance as the executor, so the ticket shows the amounts that will be signed
+        const balance = isBatch
+          ? (await getBatchFunding(client, owner, coin, params)).transferable
+          : params.isMax === true
+            ? await getTransferableBalance(client, owner, coin)
+            : null;
+        if (cancelled) return;
+        setTransferCoin(coin);
+        setTransferableBalance(balance);
+      })
+      .catch((error) => {
+        console.error('Transfer Coin Error:', error);
+        if (!cancelled) setTransferCoinError(error instanceof Error ? error.message : 'Unknown token');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [intent, account?.address, client]);
+
+  // Lending markets (APYs) and positions - loaded whenever a DEFI_* intent arrives
+  const [lendingMarkets, setLendingMarkets] = useState<LendingMarket[]>([]);
+  const [lendingPositions, setLendingPositions] = useState<LendingPosition[]>([]);
+  const [isLoadingLending, setIsLoadingLending] = useState(false);
+
+  useEffect(() => {
+    setLendingMarkets([]);
+    setLendingPositions([]);
+    if (!intent || intent.type !== 'TRANSACTION' || !isLendingIntent(intent.data.action_type) || !account?.address) return;
+
+    let cancelled = false;
+    const owner = account.address;
+    setIsLoadingLending(true);
+    (async () => {
+      try {
+        const adapter = getLendingAdapter(intent.data.params.protocol, isDryRun(intent.data.params.dry_run));
+        if (!adapter.networks.includes(network)) return;
+        const [markets, positions] = await Promise.all([
+          adapter.getMarkets().catch((error) => {
+            console.warn('⚠️ Could not load lending markets:', error);
+            return [];
+          }),
+          adapter.getPositions({ client, sender: owner }).catch((error) => {
+            console.warn('⚠️ Could not load lending positions:', error);
+            return [];
+          }),
+        ]);
+        if (!cancelled) {
+          setLendingMarkets(markets);
+          setLendingPositions(positions);
+        }
+      } catch (error) {
+        console.error('Lending Data Error:', error);
+      } finally {
+        if (!cancelled) setIsLoadingLending(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [intent, network, account?.address, client]);
+
+  // Swap quote - requested whenever a SWAP intent arrives
+  const swapRouter = getSwapRouter(network);
+  const [swapQuote, setSwapQuote] = useState<SwapQuote | null>(null);
+  const [swapQuoteError, setSwapQuoteError] = useState<string | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+
+  useEffect(() => {
+    setSwapQuote(null);
+    setSwapQuoteError(null);
+    if (!intent || intent.type !== 'TRANSACTION' || intent.data.action_type !== 'SWAP') return;
+
+    let cancelled = false;
+    setIsQuoting(true);
+    (async () => {
+      try {
+        getSlippage(intent.data.params.slippage);
+        const quote = await quoteSwap(swapRouter, toSwapRequest(intent.data.params));
+        if (!cancelled) setSwapQuote(quote);
+      } catch (error) {
+        console.error('Swap Quote Error:', error);
+        if (!cancelled) setSwapQuoteError(error instanceof Error ? error.message : 'Could not get a swap quote');
+      } finally {
+        if (!cancelled) setIsQuoting(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [intent, swapRouter]);
+
   // Get wallet-specific storage key
   const getStorageKey = (): string | null => {
     if (!account?.address) return null;
@@ -80,24 +342,6 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
     if (transactionDigest) {
       setPanelState('SUCCESS');
       
-      // Add DEFI_SUPPLY transactions to recent activity
-      if (intent && intent.type === 'TRANSACTION' && intent.data.action_type === 'DEFI_SUPPLY') {
-        const amount = intent.data.params.amount || '0';
-        const activityEntry = {
-          id: Date.now().toString(),
-          type: 'DEFI_SUPPLY',
-          description: `Supplied ${amount} SUI to Scallop Protocol (Simulated)`,
-          timestamp: new Date(),
-          digest: transactionDigest,
-        };
-        setRecentActivity((prev) => [activityEntry, ...prev].slice(0, 10));
-        
-        // Update balance optimistically
-        setOptimisticBalanceAdjustment((prev) => prev - parseFloat(amount));
-        setTimeout(() => {
-          setOptimisticBalanceAdjustment(0);
-        }, 5000);
-      }
     } else if (intent && intent.type === 'TRANSACTION') {
       setPanelState('PREVIEW');
     } else {
@@ -133,13 +377,58 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
     }
   };
 
+  // SuiNS lookups for the ticket's recipients: .sui name → address, address → name
+  const [nameService, setNameService] = useState<{ addresses: Record<string, string>; names: Record<string, string> }>({
+    addresses: {},
+    names: {},
+  });
+  const [isResolvingNames, setIsResolvingNames] = useState(false);
+
+  useEffect(() => {
+    setNameService({ addresses: {}, names: {} });
+    if (!intent || intent.type !== 'TRANSACTION') {
+      setIsResolvingNames(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsResolvingNames(true);
+    resolveSuiNsRecipients(client, getIntentRecipients(intent.data))
+      .then((result) => {
+        if (!cancelled) setNameService(result);
+      })
+      .catch((error) => {
+        console.error('SuiNS Resolution Error:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsResolvingNames(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [intent, client]);
+
+  // Contact or SuiNS name of an activity address, or its short form
+  const getAddressLabel = (address: string): string => {
+    const normalized = normalizeSuiAddress(address);
+    const contact = contacts.find((c) => c.address.startsWith('0x') && normalizeSuiAddress(c.address) === normalized);
+    return contact?.name || activityNames[normalized] || `${address.slice(0, 6)}...${address.slice(-4)}`;
+  };
+
   // Format recipient for display
+  // Contact names win over SuiNS names; an unregistered .sui name keeps the name as its address
   const formatRecipient = (recipient: string): { name: string | null; address: string } => {
     if (!recipient) return { name: null, address: '' };
     
     if (recipient.startsWith('0x')) {
       const contact = contacts.find(c => c.address.toLowerCase() === recipient.toLowerCase());
-      return { name: contact?.name || null, address: recipient };
+      return { name: contact?.name || nameService.names[normalizeSuiAddress(recipient)] || null, address: recipient };
+    }
+
+    if (isSuiNsName(recipient)) {
+      const name = recipient.trim().toLowerCase();
+      return { name, address: nameService.addresses[name] || recipient };
     }
     
     const contact = contacts.find(c => c.name.toLowerCase() === recipient.toLowerCase());
@@ -147,6 +436,20 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
   };
 
   // Handle cancel
+  // Tidy-up tool: a merge ticket for one coin type, or for every coin type held as several objects
+  const handleCoinMerge = (coinType: string | null) => {
+    if (!onTransactionGenerated) return;
+    const group = coinType ? findCoinGroup(coinGroups, coinType) : null;
+    onTransactionGenerated({
+      type: 'TRANSACTION',
+      data: {
+        summary: group ? `Merge your ${group.symbol} coin objects into one coin.` : 'Merge the coin objects of every coin type.',
+        action_type: 'MERGE_COINS',
+        params: { token: group ? (isSuiCoinType(group.coinType) ? 'SUI' : group.coinType) : null },
+      },
+    });
+  };
+
   const handleCancel = () => {
     if (onClearIntent) {
       onClearIntent();
@@ -162,6 +465,150 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
     setPanelState('IDLE');
   };
 
+  // Context for the intent executor (unknown contact names resolve to null)
+  const getExecutorContext = (): ExecutorContext | null => {
+    if (!account) return null;
+    return {
+      client,
+      sender: account.address,
+      network,
+      spendableMist: suiSpendPlan?.spendable,
+      suiSpendPlan: suiSpendPlan ?? undefined,
+      resolveRecipient: (recipient: string) => {
+        const resolved = formatRecipient(recipient);
+        return resolved.address.startsWith('0x') ? resolved : null;
+      },
+      validators: validatorOptions,
+      selectedValidator,
+      stakePositions,
+      swap: swapQuote ? { router: swapRouter, quote: swapQuote } : undefined,
+      // The executor loads the NFTs and coin objects itself when the dashboard queries failed
+      nfts: nftsError ? undefined : ownedNfts,
+      coinObjects: coinGroupsError ? undefined : coinGroups,
+    };
+  };
+
+  // Staking everything and multi-step "the rest" spend all SUI but the dry-run gas budget - planned once per ticket
+  const [suiSpendPlan, setSuiSpendPlan] = useState<SuiSpendPlan | null>(null);
+  const [suiSpendPlanError, setSuiSpendPlanError] = useState<string | null>(null);
+  const stakeAllValidator =
+    intent?.type === 'TRANSACTION' && intent.data.action_type === 'STAKE' && intent.data.params.isMax === true
+      ? selectValidator(validatorOptions, selectedValidator ?? intent.data.params.validator)?.address ?? null
+      : null;
+  const needsSpendPlan =
+    stakeAllValidator !== null ||
+    (intent?.type === 'TRANSACTION' &&
+      intent.data.action_type === 'MULTI_STEP' &&
+      needsSpendableBalance(intent.data.params.steps || []));
+
+  useEffect(() => {
+    setSuiSpendPlan(null);
+    setSuiSpendPlanError(null);
+    const executorContext = getExecutorContext();
+    if (!intent || intent.type !== 'TRANSACTION' || !needsSpendPlan || !executorContext || isResolvingNames) {
+      return;
+    }
+
+    let cancelled = false;
+    const plan = stakeAllValidator
+      ? planStakeAll(client, executorContext.sender, stakeAllValidator)
+      : planStepsSpendAll(client, intent.data.params.steps || [], executorContext);
+    plan
+      .then((result) => {
+        if (!cancelled) setSuiSpendPlan(result);
+      })
+      .catch((error) => {
+        console.error('Gas Estimation Error:', error);
+        if (!cancelled) setSuiSpendPlanError(error instanceof Error ? error.message : 'Could not estimate the network fee');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [intent, account?.address, client, network, contacts, nameService, balanceData, stakeAllValidator, needsSpendPlan, isResolvingNames]);
+
+  // The ticket's transaction cannot be built before the data it depends on has loaded
+  const isSwapIntent = intent?.type === 'TRANSACTION' && intent.data.action_type === 'SWAP';
+  const isTicketDataLoading =
+    isResolvingNames ||
+    (isStakeIntent && validatorsLoading) ||
+    (needsSpendPlan && !suiSpendPlan) ||
+    (isUnstakeIntent && (stakesLoading || validatorsLoading)) ||
+    (isSwapIntent && !swapQuote) ||
+    (isNftTransferIntent && nftsLoading) ||
+    (isMergeCoinsIntent && coinGroupsLoading);
+
+  // Pre-sign simulation - rerun whenever the ticket's transaction would change
+  const [simulation, setSimulation] = useState<TransactionSimulation | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  useEffect(() => {
+    setSimulation(null);
+    setIsSimulating(false);
+    const executorContext = getExecutorContext();
+    if (!intent || intent.type !== 'TRANSACTION' || intent.data.action_type === 'NONE' || !executorContext || isTicketDataLoading) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsSimulating(true);
+    (async () => {
+      try {
+        const { transaction } = await buildIntent(intent.data, executorContext);
+        const result = await simulateTransaction(client, transaction, executorContext.sender);
+        if (!cancelled) setSimulation(result);
+      } catch (error) {
+        console.error('Simulation Error:', error);
+        if (!cancelled) {
+          setSimulation({
+            success: false,
+            error: error instanceof Error ? error.message : 'Could not build the transaction',
+            gasMist: BigInt(0),
+            balanceChanges: [],
+            objectChanges: [],
+          });
+        }
+      } finally {
+        if (!cancelled) setIsSimulating(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    intent,
+    account?.address,
+    client,
+    network,
+    contacts,
+    nameService,
+    suiSpendPlan,
+    swapQuote,
+    selectedValidator,
+    validatorOptions,
+    stakePositions,
+    ownedNfts,
+    isTicketDataLoading,
+  ]);
+
+  // Recipient risk (lookalikes of contacts, malformed, own or never-used addresses) for the ticket's recipients
+  const recipientRisks =
+    intent?.type === 'TRANSACTION' && account
+      ? getIntentRecipients(intent.data)
+          .map((recipient) => formatRecipient(recipient).address)
+          .filter((address) => address.startsWith('0x'))
+          .map((address) => assessRecipient(address, { sender: account.address, contacts, activityLogs: recentActivity }))
+      : [];
+  const [riskAcknowledged, setRiskAcknowledged] = useState(false);
+
+  useEffect(() => {
+    setRiskAcknowledged(false);
+  }, [intent]);
+
+  // The confirm button stays disabled until the simulation has passed (and high-risk recipients are acknowledged)
+  const isSignBlocked = isSimulating || !simulation?.success || (needsExtraConfirmation(recipientRisks) && !riskAcknowledged);
+
   // IDLE State - Wallet Dashboard
   if (panelState === 'IDLE') {
     return (
@@ -213,52 +660,86 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
                 </div>
               </div>
 
-              {/* Recent Activity */}
+              {/* All Coin Balances */}
+              <PortfolioSection />
+
+              {/* Coin Objects per Type (merge / tidy up) */}
+              <CoinObjectsSection onMerge={handleCoinMerge} />
+
+              {/* NFTs and Other Objects (including kiosk items) */}
+              <NftGallery />
+
+              {/* Upcoming Scheduled Payments (Walrus memory) */}
+              <ScheduledPaymentsSection jobs={scheduledJobs} />
+
+              {/* Recent Activity (Walrus log + on-chain history) */}
               <div className="space-y-2 flex-1">
                 <p className="text-sm font-medium text-gray-600 dark:text-gray-400">Recent Activity</p>
                 <div className="flex-1 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto max-h-48">
-                  {recentActivity.length === 0 ? (
-                    <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No recent transactions</p>
+                  {transactionHistory.isLoading && recentActivity.length === 0 ? (
+                    <div className="flex items-center justify-center py-2">
+                      <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+                    </div>
+                  ) : recentActivity.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                      {transactionHistory.error ? 'Could not load transaction history' : 'No recent transactions'}
+                    </p>
                   ) : (
                     <div className="space-y-2">
-                      {recentActivity.map((activity) => (
+                      {recentActivity.map((activity, index) => (
                         <div
-                          key={activity.id}
+                          key={activity.digest || `${activity.timestamp}-${index}`}
                           className="p-2 bg-gray-50 dark:bg-gray-700/50 rounded border border-gray-200 dark:border-gray-600"
                         >
                           <div className="flex items-start justify-between">
                             <div className="flex-1 flex items-start gap-2">
-                              {activity.type === 'DEFI_SUPPLY' && (
+                              {isLendingIntent(activity.type) && (
                                 <Coins className="h-4 w-4 text-purple-600 dark:text-purple-400 mt-0.5 flex-shrink-0" />
                               )}
                               <div className="flex-1">
-                                <p className="text-xs font-medium text-gray-900 dark:text-gray-100">
-                                  {activity.description}
+                                <p
+                                  className={`text-xs font-medium ${
+                                    activity.direction === 'in' ? 'text-green-700 dark:text-green-400' : 'text-gray-900 dark:text-gray-100'
+                                  }`}
+                                >
+                                  {describeActivity(activity, getAddressLabel)}
+                                  {activity.status === 'failed' && <span className="ml-1 text-red-600">(failed)</span>}
                                 </p>
                                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                                  {activity.timestamp.toLocaleTimeString('en-US', {
+                                  {new Date(activity.timestamp).toLocaleString('en-US', {
+                                    month: 'short',
+                                    day: 'numeric',
                                     hour: '2-digit',
                                     minute: '2-digit',
                                   })}
                                 </p>
                               </div>
                             </div>
-                            {activity.digest && (
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => {
-                                  const url = `https://suiscan.xyz/testnet/tx/${activity.digest}`;
-                                  window.open(url, '_blank');
-                                }}
-                                className="h-6 w-6 p-0"
-                              >
-                                <ExternalLink className="h-3 w-3" />
-                              </Button>
-                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                const url = getExplorerTxUrl(network, activity.digest);
+                                window.open(url, '_blank');
+                              }}
+                              className="h-6 w-6 p-0"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                            </Button>
                           </div>
                         </div>
                       ))}
+                      {transactionHistory.hasMore && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => transactionHistory.loadMore()}
+                          disabled={transactionHistory.isLoadingMore}
+                          className="w-full text-xs"
+                        >
+                          {transactionHistory.isLoadingMore ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Load more'}
+                        </Button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -278,58 +759,29 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
   }
 
 
-  // Handle Transfer Transaction
-  const handleTransferTransaction = async () => {
-    if (!intent || !account) {
-      console.error('Transfer Transaction Error: Missing intent or account');
-      toast.error('Please connect your wallet to execute the transfer.');
+  // Confirm the open ticket: build through the intent executor, simulate, then request the wallet signature
+  const handleConfirmTransaction = async () => {
+    const executorContext = getExecutorContext();
+    if (!intent || !executorContext) {
+      console.error('Transaction Error: Missing intent or account');
+      toast.error('Please connect your wallet to continue.');
       return;
     }
 
-    const recipient = intent.data.params.recipient || (intent.data.params as any).to_address || '';
-    const amount = intent.data.params.amount || '0';
-
-    // Validate recipient and amount
-    if (!recipient) {
-      console.error('Transfer Transaction Error: Missing recipient address');
-      toast.error('Missing recipient address. Please provide a valid address or contact name.');
-      return;
-    }
-    if (!amount || parseFloat(amount) <= 0) {
-      console.error('Transfer Transaction Error: Invalid transfer amount', amount);
-      toast.error('Invalid transfer amount. Please enter a valid amount.');
-      return;
-    }
-
-    const { name, address } = formatRecipient(recipient);
-    if (!address) {
-      console.error('Transfer Transaction Error: Recipient address could not be resolved', recipient);
-      toast.error(`Contact '${recipient}' not found. Please add them to your address book first.`);
-      return;
-    }
+    const title = getActionTitle(intent.data.action_type);
 
-    // Show loading toast while waiting for wallet approval
-    const loadingToast = toast.loading('Waiting for wallet approval...');
+    // Show loading toast
+    const loadingToast = toast.loading(`Preparing ${title.toLowerCase()}...`);
 
     try {
-      console.log('🔄 Building transfer transaction...', { to: address, amount });
+      console.log(`🔄 Building ${title} transaction...`, intent.data.params);
 
-      // Convert SUI amount to MIST (1 SUI = 1,000,000,000 MIST)
-      const amountInMist = BigInt(Math.floor(parseFloat(amount) * 1_000_000_000));
-      console.log('💰 Amount in MIST:', amountInMist.toString());
+      const { transaction: tx, preview } = await buildIntent(intent.data, executorContext);
 
-      // Create a new transaction
-      const tx = new Transaction();
+      await assertSimulationSucceeds(client, tx, executorContext.sender);
 
-      // Split coins from gas to create the amount to transfer
-      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(amountInMist)]);
+      console.log(`📝 ${title} transaction built successfully, requesting wallet approval...`, preview.summary);
 
-      // Transfer the coin to the recipient
-      tx.transferObjects([coin], address);
-
-      console.log('📝 Transaction built successfully, requesting wallet approval...');
-
-      // Execute the transaction
       signAndExecuteTransaction(
         {
           transaction: tx as any,
@@ -339,27 +791,28 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
             toast.dismiss(loadingToast);
 
             const digest = result.digest;
-            const suiscanUrl = `https://suiscan.xyz/testnet/tx/${digest}`;
-
-            console.log('✅ Transfer Transaction Submitted! Digest:', digest);
-            console.log(`📊 SuiScan Testnet Explorer: ${suiscanUrl}`);
+            console.log(`✅ ${title} Transaction Submitted! Digest:`, digest);
+            console.log(`📊 SuiScan Explorer (${network}): ${getExplorerTxUrl(network, digest)}`);
 
             // OPTIMISTIC UI UPDATES (IMMEDIATE - Synchronous)
-            const activityEntry = {
-              id: Date.now().toString(),
-              type: 'TRANSFER',
-              description: `Sent ${amount} SUI to ${name || formatAddress(address)}`,
-              timestamp: new Date(),
-              digest: digest,
-            };
-            setRecentActivity((prev) => [activityEntry, ...prev].slice(0, 10));
+            if (preview.suiDeltaMist !== BigInt(0)) {
+              setOptimisticBalanceAdjustment((prev) => prev + amountToNumber(formatMist(preview.suiDeltaMist)));
+              setTimeout(() => {
+                setOptimisticBalanceAdjustment(0);
+              }, 5000);
+            }
 
-            setOptimisticBalanceAdjustment((prev) => prev - parseFloat(amount));
-            setTimeout(() => {
-              setOptimisticBalanceAdjustment(0);
-            }, 5000);
+            // Log activity to Walrus
+            if (onActivityLogged && preview.activity) {
+              onActivityLogged({
+                ...preview.activity,
+                digest,
+                timestamp: Date.now(),
+                status: 'success',
+              });
+            }
 
-            toast.success(`Transfer Successful! Transaction sent.`);
+            toast.success(`${title} Successful! ${preview.completedMessage}`);
 
             if (onClearIntent) {
               onClearIntent();
@@ -378,208 +831,45 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
                 showEvents: true,
               },
             }).then(() => {
-              console.log(`Transaction Confirmed on Chain: https://suiscan.xyz/testnet/tx/${digest}`);
+              console.log(`${title} Confirmed on Chain: ${getExplorerTxUrl(network, digest)}`);
+              // Balances and owned objects have changed
+              queryClient.invalidateQueries({ queryKey: ['portfolio'] });
+              queryClient.invalidateQueries({ queryKey: ['owned-nfts'] });
+              queryClient.invalidateQueries({ queryKey: ['coin-objects'] });
+              queryClient.invalidateQueries({ queryKey: ['tx-history'] });
             }).catch((waitError: unknown) => {
               console.error('Background finality check failed (non-critical):', waitError);
             });
           },
           onError: (error) => {
             toast.dismiss(loadingToast);
-            console.error('Transfer Transaction Error: Transaction execution failed', error);
+            console.error(`${title} Error: Transaction execution failed`, error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
             const isUserRejection = errorMessage.toLowerCase().includes('reject') ||
                                    errorMessage.toLowerCase().includes('cancel') ||
                                    errorMessage.toLowerCase().includes('denied') ||
                                    errorMessage.toLowerCase().includes('user');
 
-            if (isUserRejection) {
-              toast.error('User rejected the transaction');
-            } else {
-              toast.error(`Transaction Failed: ${errorMessage}`);
-            }
-          },
-        }
-      );
-    } catch (error) {
-      toast.dismiss(loadingToast);
-      console.error('Transfer Transaction Error: Failed to build transaction', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to build transaction';
-      toast.error(`Error: ${errorMessage}`);
-    }
-  };
-
-  // Handle Batch Transfer Transaction
-  const handleBatchTransferTransaction = async () => {
-    if (!intent || !account) {
-      console.error('Batch Transfer Error: Missing intent or account');
-      toast.error('Please connect your wallet to execute the batch transfer.');
-      return;
-    }
-
-    const recipients = intent.data.params.recipients || [];
-    const totalAmount = intent.data.params.amount;
-    const isMax = intent.data.params.isMax === true;
-
-    // Validate recipients
-    if (!recipients || recipients.length === 0) {
-      console.error('Batch Transfer Error: Missing recipients');
-      toast.error('Missing recipient addresses. Please provide at least one recipient.');
-      return;
-    }
-
-    // Resolve all recipients
-    const resolvedRecipients = recipients.map((recipient: string) => {
-      const { name, address } = formatRecipient(recipient);
-      return { name, address, original: recipient };
-    });
-
-    // Check if all recipients are valid
-    const invalidRecipients = resolvedRecipients.filter(r => !r.address);
-    if (invalidRecipients.length > 0) {
-      const invalidNames = invalidRecipients.map(r => r.original).join(', ');
-      toast.error(`Invalid recipients: ${invalidNames}. Please add them to your address book first.`);
-      return;
-    }
-
-    // Calculate amount per recipient
-    let amountPerRecipient: number;
-    let totalAmountToSend: number;
-
-    if (isMax) {
-      // Get current balance
-      const currentBalance = balanceData?.totalBalance 
-        ? Number(balanceData.totalBalance) / 1_000_000_000 
-        : 0;
-      
-      // Reserve 0.1 SUI for gas
-      const gasReserve = 0.1;
-      totalAmountToSend = Math.max(0, currentBalance - gasReserve);
-      amountPerRecipient = totalAmountToSend / recipients.length;
-    } else {
-      if (!totalAmount || parseFloat(totalAmount) <= 0) {
-        toast.error('Invalid total amount. Please provide a valid amount.');
-        return;
-      }
-      totalAmountToSend = parseFloat(totalAmount);
-      amountPerRecipient = totalAmountToSend / recipients.length;
-    }
-
-    if (amountPerRecipient <= 0) {
-      toast.error('Amount per recipient must be greater than 0.');
-      return;
-    }
-
-    // Show loading toast
-    const loadingToast = toast.loading('Preparing batch transfer...');
-
-    try {
-      console.log('🔄 Building batch transfer transaction...', {
-        recipients: resolvedRecipients.map(r => r.address),
-        amountPerRecipient,
-        totalAmountToSend,
-        isMax,
-      });
-
-      // Convert to MIST
-      const amountPerRecipientMist = BigInt(Math.floor(amountPerRecipient * 1_000_000_000));
-
-      // Create transaction
-      const tx = new Transaction();
-
-      // Split coins from gas - create one coin per recipient
-      // This is the PTB magic: split once, transfer multiple times in the same block!
-      // splitCoins returns an array of coin references
-      const coinAmounts = new Array(recipients.length).fill(amountPerRecipientMist);
-      const coins = tx.splitCoins(
-        tx.gas,
-        coinAmounts.map(amt => tx.pure.u64(amt))
-      );
-
-      // Transfer each coin to its recipient in the same transaction block
-      resolvedRecipients.forEach((recipient, index) => {
-        tx.transferObjects([coins[index]], recipient.address);
-      });
-
-      console.log('📝 Batch transfer transaction built successfully, requesting wallet approval...');
-
-      // Execute the transaction
-      signAndExecuteTransaction(
-        {
-          transaction: tx as any,
-        },
-        {
-          onSuccess: (result) => {
-            toast.dismiss(loadingToast);
-
-            const digest = result.digest;
-            const suiscanUrl = `https://suiscan.xyz/testnet/tx/${digest}`;
-
-            console.log('✅ Batch Transfer Transaction Submitted! Digest:', digest);
-            console.log(`📊 SuiScan Testnet Explorer: ${suiscanUrl}`);
-
-            // OPTIMISTIC UI UPDATES
-            const recipientList = resolvedRecipients
-              .map(r => r.name || formatAddress(r.address))
-              .join(', ');
-            
-            const activityEntry = {
-              id: Date.now().toString(),
-              type: 'BATCH_TRANSFER',
-              description: `Sent ${amountPerRecipient.toFixed(4)} SUI each to ${recipients.length} recipients (${recipientList})`,
-              timestamp: new Date(),
-              digest: digest,
-            };
-            setRecentActivity((prev) => [activityEntry, ...prev].slice(0, 10));
-
-            setOptimisticBalanceAdjustment((prev) => prev - totalAmountToSend);
-            setTimeout(() => {
-              setOptimisticBalanceAdjustment(0);
-            }, 5000);
-
-            toast.success(`Batch Transfer Successful! Sent ${amountPerRecipient.toFixed(4)} SUI to ${recipients.length} recipients.`);
-
-            if (onClearIntent) {
-              onClearIntent();
-            }
-            setPanelState('IDLE');
-
-            if (onTransactionSuccess) {
-              onTransactionSuccess(digest);
+            if (onActivityLogged && preview.activity && !isUserRejection) {
+              onActivityLogged({
+                ...preview.activity,
+                digest: '',
+                timestamp: Date.now(),
+                status: 'failed',
+              });
             }
 
-            // BACKGROUND FINALITY CHECK
-            client.waitForTransaction({
-              digest: digest,
-              options: {
-                showEffects: true,
-                showEvents: true,
-              },
-            }).then(() => {
-              console.log(`Batch Transfer Confirmed on Chain: https://suiscan.xyz/testnet/tx/${digest}`);
-            }).catch((waitError: unknown) => {
-              console.error('Background finality check failed (non-critical):', waitError);
-            });
-          },
-          onError: (error) => {
-            toast.dismiss(loadingToast);
-            console.error('Batch Transfer Error: Transaction execution failed', error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-            const isUserRejection = errorMessage.toLowerCase().includes('reject') ||
-                                   errorMessage.toLowerCase().includes('cancel') ||
-                                   errorMessage.toLowerCase().includes('denied') ||
-                                   errorMessage.toLowerCase().includes('user');
-
             if (isUserRejection) {
               toast.error('User rejected the transaction');
             } else {
-              toast.error(`Batch Transfer Failed: ${errorMessage}`);
+              toast.error(`${title} Failed: ${errorMessage}`);
             }
           },
         }
       );
     } catch (error) {
       toast.dismiss(loadingToast);
-      console.error('Batch Transfer Error: Failed to build transaction', error);
+      console.error(`${title} Error: Failed to build transaction`, error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to build transaction';
       toast.error(`Error: ${errorMessage}`);
     }
@@ -592,31 +882,33 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
     
     // Handle BATCH_TRANSFER
     if (actionType === 'BATCH_TRANSFER') {
-      const recipients = intent.data.params.recipients || [];
-      const totalAmount = intent.data.params.amount;
-      const isMax = intent.data.params.isMax === true;
+      const params = intent.data.params;
+      const isMax = params.isMax === true;
+      const symbol = transferCoin?.symbol || params.token || 'SUI';
+      const isSui = !transferCoin || isSuiCoinType(transferCoin.coinType);
 
       // Resolve all recipients for display
-      const resolvedRecipients = recipients.map((recipient: string) => {
-        const { name, address } = formatRecipient(recipient);
-        return { name, address, original: recipient };
+      const resolvedRecipients = getBatchRows(params).map((row) => {
+        const { name, address } = formatRecipient(row.recipient);
+        return { name, address, original: row.recipient };
       });
 
-      // Calculate amount per recipient
-      let amountPerRecipient: number;
-      let totalAmountToSend: number;
-
-      if (isMax) {
-        const currentBalance = balanceData?.totalBalance 
-          ? Number(balanceData.totalBalance) / 1_000_000_000 
-          : 0;
-        const gasReserve = 0.1;
-        totalAmountToSend = Math.max(0, currentBalance - gasReserve);
-        amountPerRecipient = recipients.length > 0 ? totalAmountToSend / recipients.length : 0;
-      } else {
-        totalAmountToSend = totalAmount ? parseFloat(totalAmount) : 0;
-        amountPerRecipient = recipients.length > 0 ? totalAmountToSend / recipients.length : 0;
+      // Amount of every row in base units, exactly as it will be split when signing
+      let allocations: BatchAllocation[] = [];
+      let amountError: string | null = null;
+      if (transferCoin) {
+        try {
+          allocations = planBatchTransfer(params, transferCoin, transferableBalance);
+        } catch (error) {
+          amountError = error instanceof Error ? error.message : 'Invalid amount.';
+        }
       }
+      const decimals = transferCoin?.decimals ?? 9;
+      const totalBaseUnits = getBatchTotal(allocations);
+      // Total the user asked for, checked against the sum of the rows
+      const requestedTotal =
+        allocations.length === 0 ? null : isMax ? transferableBalance : params.amount ? parsePositiveAmount(params.amount, decimals) : null;
+      const isEqualSplit = allocations.length > 0 && allocations.every((allocation) => allocation.amount === allocations[0].amount);
 
       return (
         <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-purple-200 dark:border-purple-800 shadow-lg">
@@ -632,50 +924,99 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
               <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Summary</p>
               <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
                 {isMax ? (
-                  <>Sending all available SUI (reserving 0.1 SUI for gas)</>
+                  isSui ? (
+                    <>Sending all SUI (only the network fee stays behind)</>
+                  ) : (
+                    <>Sending all available {symbol}</>
+                  )
+                ) : allocations.length > 0 ? (
+                  <>Sending {formatAmount(totalBaseUnits, decimals)} {symbol} total</>
                 ) : (
-                  <>Sending {totalAmountToSend.toFixed(4)} SUI total</>
+                  <>Sending {symbol} to {resolvedRecipients.length} recipients</>
                 )}
               </p>
-              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
-                {amountPerRecipient.toFixed(4)} SUI per recipient × {recipients.length} recipients
-              </p>
+              {isEqualSplit && (
+                <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                  {formatAmount(allocations[0].amount, decimals)} {symbol} per recipient × {allocations.length} recipients
+                </p>
+              )}
             </div>
 
-            {/* Recipients List */}
+            {/* Recipients Table */}
             <div className="space-y-2 flex-1">
               <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Recipients</p>
-              <div className="space-y-2 max-h-64 overflow-y-auto">
-                {resolvedRecipients.map((recipient, index) => (
-                  <div
-                    key={index}
-                    className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        {recipient.name ? (
-                          <>
-                            <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{recipient.name}</p>
-                            <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{formatAddress(recipient.address)}</p>
-                          </>
-                        ) : (
-                          <p className="text-sm font-mono text-gray-900 dark:text-gray-100">{formatAddress(recipient.address)}</p>
-                        )}
-                      </div>
-                      <p className="text-sm font-bold text-purple-600 dark:text-purple-400">
-                        {amountPerRecipient.toFixed(4)} SUI
-                      </p>
-                    </div>
-                  </div>
-                ))}
+              <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="p-2 text-left font-medium">Recipient</th>
+                      <th className="p-2 text-left font-medium">Rule</th>
+                      <th className="p-2 text-right font-medium">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {resolvedRecipients.map((recipient, index) => {
+                      const allocation = allocations[index];
+                      return (
+                        <tr key={index} className="border-b border-gray-100 dark:border-gray-700/50 last:border-0">
+                          <td className="p-2">
+                            {recipient.name ? (
+                              <>
+                                <p className="font-semibold text-gray-900 dark:text-gray-100">{recipient.name}</p>
+                                <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{formatAddress(recipient.address)}</p>
+                              </>
+                            ) : (
+                              <p className="font-mono text-gray-900 dark:text-gray-100">{formatAddress(recipient.address)}</p>
+                            )}
+                          </td>
+                          <td className="p-2 text-xs text-gray-500 dark:text-gray-400">
+                            {allocation ? describeBatchRule(allocation) || 'fixed' : '—'}
+                          </td>
+                          <td className="p-2 text-right font-bold text-purple-600 dark:text-purple-400 whitespace-nowrap">
+                            {allocation ? `${formatAmount(allocation.amount, decimals)} ${symbol}` : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  {allocations.length > 0 && (
+                    <tfoot>
+                      <tr className="border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+                        <td className="p-2 font-semibold text-gray-900 dark:text-gray-100" colSpan={2}>
+                          Total
+                          {requestedTotal !== null && requestedTotal === totalBaseUnits && (
+                            <span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-green-600 dark:text-green-400">
+                              <CheckCircle2 className="h-3 w-3" />
+                              matches the requested total
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-2 text-right font-bold text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                          {formatAmount(totalBaseUnits, decimals)} {symbol}
+                        </td>
+                      </tr>
+                    </tfoot>
+                  )}
+                </table>
               </div>
+              {(transferCoinError || amountError) && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-700 dark:text-red-300">{transferCoinError || amountError}</p>
+                </div>
+              )}
             </div>
 
+            {/* Recipient Check */}
+            <RecipientRiskWarnings risks={recipientRisks} acknowledged={riskAcknowledged} onAcknowledgedChange={setRiskAcknowledged} />
+
+            {/* Simulation */}
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+
             {/* Action Buttons */}
             <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
               <Button
-                onClick={handleBatchTransferTransaction}
-                disabled={isTransactionPending}
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || !transferCoin || !!transferCoinError || !!amountError || isSignBlocked}
                 className="w-full bg-purple-600 hover:bg-purple-700 text-white"
                 size="lg"
               >
@@ -706,67 +1047,974 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
       );
     }
     
-    // Only show preview for TRANSFER actions
-    if (actionType !== 'TRANSFER') {
-      // For SWAP, STAKE, or other actions, return to IDLE
-      return null;
-    }
+    // Handle STAKE
+    if (actionType === 'STAKE') {
+      const requestedValidator = selectedValidator ?? intent.data.params.validator;
+      const validator = selectValidator(validatorOptions, requestedValidator);
+      const isMax = intent.data.params.isMax === true;
 
-    const recipient = intent.data.params.recipient || (intent.data.params as any).to_address || '';
-    const { name, address } = formatRecipient(recipient);
-    const amount = intent.data.params.amount || '0';
-    const estimatedGas = '0.001'; // Placeholder for estimated gas
+      // Resolve the amount for display; an error is shown instead of the confirm button
+      let stakeAmount = '0.0000';
+      let stakeError: string | null = null;
+      try {
+        if (isMax && suiSpendPlanError) {
+          stakeError = suiSpendPlanError;
+        } else if (isMax && !suiSpendPlan) {
+          stakeAmount = '…';
+        } else {
+          const amountMist = getStakeAmountMist(intent.data.params.amount, isMax, suiSpendPlan?.spendable);
+          stakeAmount = formatMist(amountMist);
+          if (amountMist < MIN_STAKE_MIST) {
+            stakeError = 'The minimum stake is 1 SUI.';
+          }
+        }
+      } catch (error) {
+        stakeError = error instanceof Error ? error.message : 'Invalid amount';
+      }
+      if (!validatorsLoading && !validator) {
+        stakeError = `Validator "${requestedValidator}" not found. Please choose a validator from the list.`;
+      }
 
-    return (
-      <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-blue-200 dark:border-blue-800 shadow-lg">
-        <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20">
-          <CardTitle className="text-xl flex items-center gap-2">
-            <Send className="h-5 w-5 text-blue-600" />
-            Transaction Ticket
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="flex-1 flex flex-col p-6 space-y-4">
-          {/* Ticket-like design */}
-          <div className="space-y-4 flex-1">
-            {/* From */}
-            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">From</p>
-              <p className="text-sm font-mono text-gray-900 dark:text-gray-100">
-                {account ? formatAddress(account.address) : 'Not connected'}
+      return (
+        <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-emerald-200 dark:border-emerald-800 shadow-lg">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Landmark className="h-5 w-5 text-emerald-600" />
+              Stake Ticket
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col p-6 space-y-4 overflow-y-auto">
+            {/* Amount */}
+            <div className="p-4 bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20 rounded-lg border border-emerald-200 dark:border-emerald-800">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Amount</p>
+              <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                {stakeAmount} <span className="text-xl text-gray-600 dark:text-gray-400">SUI</span>
               </p>
+              {isMax && (
+                <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">All available SUI (less the estimated network fee)</p>
+              )}
             </div>
 
-            {/* To */}
-            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">To</p>
-              {name ? (
-                <div>
-                  <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{name}</p>
-                  <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{formatAddress(address)}</p>
+            {/* Validator */}
+            <div className="space-y-2 flex-1">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Validator</p>
+              {validatorsLoading ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading validators...
                 </div>
               ) : (
-                <p className="text-sm font-mono text-gray-900 dark:text-gray-100">{formatAddress(address || recipient)}</p>
-              )}
+                <>
+                  <select
+                    value={validator?.address || ''}
+                    onChange={(e) => setSelectedValidator(e.target.value)}
+                    disabled={isTransactionPending}
+                    className="w-full p-2 text-sm rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  >
+                    {!validator && <option value="">Choose a validator</option>}
+                    {validatorOptions.map((option) => (
+                      <option key={option.address} value={option.address}>
+                        {option.name} — {(option.apy * 100).toFixed(2)}% APY
+                      </option>
+                    ))}
+                  </select>
+                  {validator && (
+                    <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-1">
+                      <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{validator.name}</p>
+                      <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{formatAddress(validator.address)}</p>
+                      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 pt-1">
+                        <span>APY: {(validator.apy * 100).toFixed(2)}%</span>
+                        <span>Commission: {(validator.commissionRate / 100).toFixed(2)}%</span>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Rewards start from the next epoch. You will receive a StakedSui object that can be withdrawn later.
+              </p>
+              {stakeError && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-700 dark:text-red-300">{stakeError}</p>
+                </div>
+              )}
+            </div>
+
+            {/* Simulation */}
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || validatorsLoading || !!stakeError || isSignBlocked}
+                className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+                size="lg"
+              >
+                {isTransactionPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Landmark className="mr-2 h-4 w-4" />
+                    Confirm Stake
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={isTransactionPending}
+              >
+                Cancel
+              </Button>
             </div>
+          </CardContent>
+        </Card>
+      );
+    }
 
+    // Handle DEFI_SUPPLY / DEFI_WITHDRAW / DEFI_BORROW / DEFI_REPAY
+    if (isLendingIntent(actionType)) {
+      const { params } = intent.data;
+      const action = LENDING_ACTIONS[actionType];
+      const dryRun = isDryRun(params.dry_run);
+      const token = resolveToken(params.token || 'SUI');
+
+      let protocolName = params.protocol || 'Scallop';
+      let lendingError: string | null = null;
+      let amountBaseUnits: bigint | null = null;
+      try {
+        const adapter = getLendingAdapter(params.protocol, dryRun);
+        protocolName = adapter.name;
+        assertLendingSupported(adapter, action, network);
+      } catch (error) {
+        lendingError = error instanceof Error ? error.message : 'Lending is not available';
+      }
+      if (!token) {
+        lendingError = `Unknown token: ${params.token}`;
+      } else {
+        try {
+          amountBaseUnits = parsePositiveAmount(params.amount, token.decimals);
+        } catch (error) {
+          lendingError = error instanceof Error ? error.message : 'Invalid amount.';
+        }
+      }
+
+      const market = lendingMarkets.find((m) => token && m.symbol === token.symbol);
+      const apy = action === 'SUPPLY' || action === 'WITHDRAW' ? market?.supplyApy : market?.borrowApy;
+      const actionLabel = { SUPPLY: 'Supply', WITHDRAW: 'Withdraw', BORROW: 'Borrow', REPAY: 'Repay' }[action];
+
+      return (
+        <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-cyan-200 dark:border-cyan-800 shadow-lg">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-cyan-50 to-blue-50 dark:from-cyan-900/20 dark:to-blue-900/20">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <PiggyBank className="h-5 w-5 text-cyan-600" />
+              Lending Ticket
+              {dryRun && (
+                <span className="ml-auto text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                  DRY RUN
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col p-6 space-y-4 overflow-y-auto">
             {/* Amount */}
-            <div className="p-4 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
-              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Amount</p>
-              <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">{amount} SUI</p>
+            <div className="p-4 bg-gradient-to-br from-cyan-50 to-blue-50 dark:from-cyan-900/20 dark:to-blue-900/20 rounded-lg border border-cyan-200 dark:border-cyan-800">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{actionLabel} on {protocolName}</p>
+              <p className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                {token && amountBaseUnits !== null ? formatAmount(amountBaseUnits, token.decimals) : params.amount || '0'}{' '}
+                <span className="text-xl text-gray-600 dark:text-gray-400">{token?.symbol || params.token}</span>
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                {action === 'BORROW' || action === 'REPAY' ? 'Borrow APY' : 'Supply APY'}:{' '}
+                {isLoadingLending ? '...' : apy !== null && apy !== undefined ? `${(apy * 100).toFixed(2)}%` : 'unavailable'}
+              </p>
+              {dryRun && (
+                <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+                  Simulated: the amount is sent back to your own address, no protocol is called.
+                </p>
+              )}
+            </div>
+
+            {/* Positions */}
+            <div className="space-y-2 flex-1">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Your {protocolName} Positions</p>
+              {isLoadingLending ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading positions...
+                </div>
+              ) : lendingPositions.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No positions found.</p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {lendingPositions.map((position) => {
+                    const positionMarket = lendingMarkets.find((m) => m.coinType === position.coinType);
+                    return (
+                      <div
+                        key={position.coinType}
+                        className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 flex items-start justify-between"
+                      >
+                        <div>
+                          <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{position.symbol}</p>
+                          {positionMarket?.supplyApy !== null && positionMarket?.supplyApy !== undefined && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {(positionMarket.supplyApy * 100).toFixed(2)}% APY
+                            </p>
+                          )}
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-bold text-cyan-600 dark:text-cyan-400">
+                            {fromBaseUnits(position.supplied, position.decimals)} supplied
+                          </p>
+                          {position.borrowed > BigInt(0) && (
+                            <p className="text-xs text-red-600 dark:text-red-400">
+                              {fromBaseUnits(position.borrowed, position.decimals)} borrowed
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              {lendingError && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-700 dark:text-red-300">{lendingError}</p>
+                </div>
+              )}
+            </div>
+
+            {/* Simulation */}
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || !!lendingError || isSignBlocked}
+                className="w-full bg-cyan-600 hover:bg-cyan-700 text-white"
+                size="lg"
+              >
+                {isTransactionPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <PiggyBank className="mr-2 h-4 w-4" />
+                    Confirm {actionLabel}
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={isTransactionPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    // Handle SWAP
+    if (actionType === 'SWAP') {
+      let slippage: number | undefined;
+      try {
+        slippage = getSlippage(intent.data.params.slippage);
+      } catch {
+        slippage = undefined;
+      }
+
+      return (
+        <TransactionPreview
+          intent={intent}
+          quote={swapQuote}
+          routerName={swapRouter.name}
+          slippage={slippage}
+          isQuoting={isQuoting}
+          quoteError={swapQuoteError}
+          simulation={simulation}
+          isSimulating={isSimulating}
+          isExecuting={isTransactionPending}
+          onConfirm={handleConfirmTransaction}
+          onCancel={handleCancel}
+        />
+      );
+    }
+
+    // Handle UNSTAKE
+    if (actionType === 'UNSTAKE') {
+      const requestedValidator = intent.data.params.validator;
+      const positions = selectStakePositions(stakePositions, requestedValidator);
+      const isLoadingPositions = stakesLoading || validatorsLoading;
+      const totalPrincipal = positions.reduce((sum, position) => sum + position.principalMist, BigInt(0));
+      const totalRewards = positions.reduce((sum, position) => sum + position.estimatedRewardMist, BigInt(0));
+
+      return (
+        <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-amber-200 dark:border-amber-800 shadow-lg">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Unlock className="h-5 w-5 text-amber-600" />
+              Unstake Ticket
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col p-6 space-y-4 overflow-y-auto">
+            {/* Summary */}
+            <div className="p-4 bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Summary</p>
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                Withdrawing {positions.length} position(s){requestedValidator ? ` from ${requestedValidator}` : ' from all validators'}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                Principal: {formatMist(totalPrincipal)} SUI · Rewards: {formatMist(totalRewards)} SUI
+              </p>
+            </div>
+
+            {/* Positions List */}
+            <div className="space-y-2 flex-1">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Positions</p>
+              {isLoadingPositions ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading staked positions...
+                </div>
+              ) : positions.length === 0 ? (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-700 dark:text-red-300">
+                    {requestedValidator
+                      ? `No staked positions found with validator "${requestedValidator}".`
+                      : 'You have no staked SUI positions.'}
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {positions.map((position) => (
+                    <div
+                      key={position.stakedSuiId}
+                      className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex-1">
+                          <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{position.validatorName}</p>
+                          <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{formatAddress(position.stakedSuiId)}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{position.status}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-sm font-bold text-amber-600 dark:text-amber-400">
+                            {formatMist(position.principalMist)} SUI
+                          </p>
+                          <p className="text-xs text-emerald-600 dark:text-emerald-400">
+                            +{formatMist(position.estimatedRewardMist)} SUI rewards
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Simulation */}
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || isLoadingPositions || positions.length === 0 || isSignBlocked}
+                className="w-full bg-amber-600 hover:bg-amber-700 text-white"
+                size="lg"
+              >
+                {isTransactionPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Unlock className="mr-2 h-4 w-4" />
+                    Confirm Unstake
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={isTransactionPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    // Handle MULTI_STEP
+    if (actionType === 'MULTI_STEP') {
+      const steps = intent.data.params.steps || [];
+      const compileContext = getExecutorContext();
+
+      // Plan the steps for display; a planning error is shown instead of the confirm button
+      let plannedSteps: PlannedStep[] = [];
+      let planError: string | null = null;
+      try {
+        if (suiSpendPlanError) {
+          planError = suiSpendPlanError;
+        } else if (compileContext && (!needsSpendPlan || suiSpendPlan)) {
+          plannedSteps = planSteps(steps, compileContext);
+        }
+      } catch (error) {
+        planError = error instanceof Error ? error.message : 'Invalid steps';
+      }
+      const totalMist = plannedSteps.reduce((sum, step) => sum + step.amountMist, BigInt(0));
+
+      return (
+        <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-indigo-200 dark:border-indigo-800 shadow-lg">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-indigo-50 to-purple-50 dark:from-indigo-900/20 dark:to-purple-900/20">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Layers className="h-5 w-5 text-indigo-600" />
+              Multi-Step Ticket
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col p-6 space-y-4 overflow-y-auto">
+            {/* Summary */}
+            <div className="p-4 bg-gradient-to-br from-indigo-50 to-purple-50 dark:from-indigo-900/20 dark:to-purple-900/20 rounded-lg border border-indigo-200 dark:border-indigo-800">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Summary</p>
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {steps.length} steps in one atomic transaction
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                Total: {formatMist(totalMist)} SUI — if any step fails, nothing is executed
+              </p>
+            </div>
+
+            {/* Steps List */}
+            <div className="space-y-2 flex-1">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Steps</p>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {plannedSteps.map((step) => (
+                  <div
+                    key={step.index}
+                    className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="flex-1">
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          Step {step.index + 1} · {step.actionType}
+                        </p>
+                        <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{step.description}</p>
+                      </div>
+                      <p className="text-sm font-bold text-indigo-600 dark:text-indigo-400 whitespace-nowrap">
+                        {formatMist(step.amountMist)} SUI
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {planError && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-700 dark:text-red-300">{planError}</p>
+                </div>
+              )}
+            </div>
+
+            {/* Recipient Check */}
+            <RecipientRiskWarnings risks={recipientRisks} acknowledged={riskAcknowledged} onAcknowledgedChange={setRiskAcknowledged} />
+
+            {/* Simulation */}
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || !!planError || isSignBlocked}
+                className="w-full bg-indigo-600 hover:bg-indigo-700 text-white"
+                size="lg"
+              >
+                {isTransactionPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Layers className="mr-2 h-4 w-4" />
+                    Confirm All Steps
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={isTransactionPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    // Handle NFT_TRANSFER
+    if (actionType === 'NFT_TRANSFER') {
+      const recipient = intent.data.params.recipient || '';
+      const { name, address } = formatRecipient(recipient);
+
+      let nft: OwnedNft | null = null;
+      let nftError: string | null = null;
+      if (!nftsLoading) {
+        try {
+          nft = findNft(ownedNfts, intent.data.params.nft || '');
+        } catch (error) {
+          nftError = error instanceof Error ? error.message : 'NFT not found.';
+        }
+      }
+
+      return (
+        <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-pink-200 dark:border-pink-800 shadow-lg">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-pink-50 to-rose-50 dark:from-pink-900/20 dark:to-rose-900/20">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <ImageIcon className="h-5 w-5 text-pink-600" />
+              NFT Transfer Ticket
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col p-6 space-y-4 overflow-y-auto">
+            <div className="space-y-4 flex-1">
+              {/* NFT */}
+              <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">NFT</p>
+                {nftsLoading ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading your NFTs...
+                  </div>
+                ) : nft ? (
+                  <div className="flex items-center gap-3">
+                    {nft.imageUrl ? (
+                      <img src={nft.imageUrl} alt={nft.name} className="h-16 w-16 rounded-lg object-cover flex-shrink-0" />
+                    ) : (
+                      <div className="h-16 w-16 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center flex-shrink-0">
+                        <ImageIcon className="h-6 w-6 text-gray-400" />
+                      </div>
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{nft.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{nft.collection}</p>
+                      <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{formatAddress(nft.objectId)}</p>
+                      {nft.kiosk && (
+                        <p className="text-xs text-purple-600 dark:text-purple-400 mt-1">
+                          {nft.kiosk.isLocked ? 'Locked in your kiosk' : `Taken out of kiosk ${formatAddress(nft.kiosk.kioskId)}`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-red-600 dark:text-red-400">{nftError}</p>
+                )}
+              </div>
+
+              {/* To */}
+              <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">To</p>
+                {name ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{name}</p>
+                    <p className="text-xs font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">{formatAddress(address)}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm font-mono text-gray-900 dark:text-gray-100">{formatAddress(address || recipient)}</p>
+                )}
+              </div>
+
+              {/* Recipient Check: lookalike, malformed, own or new address */}
+              <RecipientRiskWarnings risks={recipientRisks} acknowledged={riskAcknowledged} onAcknowledgedChange={setRiskAcknowledged} />
+
+              {/* Simulation */}
+              <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+            </div>
+
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || !nft || isSignBlocked}
+                className="w-full bg-pink-600 hover:bg-pink-700 text-white"
+                size="lg"
+              >
+                {isTransactionPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Send className="mr-2 h-4 w-4" />
+                    Confirm NFT Transfer
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={isTransactionPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    // Handle MERGE_COINS
+    if (actionType === 'MERGE_COINS') {
+      const mergeToken = intent.data.params.token;
+      const isWaiting = coinGroupsLoading || (!!mergeToken && !transferCoin && !transferCoinError);
+
+      // Coin types the merge covers: the named coin, or every type held as several objects
+      let mergeGroups: CoinObjectGroup[] = [];
+      let mergeError: string | null = transferCoinError;
+      if (!isWaiting && !mergeError) {
+        if (coinGroupsError) {
+          mergeError = 'Could not load your coin objects.';
+        } else {
+          const group = transferCoin ? findCoinGroup(coinGroups, transferCoin.coinType) : null;
+          mergeGroups = getMergeableGroups(mergeToken ? (group ? [group] : []) : coinGroups);
+          if (mergeGroups.length === 0) {
+            mergeError = 'Nothing to merge: each coin type is already held as a single coin object.';
+          }
+        }
+      }
+      const mergeObjectCount = mergeGroups.reduce((sum, group) => sum + group.coins.length, 0);
+
+      return (
+        <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-cyan-200 dark:border-cyan-800 shadow-lg">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-cyan-50 to-sky-50 dark:from-cyan-900/20 dark:to-sky-900/20">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Combine className="h-5 w-5 text-cyan-600" />
+              Merge Coins Ticket
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col p-6 space-y-4 overflow-y-auto">
+            {/* Summary */}
+            <div className="p-4 bg-gradient-to-br from-cyan-50 to-sky-50 dark:from-cyan-900/20 dark:to-sky-900/20 rounded-lg border border-cyan-200 dark:border-cyan-800">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Summary</p>
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {isWaiting
+                  ? 'Loading your coin objects...'
+                  : `${mergeObjectCount} coin objects → ${mergeGroups.length} ${mergeGroups.length === 1 ? 'coin' : 'coins'}`}
+              </p>
+              {mergeGroups.some((group) => isSuiCoinType(group.coinType)) && (
+                <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">SUI coins are merged by paying the network fee with all of them</p>
+              )}
+              {mergeObjectCount > MAX_MERGE_COINS && (
+                <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                  The first {MAX_MERGE_COINS} objects are merged now; tidy up again for the rest.
+                </p>
+              )}
+            </div>
+
+            {/* Coin Types */}
+            <div className="space-y-2 flex-1">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Coins</p>
+              {isWaiting ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading...
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {mergeGroups.map((group) => (
+                    <div
+                      key={group.coinType}
+                      className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center justify-between gap-3"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate" title={group.coinType}>
+                          {group.symbol}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatAmount(group.totalBalance, group.decimals ?? 0)} {group.symbol}
+                          {group.emptyCount > 0 && ` · ${group.emptyCount} empty`}
+                        </p>
+                      </div>
+                      <p className="text-sm font-bold text-cyan-600 dark:text-cyan-400 whitespace-nowrap">{group.objectCount} → 1</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {mergeError && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <p className="text-sm text-red-700 dark:text-red-300">{mergeError}</p>
+                </div>
+              )}
             </div>
 
-            {/* Estimated Gas */}
+            {/* Simulation */}
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || isWaiting || !!mergeError || isSignBlocked}
+                className="w-full bg-cyan-600 hover:bg-cyan-700 text-white"
+                size="lg"
+              >
+                {isTransactionPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Combine className="mr-2 h-4 w-4" />
+                    Confirm Merge
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={isTransactionPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    // Handle SPLIT_COINS
+    if (actionType === 'SPLIT_COINS') {
+      const params = intent.data.params;
+      const symbol = transferCoin?.symbol || params.token || 'SUI';
+      const decimals = transferCoin?.decimals ?? 9;
+
+      // Parts in base units, exactly as they will be split when signing
+      let parts: bigint[] = [];
+      let splitError: string | null = transferCoinError;
+      if (transferCoin && !splitError) {
+        try {
+          parts = getEqualSplit(parsePositiveAmount(params.amount, decimals), params.count ?? 0);
+        } catch (error) {
+          splitError = error instanceof Error ? error.message : 'Invalid amount.';
+        }
+      }
+      const isExactSplit = parts.every((part) => part === parts[0]);
+
+      return (
+        <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-amber-200 dark:border-amber-800 shadow-lg">
+          <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20">
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Scissors className="h-5 w-5 text-amber-600" />
+              Split Coins Ticket
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 flex flex-col p-6 space-y-4 overflow-y-auto">
+            <div className="space-y-4 flex-1">
+              {/* Amount */}
+              <div className="p-4 bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 rounded-lg border border-amber-200 dark:border-amber-800">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Amount</p>
+                <p className="text-2xl font-bold text-amber-600 dark:text-amber-400">
+                  {parts.length > 0 ? formatAmount(parts.reduce((sum, part) => sum + part, BigInt(0)), decimals) : params.amount} {symbol}
+                </p>
+                {transferCoin && !isSuiCoinType(transferCoin.coinType) && (
+                  <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1 break-all">{transferCoin.coinType}</p>
+                )}
+              </div>
+
+              {/* Parts */}
+              <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">New Coins</p>
+                {parts.length > 0 ? (
+                  <>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                      {parts.length} coins of {isExactSplit ? '' : '~'}
+                      {formatAmount(parts[parts.length - 1], decimals)} {symbol}
+                    </p>
+                    {!isExactSplit && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        The first coins get one extra base unit so the parts add up exactly
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">The new coins stay in your wallet</p>
+                  </>
+                ) : splitError ? (
+                  <p className="text-sm text-red-600 dark:text-red-400">{splitError}</p>
+                ) : (
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading...
+                  </div>
+                )}
+              </div>
+
+              {/* Simulation */}
+              <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
+            </div>
+
+            {/* Action Buttons */}
+            <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button
+                onClick={handleConfirmTransaction}
+                disabled={isTransactionPending || parts.length === 0 || !!splitError || isSignBlocked}
+                className="w-full bg-amber-600 hover:bg-amber-700 text-white"
+                size="lg"
+              >
+                {isTransactionPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Scissors className="mr-2 h-4 w-4" />
+                    Confirm Split
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={handleCancel}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={isTransactionPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    // Only show preview for TRANSFER actions
+    if (actionType !== 'TRANSFER') {
+      // For SWAP, STAKE, or other actions, return to IDLE
+      return null;
+    }
+
+    const recipient = intent.data.params.recipient || (intent.data.params as any).to_address || '';
+    const { name, address } = formatRecipient(recipient);
+    const amount = intent.data.params.amount || '0';
+    const isMax = intent.data.params.isMax === true;
+
+    // Show the amount exactly as it will be sent; invalid or over-precise input blocks the confirm button
+    let displayAmount = amount;
+    let amountError: string | null = null;
+    try {
+      const decimals = transferCoin?.decimals ?? 9;
+      if (isMax) {
+        displayAmount = transferableBalance === null ? '…' : formatAmount(transferableBalance, decimals);
+        if (transferableBalance !== null && transferableBalance <= BigInt(0)) {
+          amountError = `Insufficient ${transferCoin?.symbol || 'SUI'} balance.`;
+        }
+      } else {
+        displayAmount = formatAmount(parsePositiveAmount(amount, decimals), decimals);
+      }
+    } catch (error) {
+      amountError = error instanceof Error ? error.message : 'Invalid amount.';
+    }
+
+    return (
+      <Card className="h-full flex flex-col bg-gradient-to-br from-white to-gray-50 dark:from-gray-900 dark:to-gray-800 border-2 border-blue-200 dark:border-blue-800 shadow-lg">
+        <CardHeader className="border-b border-gray-200 dark:border-gray-700 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Send className="h-5 w-5 text-blue-600" />
+            Transaction Ticket
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex-1 flex flex-col p-6 space-y-4">
+          {/* Ticket-like design */}
+          <div className="space-y-4 flex-1">
+            {/* From */}
+            <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">From</p>
+              <p className="text-sm font-mono text-gray-900 dark:text-gray-100">
+                {account ? formatAddress(account.address) : 'Not connected'}
+              </p>
+            </div>
+
+            {/* To */}
             <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Estimated Gas</p>
-              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{estimatedGas} SUI</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">To</p>
+              {name ? (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
+                    {name}
+                    {isSuiNsName(name) && (
+                      <span className="ml-2 px-1.5 py-0.5 text-[10px] font-medium rounded bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+                        SuiNS
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">{formatAddress(address)}</p>
+                </div>
+              ) : (
+                <p className="text-sm font-mono text-gray-900 dark:text-gray-100">{formatAddress(address || recipient)}</p>
+              )}
+            </div>
+
+            {/* Amount */}
+            <div className="p-4 bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Amount</p>
+              <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
+                {displayAmount} {transferCoin?.symbol || intent.data.params.token || 'SUI'}
+              </p>
+              {isMax && (
+                <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                  {transferCoin && !isSuiCoinType(transferCoin.coinType)
+                    ? 'Entire balance'
+                    : 'Entire balance - your SUI coins are merged and only the network fee stays behind'}
+                </p>
+              )}
+              {transferCoin && !isSuiCoinType(transferCoin.coinType) && (
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1 break-all">{transferCoin.coinType}</p>
+              )}
+              {(transferCoinError || amountError) && (
+                <p className="text-sm text-red-600 dark:text-red-400 mt-1">{transferCoinError || amountError}</p>
+              )}
             </div>
+
+            {/* Recipient Check: lookalike, malformed, own or new address */}
+            <RecipientRiskWarnings risks={recipientRisks} acknowledged={riskAcknowledged} onAcknowledgedChange={setRiskAcknowledged} />
+
+            {/* Simulation: real gas cost, balance and object changes */}
+            <SimulationPreview simulation={simulation} isSimulating={isSimulating} />
           </div>
 
           {/* Action Buttons */}
           <div className="space-y-2 pt-4 border-t border-gray-200 dark:border-gray-700">
             <Button
-              onClick={handleTransferTransaction}
-              disabled={isTransactionPending}
+              onClick={handleConfirmTransaction}
+              disabled={
+                isTransactionPending || !!transferCoinError || !!amountError || (isMax && transferableBalance === null) || isSignBlocked
+              }
               className="w-full bg-blue-600 hover:bg-blue-700 text-white"
               size="lg"
             >
@@ -799,7 +2047,7 @@ export function DashboardPanel({ intent, onClearIntent, transactionDigest, onTra
 
   // SUCCESS State - Success Card
   if (panelState === 'SUCCESS' && transactionDigest) {
-    const suiscanUrl = `https://suiscan.xyz/testnet/tx/${transactionDigest}`;
+    const suiscanUrl = getExplorerTxUrl(network, transactionDigest);
 
     return (
       <Card className="h-full flex flex-col bg-gradient-to-br from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 border-2 border-green-200 dark:border-green-800 shadow-lg">
@@ -0,0 +1,90 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Image as ImageIcon, Loader2, Lock, Store } from 'lucide-react';
+import { useOwnedNfts } from '@/hooks/useOwnedNfts';
+import { groupNftsByCollection, type OwnedNft } from '@/lib/nft';
+
+function NftTile({ nft }: { nft: OwnedNft }) {
+  return (
+    <div
+      className="relative aspect-square rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50"
+      title={`${nft.name}\n${nft.objectId}`}
+    >
+      {nft.imageUrl ? (
+        <img src={nft.imageUrl} alt={nft.name} className="h-full w-full object-cover" loading="lazy" />
+      ) : (
+        <div className="h-full w-full flex items-center justify-center p-1">
+          <p className="text-[10px] text-center text-gray-500 dark:text-gray-400 break-all line-clamp-3">{nft.name}</p>
+        </div>
+      )}
+      {nft.kiosk && (
+        <span className="absolute top-1 right-1 p-0.5 rounded bg-black/60 text-white" title={nft.kiosk.isLocked ? 'Locked in kiosk' : 'In kiosk'}>
+          {nft.kiosk.isLocked ? <Lock className="h-3 w-3" /> : <Store className="h-3 w-3" />}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function NftGallery() {
+  const { nfts, isLoading, error } = useOwnedNfts();
+  const collections = useMemo(() => groupNftsByCollection(nfts), [nfts]);
+  const [openCollection, setOpenCollection] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+        NFTs & Objects{nfts.length > 0 && <span className="ml-2 text-gray-900 dark:text-gray-100">{nfts.length}</span>}
+      </p>
+
+      <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto max-h-64 space-y-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 text-center">Could not load objects</p>
+        ) : collections.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No NFTs or objects</p>
+        ) : (
+          collections.map((collection) => {
+            const isOpen = openCollection === collection.type;
+            const kioskCount = collection.items.filter((nft) => nft.kiosk).length;
+            return (
+              <div key={collection.type}>
+                <button
+                  type="button"
+                  onClick={() => setOpenCollection(isOpen ? null : collection.type)}
+                  className="w-full flex items-center gap-2 p-2 rounded text-left hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  title={collection.type}
+                >
+                  {isOpen ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                  {collection.items[0].imageUrl ? (
+                    <img src={collection.items[0].imageUrl} alt="" className="h-6 w-6 rounded object-cover flex-shrink-0" />
+                  ) : (
+                    <ImageIcon className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  )}
+                  <span className="flex-1 text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{collection.name}</span>
+                  {kioskCount > 0 && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300">
+                      {kioskCount} in kiosk
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{collection.items.length}</span>
+                </button>
+                {isOpen && (
+                  <div className="grid grid-cols-3 gap-2 p-2">
+                    {collection.items.map((nft) => (
+                      <NftTile key={nft.objectId} nft={nft} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
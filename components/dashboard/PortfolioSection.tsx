@@ -0,0 +1,93 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { usePortfolio } from '@/hooks/usePortfolio';
+import { getPortfolioValueUsd, isDust, sortPortfolio, type PortfolioSortKey } from '@/lib/portfolio';
+
+const SORT_OPTIONS: Array<{ value: PortfolioSortKey; label: string }> = [
+  { value: 'value', label: 'Value' },
+  { value: 'amount', label: 'Amount' },
+  { value: 'symbol', label: 'Name' },
+];
+
+const formatUsd = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+const formatTokenAmount = (amount: string) => Number(amount).toLocaleString('en-US', { maximumFractionDigits: 4 });
+
+export function PortfolioSection() {
+  const { assets, isLoading, error, priceFeed } = usePortfolio();
+  const [sortKey, setSortKey] = useState<PortfolioSortKey>('value');
+  const [hideDust, setHideDust] = useState(true);
+
+  const visibleAssets = useMemo(
+    () => sortPortfolio(hideDust ? assets.filter((asset) => !isDust(asset)) : assets, sortKey),
+    [assets, hideDust, sortKey]
+  );
+  const totalValue = getPortfolioValueUsd(assets);
+  const hiddenCount = assets.length - visibleAssets.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+          Portfolio{totalValue !== null && <span className="ml-2 text-gray-900 dark:text-gray-100">{formatUsd(totalValue)}</span>}
+        </p>
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as PortfolioSortKey)}
+          className="p-1 text-xs rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          aria-label="Sort portfolio"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              Sort: {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto max-h-56 space-y-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 text-center">Could not load balances</p>
+        ) : visibleAssets.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No coins to show</p>
+        ) : (
+          visibleAssets.map((asset) => (
+            <div key={asset.coinType} className="flex items-center gap-3 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-700/50">
+              {asset.iconUrl ? (
+                <img src={asset.iconUrl} alt={asset.symbol} className="h-7 w-7 rounded-full flex-shrink-0" />
+              ) : (
+                <div className="h-7 w-7 rounded-full flex-shrink-0 bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 text-xs font-bold flex items-center justify-center">
+                  {asset.symbol.slice(0, 2).toUpperCase()}
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{asset.symbol}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={asset.coinType}>
+                  {asset.name}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{formatTokenAmount(asset.amount)}</p>
+                {asset.valueUsd !== null && <p className="text-xs text-gray-500 dark:text-gray-400">{formatUsd(asset.valueUsd)}</p>}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={hideDust} onChange={(e) => setHideDust(e.target.checked)} className="h-3.5 w-3.5 rounded border-gray-300" />
+          Hide dust{hideDust && hiddenCount > 0 ? ` (${hiddenCount})` : ''}
+        </label>
+        <span>{priceFeed ? `Prices: ${priceFeed.name}` : 'Prices off'}</span>
+      </div>
+    </div>
+  );
+}
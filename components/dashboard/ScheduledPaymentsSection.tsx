@@ -0,0 +1,47 @@
+'use client';
+
+import { CalendarClock } from 'lucide-react';
+import { describeSchedule, describeScheduledPayment, formatScheduledRun } from '@/lib/scheduler';
+import type { ScheduledJob } from '@/types';
+
+interface ScheduledPaymentsSectionProps {
+  // Jobs of the selected network, the soonest first
+  jobs: ScheduledJob[];
+}
+
+export function ScheduledPaymentsSection({ jobs }: ScheduledPaymentsSectionProps) {
+  const now = Date.now();
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-600 dark:text-gray-400">
+        Scheduled Payments{jobs.length > 0 && <span className="ml-2 text-gray-900 dark:text-gray-100">{jobs.length}</span>}
+      </p>
+
+      <div className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-y-auto max-h-48 space-y-1">
+        {jobs.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+            No scheduled payments. Ask VAQI, e.g. &quot;send Ali 5 SUI every Monday&quot;.
+          </p>
+        ) : (
+          jobs.map((job) => (
+            <div key={job.id} className="flex items-start gap-3 p-2 rounded hover:bg-gray-50 dark:hover:bg-gray-700/50">
+              <CalendarClock className="h-4 w-4 text-blue-600 dark:text-blue-400 mt-0.5 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">{describeScheduledPayment(job)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{describeSchedule(job)}</p>
+                <p className={`text-xs mt-0.5 ${job.nextRunAt <= now ? 'text-amber-600 dark:text-amber-400 font-medium' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {job.nextRunAt <= now ? 'Due since' : 'Next:'} {formatScheduledRun(job.nextRunAt)}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {jobs.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Change or cancel a payment by asking VAQI in the chat.</p>
+      )}
+    </div>
+  );
+}
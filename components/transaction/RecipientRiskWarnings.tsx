@@ -0,0 +1,78 @@
+'use client';
+
+import { AlertTriangle, Info } from 'lucide-react';
+import { needsExtraConfirmation, type RecipientRisk } from '@/lib/transactions/risk';
+
+interface RecipientRiskWarningsProps {
+  risks: RecipientRisk[];
+  acknowledged: boolean;
+  onAcknowledgedChange: (acknowledged: boolean) => void;
+}
+
+const formatAddress = (address: string) => (address.length > 12 ? `${address.slice(0, 6)}...${address.slice(-4)}` : address);
+
+export function RecipientRiskWarnings({ risks, acknowledged, onAcknowledgedChange }: RecipientRiskWarningsProps) {
+  const flagged = risks.filter((risk) => risk.warnings.length > 0);
+  if (flagged.length === 0) {
+    return null;
+  }
+
+  const isHighRisk = needsExtraConfirmation(risks);
+
+  return (
+    <div
+      className={`p-4 rounded-lg border space-y-2 ${
+        isHighRisk
+          ? 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800'
+          : 'bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800'
+      }`}
+    >
+      <p
+        className={`text-xs font-medium flex items-center gap-1 ${
+          isHighRisk ? 'text-red-700 dark:text-red-300' : 'text-amber-700 dark:text-amber-300'
+        }`}
+      >
+        <AlertTriangle className="h-3.5 w-3.5" />
+        Recipient Check
+      </p>
+
+      {flagged.map((risk) => (
+        <div key={risk.address} className="space-y-1">
+          {flagged.length > 1 && <p className="text-xs font-mono text-gray-500 dark:text-gray-400">{formatAddress(risk.address)}</p>}
+          {risk.warnings.map((warning) => (
+            <p
+              key={warning.code}
+              className={`text-sm flex items-start gap-1.5 ${
+                warning.level === 'high'
+                  ? 'text-red-700 dark:text-red-300'
+                  : warning.level === 'medium'
+                    ? 'text-amber-700 dark:text-amber-300'
+                    : 'text-gray-600 dark:text-gray-400'
+              }`}
+            >
+              {warning.level === 'low' ? (
+                <Info className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+              )}
+              {warning.message}
+            </p>
+          ))}
+        </div>
+      ))}
+
+      {/* High-risk recipients need an explicit check before the confirm button unlocks */}
+      {isHighRisk && (
+        <label className="flex items-start gap-2 pt-2 text-sm font-medium text-red-700 dark:text-red-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={acknowledged}
+            onChange={(e) => onAcknowledgedChange(e.target.checked)}
+            className="h-4 w-4 mt-0.5 rounded border-red-300"
+          />
+          I have checked the full address character by character and want to send anyway
+        </label>
+      )}
+    </div>
+  );
+}
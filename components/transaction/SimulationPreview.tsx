@@ -0,0 +1,101 @@
+'use client';
+
+import { AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { formatAmount } from '@/lib/transactions/amount';
+import type { TransactionSimulation } from '@/lib/transactions/simulation';
+
+interface SimulationPreviewProps {
+  simulation: TransactionSimulation | null;
+  isSimulating: boolean;
+}
+
+// "0x2::coin::Coin<0x2::sui::SUI>" → "Coin<SUI>"
+const formatObjectType = (objectType: string | null) =>
+  objectType ? objectType.replace(/0x[a-fA-F0-9]+::[a-zA-Z0-9_]+::/g, '') : 'Package';
+
+const formatObjectId = (objectId: string) => `${objectId.slice(0, 6)}...${objectId.slice(-4)}`;
+
+const OBJECT_CHANGE_LABELS: Record<string, string> = {
+  created: 'Created',
+  mutated: 'Mutated',
+  deleted: 'Deleted',
+  wrapped: 'Wrapped',
+  transferred: 'Transferred',
+  published: 'Published',
+};
+
+export function SimulationPreview({ simulation, isSimulating }: SimulationPreviewProps) {
+  if (isSimulating) {
+    return (
+      <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Simulating transaction...
+      </div>
+    );
+  }
+
+  if (!simulation) {
+    return null;
+  }
+
+  if (!simulation.success) {
+    return (
+      <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+        <p className="text-xs font-medium text-red-700 dark:text-red-300 mb-1 flex items-center gap-1">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Simulation failed - this transaction would not succeed
+        </p>
+        <p className="text-sm text-red-700 dark:text-red-300 break-words">{simulation.error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400 flex items-center gap-1">
+          <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+          Simulation passed
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Gas: <span className="font-medium text-gray-900 dark:text-gray-100">{formatAmount(simulation.gasMist, 9)} SUI</span>
+        </p>
+      </div>
+
+      {/* Balance Changes */}
+      {simulation.balanceChanges.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Balance Changes</p>
+          {simulation.balanceChanges.map((change) => (
+            <div key={change.coinType} className="flex justify-between items-center text-sm">
+              <span className="text-gray-700 dark:text-gray-300">{change.symbol}</span>
+              <span
+                className={`font-medium ${change.amount < BigInt(0) ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}
+              >
+                {change.amount > BigInt(0) ? '+' : ''}
+                {change.decimals === null ? change.amount.toString() : formatAmount(change.amount, change.decimals)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Object Changes */}
+      {simulation.objectChanges.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Object Changes</p>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {simulation.objectChanges.map((change) => (
+              <div key={`${change.kind}-${change.objectId}`} className="flex justify-between items-center text-xs gap-2">
+                <span className="text-gray-700 dark:text-gray-300 truncate">
+                  <span className="font-medium">{OBJECT_CHANGE_LABELS[change.kind]}</span> {formatObjectType(change.objectType)}
+                </span>
+                <span className="font-mono text-gray-500 dark:text-gray-400 flex-shrink-0">{formatObjectId(change.objectId)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,10 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { ArrowRightLeft, Send, Lock, Loader2 } from 'lucide-react';
 import type { TransactionResponse } from '@/lib/schemas/transaction';
+import { fromBaseUnits, getMinimumReceived, resolveToken, type SwapQuote } from '@/lib/swap';
+import { formatAmount, normalizeAmount, parseAmount } from '@/lib/transactions/amount';
+import type { TransactionSimulation } from '@/lib/transactions/simulation';
+import { SimulationPreview } from './SimulationPreview';
 
 interface Contact {
   name: string;
@@ -15,6 +19,18 @@ interface Contact {
 
 interface TransactionPreviewProps {
   intent: TransactionResponse | null;
+  // Swap quote details (SWAP only)
+  quote?: SwapQuote | null;
+  routerName?: string;
+  slippage?: number;
+  isQuoting?: boolean;
+  quoteError?: string | null;
+  // Pre-sign dry run; when given, confirming requires a successful simulation
+  simulation?: TransactionSimulation | null;
+  isSimulating?: boolean;
+  isExecuting?: boolean;
+  onConfirm?: () => void;
+  onCancel?: () => void;
 }
 
 const getActionIcon = (action: string) => {
@@ -45,8 +61,28 @@ const getActionLabel = (action: string) => {
   }
 };
 
-export function TransactionPreview({ intent }: TransactionPreviewProps) {
-  const [isExecuting, setIsExecuting] = useState(false);
+// "0x...::usdc::USDC" → "USDC"
+const formatCoinType = (coinType: string) => coinType.split('::').pop() || coinType;
+
+const getPriceImpactColor = (priceImpact: number) => {
+  if (priceImpact >= 0.05) return 'text-red-600';
+  if (priceImpact >= 0.01) return 'text-amber-600';
+  return 'text-emerald-600';
+};
+
+export function TransactionPreview({
+  intent,
+  quote,
+  routerName,
+  slippage,
+  isQuoting = false,
+  quoteError = null,
+  simulation,
+  isSimulating = false,
+  isExecuting = false,
+  onConfirm,
+  onCancel,
+}: TransactionPreviewProps) {
   const [contacts, setContacts] = useState<Contact[]>([]);
 
   // Load contacts from localStorage
@@ -109,14 +145,29 @@ export function TransactionPreview({ intent }: TransactionPreviewProps) {
     );
   }
 
-  const handleExecute = async () => {
-    setIsExecuting(true);
-    // TODO: Create Sui PTB and send transaction
-    setTimeout(() => {
-      setIsExecuting(false);
-      alert('Transaction execution not yet implemented. Sui PTB structure will be added.');
-    }, 1000);
-  };
+  const isSwap = intent.data.action_type === 'SWAP';
+
+  // Show the amount exactly as it will be converted; decimals are checked when the token is known
+  const { amount } = intent.data.params;
+  const amountDecimals = resolveToken(intent.data.params.token || 'SUI')?.decimals ?? null;
+  let displayAmount = amount;
+  let amountError: string | null = null;
+  if (amount) {
+    try {
+      displayAmount =
+        amountDecimals === null ? normalizeAmount(amount) : formatAmount(parseAmount(amount, amountDecimals), amountDecimals);
+    } catch (error) {
+      amountError = error instanceof Error ? error.message : 'Invalid amount.';
+    }
+  }
+
+  const isSimulationBlocked = simulation !== undefined && (isSimulating || !simulation?.success);
+  const canConfirm =
+    !!onConfirm &&
+    !isExecuting &&
+    !amountError &&
+    !isSimulationBlocked &&
+    (!isSwap || (!!quote && !isQuoting && !quoteError));
 
   return (
     <Card className="h-full flex flex-col">
@@ -140,12 +191,14 @@ export function TransactionPreview({ intent }: TransactionPreviewProps) {
                 </div>
               </CardHeader>
               <CardContent className="space-y-2">
-                {intent.data.params.amount && (
+                {amount && (
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Amount:</span>
-                    <span className="font-semibold">{intent.data.params.amount}</span>
+                    <span className="font-semibold">{displayAmount}</span>
                   </div>
                 )}
+
+                {amountError && <p className="text-sm text-red-600">{amountError}</p>}
                 
                 {intent.data.action_type === 'SWAP' && (
                   <>
@@ -162,6 +215,62 @@ export function TransactionPreview({ intent }: TransactionPreviewProps) {
                         <span className="font-medium">{intent.data.params.target_token}</span>
                       </div>
                     )}
+
+                    {isQuoting && (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Finding the best route...
+                      </div>
+                    )}
+
+                    {quoteError && !isQuoting && (
+                      <p className="text-sm text-red-600">{quoteError}</p>
+                    )}
+
+                    {quote && !isQuoting && !quoteError && (
+                      <>
+                        <Separator className="my-2" />
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-muted-foreground">Expected Output:</span>
+                          <span className="font-semibold">
+                            {fromBaseUnits(quote.amountOut, quote.coinOut.decimals)} {quote.coinOut.symbol}
+                          </span>
+                        </div>
+                        {slippage !== undefined && (
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm text-muted-foreground">
+                              Minimum Received ({(slippage * 100).toFixed(2)}% slippage):
+                            </span>
+                            <span className="font-medium">
+                              {fromBaseUnits(getMinimumReceived(quote, slippage), quote.coinOut.decimals)} {quote.coinOut.symbol}
+                            </span>
+                          </div>
+                        )}
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-muted-foreground">Price Impact:</span>
+                          {quote.priceImpact !== null ? (
+                            <span className={`font-medium ${getPriceImpactColor(quote.priceImpact)}`}>
+                              {(quote.priceImpact * 100).toFixed(2)}%
+                            </span>
+                          ) : (
+                            <span className="font-medium text-muted-foreground">Unknown</span>
+                          )}
+                        </div>
+                        <div className="space-y-1">
+                          <span className="text-sm text-muted-foreground">
+                            Route ({quote.hops.length} {quote.hops.length === 1 ? 'hop' : 'hops'}{routerName ? ` via ${routerName}` : ''}):
+                          </span>
+                          {quote.hops.map((hop, index) => (
+                            <div key={index} className="flex justify-between items-center text-xs">
+                              <span className="font-medium">
+                                {formatCoinType(hop.coinInType)} → {formatCoinType(hop.coinOutType)}
+                              </span>
+                              <span className="text-muted-foreground">{hop.protocol}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
                   </>
                 )}
                 
@@ -197,15 +306,17 @@ export function TransactionPreview({ intent }: TransactionPreviewProps) {
                 )}
               </CardContent>
             </Card>
+
+            {simulation !== undefined && <SimulationPreview simulation={simulation} isSimulating={isSimulating} />}
           </div>
         </ScrollArea>
 
         <Separator />
         
-        <div className="p-4">
+        <div className="p-4 space-y-2">
           <Button
-            onClick={handleExecute}
-            disabled={isExecuting}
+            onClick={onConfirm}
+            disabled={!canConfirm}
             className="w-full"
             size="lg"
           >
@@ -218,6 +329,17 @@ export function TransactionPreview({ intent }: TransactionPreviewProps) {
               'Confirm and Send Transaction'
             )}
           </Button>
+          {onCancel && (
+            <Button
+              onClick={onCancel}
+              variant="outline"
+              className="w-full"
+              size="lg"
+              disabled={isExecuting}
+            >
+              Cancel
+            </Button>
+          )}
         </div>
       </CardContent>
     </Card>
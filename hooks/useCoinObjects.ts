@@ -0,0 +1,27 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import { loadCoinObjects } from '@/lib/coins';
+
+/**
+ * Coin objects of the connected wallet grouped by coin type
+ * Shared by the tidy-up section and the merge ticket through the react-query cache.
+ */
+export function useCoinObjects() {
+  const currentAccount = useCurrentAccount();
+  const client = useSuiClient();
+  const { network } = useSuiClientContext();
+
+  const query = useQuery({
+    queryKey: ['coin-objects', network, currentAccount?.address],
+    queryFn: () => loadCoinObjects(client, currentAccount!.address),
+    enabled: !!currentAccount?.address,
+  });
+
+  return {
+    groups: query.data || [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
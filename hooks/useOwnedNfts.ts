@@ -0,0 +1,27 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import { loadOwnedNfts } from '@/lib/nft';
+
+/**
+ * NFTs and other collectibles of the connected wallet, including items in its kiosks
+ * Shared by the gallery and the NFT transfer ticket through the react-query cache.
+ */
+export function useOwnedNfts() {
+  const currentAccount = useCurrentAccount();
+  const client = useSuiClient();
+  const { network } = useSuiClientContext();
+
+  const query = useQuery({
+    queryKey: ['owned-nfts', network, currentAccount?.address],
+    queryFn: () => loadOwnedNfts(client, currentAccount!.address),
+    enabled: !!currentAccount?.address,
+  });
+
+  return {
+    nfts: query.data || [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import { getPriceFeed, loadPortfolio } from '@/lib/portfolio';
+
+// Balances change with every transaction - refresh the portfolio in the background
+const PORTFOLIO_REFRESH_MS = 30_000;
+
+/**
+ * All coin balances of the connected wallet on the selected network
+ * Shared by the dashboard and the chat through the react-query cache.
+ */
+export function usePortfolio() {
+  const currentAccount = useCurrentAccount();
+  const client = useSuiClient();
+  const { network } = useSuiClientContext();
+  const priceFeed = getPriceFeed(network);
+
+  const query = useQuery({
+    queryKey: ['portfolio', network, currentAccount?.address, priceFeed?.id ?? 'none'],
+    queryFn: () => loadPortfolio(client, currentAccount!.address, priceFeed),
+    enabled: !!currentAccount?.address,
+    refetchInterval: PORTFOLIO_REFRESH_MS,
+  });
+
+  return {
+    assets: query.data || [],
+    isLoading: query.isLoading,
+    error: query.error,
+    priceFeed,
+  };
+}
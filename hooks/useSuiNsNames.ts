@@ -0,0 +1,30 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { resolveSuiNsRecipients } from '@/lib/transactions/suins';
+
+/**
+ * Default SuiNS names of a list of addresses (normalized address → name)
+ * Addresses without a name are left out; lookups are cached per network by the resolver.
+ */
+export function useSuiNsNames(addresses: string[]) {
+  const client = useSuiClient();
+  const { network } = useSuiClientContext();
+
+  const unique = useMemo(
+    () => Array.from(new Set(addresses.filter((address) => address.startsWith('0x')).map((address) => normalizeSuiAddress(address)))).sort(),
+    [addresses]
+  );
+
+  const query = useQuery({
+    queryKey: ['suins-names', network, unique],
+    queryFn: async () => (await resolveSuiNsRecipients(client, unique)).names,
+    enabled: unique.length > 0,
+    staleTime: Infinity,
+  });
+
+  return query.data || {};
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useCurrentAccount, useSuiClient, useSuiClientContext } from '@mysten/dapp-kit';
+import { fetchHistoryPage, type HistoryCursor } from '@/lib/history';
+
+/**
+ * On-chain transaction history of the connected wallet (sent and received), newest first
+ * Pages are loaded on demand with `loadMore`.
+ */
+export function useTransactionHistory() {
+  const currentAccount = useCurrentAccount();
+  const client = useSuiClient();
+  const { network } = useSuiClientContext();
+
+  const query = useInfiniteQuery({
+    queryKey: ['tx-history', network, currentAccount?.address],
+    queryFn: ({ pageParam }) => fetchHistoryPage(client, currentAccount!.address, pageParam),
+    initialPageParam: null as HistoryCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!currentAccount?.address,
+  });
+
+  const entries = useMemo(() => (query.data?.pages || []).flatMap((page) => page.entries), [query.data]);
+
+  return {
+    entries,
+    isLoading: query.isLoading,
+    error: query.error,
+    hasMore: !!query.hasNextPage,
+    isLoadingMore: query.isFetchingNextPage,
+    loadMore: query.fetchNextPage,
+  };
+}
@@ -1,9 +1,9 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { useCurrentAccount } from '@mysten/dapp-kit';
+import { useCurrentAccount, useSuiClientContext } from '@mysten/dapp-kit';
 import toast from 'react-hot-toast';
-import type { WalletMemory, ChatMessage, ActivityLogEntry, Contact } from '@/types';
+import type { WalletMemory, ChatMessage, ActivityLogEntry, Contact, SpendingPolicy, ScheduledJob } from '@/types';
 import {
   uploadToWalrus,
   downloadFromWalrus,
@@ -11,6 +11,7 @@ import {
   saveBlobIdLocally,
   loadBlobIdLocally,
 } from '@/lib/walrus/service';
+import { getWalrusNetwork } from '@/lib/network';
 
 interface UseWalletMemoryReturn {
   memory: WalletMemory | null;
@@ -21,6 +22,8 @@ interface UseWalletMemoryReturn {
   addActivityLog: (activity: ActivityLogEntry) => void;
   updateAiSummary: (summary: string) => void;
   updateContacts: (contacts: Contact[]) => void;
+  updateSpendingPolicy: (policy: SpendingPolicy) => void;
+  updateScheduledJobs: (jobs: ScheduledJob[]) => void;
   saveToWalrus: () => Promise<void>;
   clearMemory: () => void;
 }
@@ -37,6 +40,9 @@ const BACKOFF_DURATION_MS = 30000; // 30 seconds
 
 export function useWalletMemory(): UseWalletMemoryReturn {
   const currentAccount = useCurrentAccount();
+  const { network } = useSuiClientContext();
+  // Memory lives on Walrus mainnet for mainnet, on Walrus testnet for every other network
+  const walrusNetwork = getWalrusNetwork(network);
   const [memory, setMemory] = useState<WalletMemory | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -74,11 +80,11 @@ export function useWalletMemory(): UseWalletMemoryReturn {
 
       try {
         // First, check localStorage for existing blobId
-        const savedBlobId = loadBlobIdLocally(currentAccount.address);
+        const savedBlobId = loadBlobIdLocally(currentAccount.address, walrusNetwork);
         
         if (savedBlobId) {
           // Try to download from Walrus
-          const walrusMemory = await downloadFromWalrus(savedBlobId);
+          const walrusMemory = await downloadFromWalrus(savedBlobId, walrusNetwork);
           
           if (walrusMemory && walrusMemory.walletAddress === currentAccount.address) {
             console.log('✅ Loaded memory from Walrus');
@@ -103,7 +109,7 @@ export function useWalletMemory(): UseWalletMemoryReturn {
     }
 
     loadMemory();
-  }, [currentAccount?.address]);
+  }, [currentAccount?.address, walrusNetwork]);
 
   // Cleanup timeout on unmount
   useEffect(() => {
@@ -179,14 +185,14 @@ export function useWalletMemory(): UseWalletMemoryReturn {
       };
 
       console.log('💾 [Memory] Attempting to save to Walrus...');
-      const blobId = await uploadToWalrus(updatedMemory);
+      const blobId = await uploadToWalrus(updatedMemory, walrusNetwork);
       
       if (blobId) {
         // Success - reset failure tracking
         consecutiveFailuresRef.current = 0;
         backoffUntilRef.current = 0;
         
-        saveBlobIdLocally(currentAccount.address, blobId);
+        saveBlobIdLocally(currentAccount.address, blobId, walrusNetwork);
         setMemory(prev => prev ? { ...prev, blobId, lastUpdated: updatedMemory.lastUpdated } : null);
         console.log('✅ [Memory] Saved to Walrus successfully, blobId:', blobId);
         // Don't show success toast for auto-saves, only for manual saves
@@ -228,7 +234,7 @@ export function useWalletMemory(): UseWalletMemoryReturn {
       setIsSaving(false);
       console.log('💾 [Memory] Save operation completed, isSaving set to false');
     }
-  }, [currentAccount?.address, showThrottledErrorToast]);
+  }, [currentAccount?.address, walrusNetwork, showThrottledErrorToast]);
 
   // Auto-save with debounce
   const scheduleAutoSave = useCallback(() => {
@@ -273,14 +279,14 @@ export function useWalletMemory(): UseWalletMemoryReturn {
     });
   }, [scheduleAutoSave, currentAccount?.address, saveToWalrusInternal]);
 
-  // Add activity log
+  // Add activity log (tagged with the current network unless the entry already has one)
   const addActivityLog = useCallback((activity: ActivityLogEntry) => {
     setMemory(prev => {
       if (!prev) return null;
       
       const updated = {
         ...prev,
-        activityLogs: [...prev.activityLogs, activity],
+        activityLogs: [...prev.activityLogs, { ...activity, network: activity.network || network }],
         lastUpdated: Date.now(),
       };
       
@@ -338,6 +344,54 @@ export function useWalletMemory(): UseWalletMemoryReturn {
     });
   }, [scheduleAutoSave, currentAccount?.address, saveToWalrusInternal]);
 
+  // Update spending policy
+  const updateSpendingPolicy = useCallback((spendingPolicy: SpendingPolicy) => {
+    setMemory(prev => {
+      if (!prev) return null;
+      
+      const updated = {
+        ...prev,
+        spendingPolicy,
+        lastUpdated: Date.now(),
+      };
+      
+      // If no blobId yet, save immediately
+      if (!prev.blobId && currentAccount?.address) {
+        setTimeout(() => {
+          saveToWalrusInternal(updated);
+        }, 100);
+      } else {
+        scheduleAutoSave();
+      }
+      
+      return updated;
+    });
+  }, [scheduleAutoSave, currentAccount?.address, saveToWalrusInternal]);
+
+  // Update scheduled payments
+  const updateScheduledJobs = useCallback((scheduledJobs: ScheduledJob[]) => {
+    setMemory(prev => {
+      if (!prev) return null;
+      
+      const updated = {
+        ...prev,
+        scheduledJobs,
+        lastUpdated: Date.now(),
+      };
+      
+      // If no blobId yet, save immediately
+      if (!prev.blobId && currentAccount?.address) {
+        setTimeout(() => {
+          saveToWalrusInternal(updated);
+        }, 100);
+      } else {
+        scheduleAutoSave();
+      }
+      
+      return updated;
+    });
+  }, [scheduleAutoSave, currentAccount?.address, saveToWalrusInternal]);
+
   // Manual save to Walrus (shows toast on error)
   const saveToWalrus = useCallback(async () => {
     if (!memory || !currentAccount?.address) {
@@ -355,14 +409,14 @@ export function useWalletMemory(): UseWalletMemoryReturn {
       };
 
       console.log('💾 [Memory] Manual save to Walrus...');
-      const blobId = await uploadToWalrus(updatedMemory);
+      const blobId = await uploadToWalrus(updatedMemory, walrusNetwork);
       
       if (blobId) {
         // Success - reset failure tracking
         consecutiveFailuresRef.current = 0;
         backoffUntilRef.current = 0;
         
-        saveBlobIdLocally(currentAccount.address, blobId);
+        saveBlobIdLocally(currentAccount.address, blobId, walrusNetwork);
         setMemory(prev => prev ? { ...prev, blobId, lastUpdated: updatedMemory.lastUpdated } : null);
         console.log('✅ [Memory] Manual save successful, blobId:', blobId);
         toast.success('Saved to Walrus successfully');
@@ -382,7 +436,7 @@ export function useWalletMemory(): UseWalletMemoryReturn {
     } finally {
       setIsSaving(false);
     }
-  }, [memory, currentAccount?.address, showThrottledErrorToast]);
+  }, [memory, currentAccount?.address, walrusNetwork, showThrottledErrorToast]);
 
   // Clear memory
   const clearMemory = useCallback(() => {
@@ -402,6 +456,8 @@ export function useWalletMemory(): UseWalletMemoryReturn {
     addActivityLog,
     updateAiSummary,
     updateContacts,
+    updateSpendingPolicy,
+    updateScheduledJobs,
     saveToWalrus,
     clearMemory,
   };
@@ -0,0 +1,83 @@
+import { GoogleGenerativeAI, type FunctionCall, type FunctionDeclarationSchema } from '@google/generative-ai';
+import type { GenerateRequest, LLMProvider, ToolCall } from './types';
+
+// API Key kontrolü - Secure loading from environment variables
+const apiKey = process.env.GOOGLE_API_KEY;
+
+if (!apiKey) {
+  console.error('⚠️  HATA: .env dosyasında GOOGLE_API_KEY bulunamadı!');
+  console.error('⚠️  Lütfen .env.local dosyasında GOOGLE_API_KEY değişkenini tanımlayın.');
+}
+
+const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+
+function buildRequest({ prompt, maxOutputTokens, temperature, topP, tools }: GenerateRequest) {
+  return {
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    // JSON mode and function calling are mutually exclusive on Gemini
+    ...(tools
+      ? {
+          tools: [
+            {
+              functionDeclarations: tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters as unknown as FunctionDeclarationSchema,
+              })),
+            },
+          ],
+        }
+      : {}),
+    generationConfig: {
+      maxOutputTokens,
+      temperature,
+      topP,
+      ...(tools ? {} : { responseMimeType: 'application/json' }),
+    },
+  };
+}
+
+function toToolCall(call: FunctionCall): ToolCall {
+  return { name: call.name, args: (call.args ?? {}) as Record<string, unknown> };
+}
+
+/**
+ * Google Gemini provider
+ */
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+
+  isConfigured: () => !!genAI,
+
+  supportsTools: true,
+
+  async generate(request) {
+    if (!genAI) {
+      throw new Error('GOOGLE_API_KEY is not configured');
+    }
+
+    const generativeModel = genAI.getGenerativeModel({ model: request.model });
+    const result = await generativeModel.generateContent(buildRequest(request));
+    const response = await result.response;
+    const call = response.functionCalls()?.[0];
+    return { text: response.text(), toolCall: call ? toToolCall(call) : null };
+  },
+
+  async *stream(request) {
+    if (!genAI) {
+      throw new Error('GOOGLE_API_KEY is not configured');
+    }
+
+    const generativeModel = genAI.getGenerativeModel({ model: request.model });
+    const result = await generativeModel.generateContentStream(buildRequest(request));
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield { type: 'text', text };
+      }
+      for (const call of chunk.functionCalls() ?? []) {
+        yield { type: 'tool_call', toolCall: toToolCall(call) };
+      }
+    }
+  },
+};
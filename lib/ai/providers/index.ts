@@ -0,0 +1,20 @@
+import type { LLMProvider, ProviderId } from './types';
+import { geminiProvider } from './gemini';
+import { openaiProvider } from './openai';
+import { offlineProvider } from './offline';
+
+export * from './types';
+export * from './registry';
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  offline: offlineProvider,
+};
+
+/**
+ * Get the provider implementation for a registry provider id (server-only)
+ */
+export function getProvider(id: ProviderId): LLMProvider {
+  return PROVIDERS[id];
+}
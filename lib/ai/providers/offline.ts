@@ -0,0 +1,171 @@
+import type { LLMProvider } from './types';
+import { HIGHEST_APY_VALIDATOR } from '@/lib/transactions/staking';
+
+const SUI_ADDRESS_REGEX = /0x[a-fA-F0-9]+/;
+const AMOUNT_REGEX = /(\d[\d.,]*)\s*sui\b/i;
+const SEND_KEYWORDS = /\b(send|transfer|pay)\b|gönder|yolla|transfer et/i;
+const ALL_KEYWORDS = /\ball my sui\b|\btüm sui\b|\bhepsi(ni)?\b/i;
+const STAKE_KEYWORDS = /\bstake\b|stake et|stakele/i;
+const UNSTAKE_KEYWORDS = /\bunstake\b|\bwithdraw\b.*\bstake|unstake et|stake(mi|imi)? (geri )?çek/i;
+const NFT_TRANSFER_REGEX = /\b(?:send|transfer|give)\s+(?:my\s+)?(.+?#\s*\d+)\s+to\s+([\p{L}\d_.-]+)/iu;
+const SPLIT_COINS_REGEX = /\bsplit\s+(\d[\d.,]*)\s*([a-z]+)\s+into\s+(\d+)\s+(?:equal\s+)?coins?\b/i;
+const MERGE_COINS_KEYWORDS = /\b(merge|tidy up|clean up)\b.*\bcoins?\b|coin(lerimi|leri)? birleştir/i;
+const SCHEDULE_REGEX = /\bevery\s+(day|month|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i;
+const CANCEL_SCHEDULE_KEYWORDS = /\bcancel\b.*\bpayment\b|ödeme(si|mi|sini|mizi)? iptal/i;
+const SWAP_REGEX = /\b(?:swap|convert)\s+(\d[\d.,]*)\s*([a-z]+)\s+(?:to|for|into)\s+([a-z]+)/i;
+const SUPPLY_KEYWORDS = /\b(supply|deposit|lend)\b|yatır/i;
+const LENDING_PROTOCOL_REGEX = /\b(scallop|navi|suilend)\b/i;
+const BEST_APY_KEYWORDS = /\b(best|highest)\b.*\bapy\b|en yüksek/i;
+
+/**
+ * Extract the recipient: a 0x address, the word after "to", or a Turkish "Ali'ye" style dative
+ */
+function extractRecipient(message: string): string | null {
+  const address = message.match(SUI_ADDRESS_REGEX);
+  if (address) return address[0];
+
+  const english = message.match(/\bto\s+([\p{L}\d_.-]+)/iu);
+  if (english) return english[1];
+
+  const turkish = message.match(/([\p{L}\d_.-]+)['’]y?[ea](?=\s|$)/iu);
+  return turkish ? turkish[1] : null;
+}
+
+/**
+ * Extract the validator of a stake request: a 0x address, "best APY", or the name after "with"
+ */
+function extractValidator(message: string): string | null {
+  const address = message.match(SUI_ADDRESS_REGEX);
+  if (address) return address[0];
+  if (BEST_APY_KEYWORDS.test(message)) return HIGHEST_APY_VALIDATOR;
+
+  const named = message.match(/\bwith\s+([\p{L}\d_.-]+)/iu);
+  return named ? named[1] : null;
+}
+
+/**
+ * Answer with a tool call when tools are declared, or with the JSON envelope otherwise
+ */
+function transactionResult(actionType: string, summary: string, params: Record<string, unknown>, useTools: boolean) {
+  if (useTools) {
+    return { text: '', toolCall: { name: actionType, args: { summary, ...params } } };
+  }
+  return {
+    text: JSON.stringify({ type: 'TRANSACTION', data: { summary, action_type: actionType, params } }),
+    toolCall: null,
+  };
+}
+
+/**
+ * Deterministic offline provider
+ * Recognises simple "send N SUI to X", "send my NFT #N to X", "swap N SUI to USDC", "supply N SUI", "stake N SUI", "unstake",
+ * "merge my coins", "split N SUI into K coins", "send N SUI to X every Monday" and "cancel my ... payment" requests and answers everything else with a fixed notice.
+ * Used for local development and demos without an API key or network.
+ */
+export const offlineProvider: LLMProvider = {
+  id: 'offline',
+
+  isConfigured: () => true,
+
+  supportsTools: true,
+
+  async generate({ userMessage, tools }) {
+    const isTurkish = /[çğıöşüÇĞİÖŞÜ]/.test(userMessage);
+    const amountMatch = userMessage.match(AMOUNT_REGEX);
+    const isMax = ALL_KEYWORDS.test(userMessage);
+    const recipient = extractRecipient(userMessage);
+    // Amounts are passed through as written; the amount module parses the locale format
+    const amount = amountMatch ? amountMatch[1] : null;
+
+    const swapMatch = userMessage.match(SWAP_REGEX);
+    if (swapMatch) {
+      const [, swapAmount, token, targetToken] = swapMatch;
+      const summary = `Preparing to swap ${swapAmount} ${token.toUpperCase()} to ${targetToken.toUpperCase()}. 🔄`;
+      const params = { amount: swapAmount, token: token.toUpperCase(), target_token: targetToken.toUpperCase() };
+      return transactionResult('SWAP', summary, params, !!tools);
+    }
+
+    const splitMatch = userMessage.match(SPLIT_COINS_REGEX);
+    if (splitMatch) {
+      const [, splitAmount, token, count] = splitMatch;
+      const summary = `Preparing to split ${splitAmount} ${token.toUpperCase()} into ${count} equal coins. ✂️`;
+      return transactionResult('SPLIT_COINS', summary, { amount: splitAmount, token: token.toUpperCase(), count: Number(count) }, !!tools);
+    }
+
+    if (MERGE_COINS_KEYWORDS.test(userMessage)) {
+      const summary = isTurkish ? 'Coin objelerin birleştirilmeye hazırlanıyor. 🧹' : 'Preparing to merge your coin objects. 🧹';
+      return transactionResult('MERGE_COINS', summary, { token: /\bsui\b/i.test(userMessage) ? 'SUI' : null }, !!tools);
+    }
+
+    if (UNSTAKE_KEYWORDS.test(userMessage)) {
+      const validatorMatch = userMessage.match(SUI_ADDRESS_REGEX) || userMessage.match(/\bfrom\s+(?:validator\s+)?([\p{L}\d_.-]+)/iu);
+      const validator = validatorMatch ? validatorMatch[1] ?? validatorMatch[0] : null;
+      const summary = isTurkish
+        ? 'Stake pozisyonların geri çekilmeye hazırlanıyor. 🔓'
+        : `Preparing to unstake your SUI${validator ? ` from ${validator}` : ''}. 🔓`;
+      return transactionResult('UNSTAKE', summary, { validator }, !!tools);
+    }
+
+    if (SUPPLY_KEYWORDS.test(userMessage) && amount) {
+      const protocolMatch = userMessage.match(LENDING_PROTOCOL_REGEX);
+      const protocol = protocolMatch ? protocolMatch[1].toLowerCase() : null;
+      const summary = isTurkish
+        ? `${amount} SUI ${protocol ?? 'Scallop'} protokolüne yatırılmaya hazırlanıyor. 🏦`
+        : `Preparing to supply ${amount} SUI to ${protocol ?? 'Scallop'}. 🏦`;
+      return transactionResult('DEFI_SUPPLY', summary, { amount, token: 'SUI', protocol, dry_run: null }, !!tools);
+    }
+
+    if (STAKE_KEYWORDS.test(userMessage) && (amountMatch || isMax)) {
+      const summary = isTurkish
+        ? `${amount ?? 'Tüm'} SUI stake edilmeye hazırlanıyor. 🥩`
+        : `Preparing to stake ${amount ?? 'all your'} SUI. 🥩`;
+      const params = { amount, token: 'SUI', isMax, validator: extractValidator(userMessage) };
+      return transactionResult('STAKE', summary, params, !!tools);
+    }
+
+    if (CANCEL_SCHEDULE_KEYWORDS.test(userMessage)) {
+      const summary = isTurkish ? 'Planlı ödemen iptal ediliyor. 🗓️' : 'Cancelling your scheduled payment. 🗓️';
+      return transactionResult('SCHEDULE', summary, { schedule: { operation: 'cancel', job: userMessage } }, !!tools);
+    }
+
+    const scheduleMatch = userMessage.match(SCHEDULE_REGEX);
+    if (scheduleMatch && SEND_KEYWORDS.test(userMessage) && amount && recipient) {
+      const period = scheduleMatch[1].toLowerCase();
+      const schedule =
+        period === 'day'
+          ? { operation: 'create', frequency: 'daily' }
+          : period === 'month'
+            ? { operation: 'create', frequency: 'monthly', day_of_month: new Date().getDate() }
+            : { operation: 'create', frequency: 'weekly', weekday: period };
+      const summary = `Scheduling ${amount} SUI to ${recipient} every ${period}. 🗓️`;
+      return transactionResult('SCHEDULE', summary, { amount, recipient, token: 'SUI', schedule }, !!tools);
+    }
+
+    const nftMatch = userMessage.match(NFT_TRANSFER_REGEX);
+    if (nftMatch) {
+      const [, nft, nftRecipient] = nftMatch;
+      const summary = `Preparing to send ${nft} to ${nftRecipient}. 🖼️`;
+      return transactionResult('NFT_TRANSFER', summary, { nft, recipient: nftRecipient }, !!tools);
+    }
+
+    if (SEND_KEYWORDS.test(userMessage) && (amountMatch || isMax) && recipient) {
+      const summary = isTurkish
+        ? `${amount ?? 'Tüm'} SUI, ${recipient} için gönderilmeye hazırlanıyor. 🚀`
+        : `Preparing to send ${amount ?? 'all your'} SUI to ${recipient}. 🚀`;
+      const params = { amount, recipient, token: 'SUI', isMax };
+      return transactionResult('TRANSFER', summary, params, !!tools);
+    }
+
+    const notice = isTurkish
+      ? 'Çevrimdışı moddayım. Şu an sadece "5 SUI gönder" veya "2 SUI stake et" gibi basit istekleri anlayabiliyorum.'
+      : 'I am running in offline mode. Right now I can only understand simple requests like "send 5 SUI to 0x..." or "stake 2 SUI".';
+
+    if (tools) {
+      return { text: notice, toolCall: null };
+    }
+    return {
+      text: JSON.stringify({ type: 'CHAT', data: { summary: notice, action_type: 'NONE', params: {} } }),
+      toolCall: null,
+    };
+  },
+};
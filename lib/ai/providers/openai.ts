@@ -0,0 +1,98 @@
+import OpenAI from 'openai';
+import type { GenerateRequest, LLMProvider } from './types';
+
+// OpenAI-compatible endpoint configuration
+// For a local llama.cpp / Ollama server set OPENAI_BASE_URL (e.g. http://localhost:11434/v1); the key is optional there.
+const apiKey = process.env.OPENAI_API_KEY;
+const baseURL = process.env.OPENAI_BASE_URL;
+const modelName = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+// Set OPENAI_TOOLS=false for local models/servers without function calling support
+const toolsEnabled = process.env.OPENAI_TOOLS !== 'false';
+
+const client = apiKey || baseURL
+  ? new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: baseURL || undefined })
+  : null;
+
+function buildParams({ prompt, maxOutputTokens, temperature, topP, tools }: GenerateRequest) {
+  return {
+    model: modelName,
+    messages: [{ role: 'user' as const, content: prompt }],
+    max_tokens: maxOutputTokens,
+    temperature,
+    top_p: topP,
+    ...(tools
+      ? {
+          tools: tools.map((tool) => ({
+            type: 'function' as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+        }
+      : { response_format: { type: 'json_object' as const } }),
+  };
+}
+
+function parseArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('❌ Could not parse tool call arguments:', raw);
+    return {};
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ * The registry model id is generic; the concrete model comes from OPENAI_MODEL.
+ */
+export const openaiProvider: LLMProvider = {
+  id: 'openai',
+
+  isConfigured: () => !!client,
+
+  supportsTools: toolsEnabled,
+
+  async generate(request) {
+    if (!client) {
+      throw new Error('OPENAI_API_KEY or OPENAI_BASE_URL is not configured');
+    }
+
+    const completion = await client.chat.completions.create(buildParams(request));
+    const message = completion.choices[0]?.message;
+    const call = message?.tool_calls?.[0];
+
+    return {
+      text: message?.content || '',
+      toolCall: call ? { name: call.function.name, args: parseArguments(call.function.arguments) } : null,
+    };
+  },
+
+  async *stream(request) {
+    if (!client) {
+      throw new Error('OPENAI_API_KEY or OPENAI_BASE_URL is not configured');
+    }
+
+    const completion = await client.chat.completions.create({ ...buildParams(request), stream: true });
+
+    // Tool call names/arguments arrive in fragments, keyed by index
+    const pendingCalls: Array<{ name: string; arguments: string }> = [];
+
+    for await (const chunk of completion) {
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        yield { type: 'text', text: delta.content };
+      }
+      for (const fragment of delta?.tool_calls ?? []) {
+        const pending = (pendingCalls[fragment.index] ??= { name: '', arguments: '' });
+        pending.name += fragment.function?.name ?? '';
+        pending.arguments += fragment.function?.arguments ?? '';
+      }
+    }
+
+    for (const pending of pendingCalls) {
+      if (pending?.name) {
+        yield { type: 'tool_call', toolCall: { name: pending.name, args: parseArguments(pending.arguments) } };
+      }
+    }
+  },
+};
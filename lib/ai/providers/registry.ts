@@ -0,0 +1,35 @@
+import type { ModelDescriptor } from './types';
+
+/**
+ * Model Registry
+ * Single source of truth for the ModelSelector options and the /api/analyze allowlist.
+ * Kept free of SDK imports so client components can read it.
+ */
+export const MODEL_REGISTRY = [
+  { id: 'gemini-2.5-flash', provider: 'gemini', label: 'Hızlı VAQI', icon: '⚡', style: 'fast' },
+  { id: 'gemini-1.5-pro', provider: 'gemini', label: 'Düşünen VAQI', icon: '🧠', style: 'thinking' },
+  // Any OpenAI-compatible endpoint (OpenAI, llama.cpp server, Ollama) - see OPENAI_* env vars
+  { id: 'openai-compatible', provider: 'openai', label: 'Yerel VAQI', icon: '🖥️', style: 'fast' },
+  // Deterministic stub, needs no network or API key
+  { id: 'offline', provider: 'offline', label: 'Çevrimdışı VAQI', icon: '🔌', style: 'fast' },
+] as const satisfies readonly ModelDescriptor[];
+
+export type ModelId = (typeof MODEL_REGISTRY)[number]['id'];
+
+export const DEFAULT_MODEL: ModelId = 'gemini-2.5-flash';
+
+export function isAllowedModel(modelId: string): modelId is ModelId {
+  return MODEL_REGISTRY.some((m) => m.id === modelId);
+}
+
+export function getModelDescriptor(modelId: string): ModelDescriptor {
+  return MODEL_REGISTRY.find((m) => m.id === modelId) ?? MODEL_REGISTRY.find((m) => m.id === DEFAULT_MODEL)!;
+}
+
+/**
+ * Pick another model from the same provider (used when a model returns 404)
+ */
+export function getFallbackModel(modelId: string): ModelDescriptor | null {
+  const current = getModelDescriptor(modelId);
+  return MODEL_REGISTRY.find((m) => m.provider === current.provider && m.id !== current.id) ?? null;
+}
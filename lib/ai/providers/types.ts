@@ -0,0 +1,72 @@
+// Identifiers of the LLM backends that can serve /api/analyze
+export type ProviderId = 'gemini' | 'openai' | 'offline';
+
+// Response style drives the prompt's length/tone instructions
+export type ResponseStyle = 'fast' | 'thinking';
+
+/**
+ * Model entry shown in the ModelSelector and accepted by /api/analyze
+ */
+export interface ModelDescriptor {
+  id: string;
+  provider: ProviderId;
+  label: string;
+  icon: string;
+  style: ResponseStyle;
+}
+
+/**
+ * Function/tool declaration offered to the model
+ * `parameters` is a JSON Schema object generated from the Zod definitions.
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Structured tool call returned by the model
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Single-shot generation request sent to a provider
+ */
+export interface GenerateRequest {
+  model: string;
+  prompt: string;
+  // Raw user input, for providers that do not run the full prompt (offline stub)
+  userMessage: string;
+  maxOutputTokens: number;
+  temperature: number;
+  topP: number;
+  // When set, the model answers with plain text or one of these tool calls instead of a JSON envelope
+  tools?: ToolDefinition[];
+}
+
+export interface GenerateResult {
+  text: string;
+  toolCall: ToolCall | null;
+}
+
+export type StreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; toolCall: ToolCall };
+
+/**
+ * LLM provider contract
+ * Providers return raw text and/or a tool call; validation against the
+ * transaction schemas stays in the AI service so every backend is treated the same.
+ * Errors should carry an HTTP-like `status` (404, 429) when available.
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  isConfigured: () => boolean;
+  // Native function calling; providers without it fall back to the prompt-embedded JSON envelope
+  supportsTools: boolean;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+  // Optional token streaming; providers without it are served through generate()
+  stream?: (request: GenerateRequest) => AsyncIterable<StreamChunk>;
+}
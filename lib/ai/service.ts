@@ -1,15 +1,21 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { TransactionResponseSchema, type TransactionResponse } from '@/lib/schemas/transaction';
-
-// API Key kontrolü - Secure loading from environment variables
-const apiKey = process.env.GOOGLE_API_KEY;
-
-if (!apiKey) {
-  console.error('⚠️  HATA: .env dosyasında GOOGLE_API_KEY bulunamadı!');
-  console.error('⚠️  Lütfen .env.local dosyasında GOOGLE_API_KEY değişkenini tanımlayın.');
-}
-
-const genAI = apiKey ? new GoogleGenerativeAI(apiKey) : null;
+import {
+  DEFAULT_MODEL,
+  getFallbackModel,
+  getModelDescriptor,
+  getProvider,
+  isAllowedModel,
+  type GenerateResult,
+  type ModelDescriptor,
+  type ToolCall,
+} from '@/lib/ai/providers';
+import { createSummaryExtractor, type AnalyzeStreamEvent } from '@/lib/ai/streaming';
+import { TRANSACTION_TOOLS, toolCallToResponse } from '@/lib/ai/tools';
+import type { PortfolioContextEntry } from '@/lib/portfolio';
+
+const MISSING_KEY_MESSAGE = 'Sistem Hatası: API Anahtarı eksik. Lütfen terminal loglarını kontrol edin.';
+const RATE_LIMIT_MESSAGE = 'Sistem şu an yoğun, lütfen birkaç saniye sonra tekrar deneyin.';
+const BUSY_MESSAGE = 'Sistem şu an meşgul, lütfen tekrar deneyin.';
 
 const generationConfig = {
   maxOutputTokens: 2048, // Increased to prevent JSON truncation
@@ -47,6 +53,20 @@ function cleanJsonOutput(text: string): string {
   return cleaned;
 }
 
+/**
+ * Wrap a plain message in a CHAT envelope
+ */
+function chatResponse(summary: string): TransactionResponse {
+  return {
+    type: 'CHAT',
+    data: {
+      summary,
+      action_type: 'NONE',
+      params: {},
+    },
+  };
+}
+
 /**
  * Safe Fallback Response
  * Returns a user-friendly error message in the detected language
@@ -71,18 +91,11 @@ function getSafeFallbackResponse(userMessage: string): TransactionResponse {
     fallbackMessage = 'A technical issue occurred, but I can hear you. Could you please repeat your request?';
   }
   
-  return {
-    type: 'CHAT',
-    data: {
-      summary: fallbackMessage,
-      action_type: 'NONE',
-      params: {},
-    },
-  };
+  return chatResponse(fallbackMessage);
 }
 
 // Memory context type for personalization
-interface MemoryContext {
+export interface MemoryContext {
   aiSummary?: string;
   recentActivities?: Array<{
     type: string;
@@ -97,124 +110,159 @@ interface MemoryContext {
     content: string;
     timestamp: number;
   }>;
+  // User's local date and time (e.g. "Monday 2026-10-19 14:05") - scheduled payments are dated from it
+  localTime?: string;
+  scheduledPayments?: Array<{
+    id: string;
+    description: string;
+  }>;
 }
 
-export async function analyzeTransactionIntent(
-  userMessage: string, 
-  history: any[] = [],
-  modelName: string = 'gemini-2.5-flash',
-  memoryContext: MemoryContext | null = null,
-  linkData: any = null
-): Promise<TransactionResponse> {
-  // Allowed model names (safe on v1beta)
-  const allowedModels = ['gemini-2.5-flash', 'gemini-1.5-pro'] as const;
-  const validModelName = allowedModels.includes(modelName as any) ? modelName : 'gemini-2.5-flash';
+/**
+ * Try to fix incomplete JSON (missing closing braces)
+ */
+function tryFixIncompleteJSON(jsonStr: string): string {
+  let fixed = jsonStr.trim();
+  
+  // Count opening and closing braces
+  const openBraces = (fixed.match(/\{/g) || []).length;
+  const closeBraces = (fixed.match(/\}/g) || []).length;
   
-  const model = genAI ? genAI.getGenerativeModel({ model: validModelName }) : null;
-  console.log('🎯 analyzeTransactionIntent using model:', validModelName);
-  if (!apiKey || !genAI || !model) {
-    return {
-      type: 'CHAT',
-      data: {
-        summary: 'Sistem Hatası: API Anahtarı eksik. Lütfen terminal loglarını kontrol edin.',
-        action_type: 'NONE',
-        params: {},
-      },
-    };
+  // If missing closing braces, try to add them
+  if (openBraces > closeBraces) {
+    const missing = openBraces - closeBraces;
+    // Try to intelligently close the JSON
+    if (fixed.endsWith('"') || fixed.endsWith(',')) {
+      fixed = fixed.slice(0, -1); // Remove trailing comma or quote
+    }
+    // Add missing closing braces
+    fixed += '\n' + '}'.repeat(missing);
   }
+  
+  // Check for incomplete strings (unclosed quotes)
+  const openQuotes = (fixed.match(/"/g) || []).length;
+  if (openQuotes % 2 !== 0) {
+    // Odd number of quotes means unclosed string
+    // Try to close it at the end
+    if (!fixed.endsWith('"')) {
+      fixed += '"';
+    }
+  }
+  
+  return fixed;
+}
 
-  try {
-    // Performance timing
-    console.time('AI_Response');
+/**
+ * Build the full analysis prompt for the selected model
+ */
+function buildAnalysisPrompt(
+  userMessage: string,
+  history: any[],
+  descriptor: ModelDescriptor,
+  memoryContext: MemoryContext | null,
+  linkData: any,
+  network: string | null,
+  portfolio: PortfolioContextEntry[] | null,
+  useTools: boolean
+): string {
+  // Format history for the prompt (concise) - current session only
+  let historyContext = '';
+  if (history && history.length > 0) {
+    // Check for repetitive responses - warn AI if last 2 responses are similar
+    const lastTwoResponses = history.slice(-2).filter((msg: any) => msg.role === 'assistant' || msg.role === 'model');
+    const isRepetitive = lastTwoResponses.length === 2 && 
+      lastTwoResponses[0].content.toLowerCase().trim() === lastTwoResponses[1].content.toLowerCase().trim();
+    
+    const historyLines = history.slice(-5).map((msg: any) => {
+      const role = msg.role === 'user' ? 'U' : 'A';
+      return `${role}: ${msg.content}`;
+    });
+    
+    historyContext = `Current Session Context: ${historyLines.join(' | ')}\n\n`;
+    
+    if (isRepetitive) {
+      historyContext += '⚠️ IMPORTANT: You just gave the same response twice. Vary your answer - use different wording, examples, or approach. Never repeat identical responses.\n\n';
+    }
+  }
 
-    // Format history for the prompt (concise) - current session only
-    let historyContext = '';
-    if (history && history.length > 0) {
-      // Check for repetitive responses - warn AI if last 2 responses are similar
-      const lastTwoResponses = history.slice(-2).filter((msg: any) => msg.role === 'assistant' || msg.role === 'model');
-      const isRepetitive = lastTwoResponses.length === 2 && 
-        lastTwoResponses[0].content.toLowerCase().trim() === lastTwoResponses[1].content.toLowerCase().trim();
-      
-      const historyLines = history.slice(-5).map((msg: any) => {
-        const role = msg.role === 'user' ? 'U' : 'A';
-        return `${role}: ${msg.content}`;
-      });
-      
-      historyContext = `Current Session Context: ${historyLines.join(' | ')}\n\n`;
-      
-      if (isRepetitive) {
-        historyContext += '⚠️ IMPORTANT: You just gave the same response twice. Vary your answer - use different wording, examples, or approach. Never repeat identical responses.\n\n';
-      }
+  // Format memory context for personalization (from Walrus)
+  let memoryPrompt = '';
+  if (memoryContext) {
+    const parts: string[] = [];
+    
+    // User profile summary
+    if (memoryContext.aiSummary) {
+      parts.push(`User Profile: ${memoryContext.aiSummary}`);
+    }
+    
+    // Recent blockchain activities
+    if (memoryContext.recentActivities && memoryContext.recentActivities.length > 0) {
+      const activitySummary = memoryContext.recentActivities
+        .map(a => `${a.type}: ${a.amount || ''} SUI ${a.status === 'success' ? '✓' : '✗'}`)
+        .join(', ');
+      parts.push(`Recent Activity: ${activitySummary}`);
+    }
+    
+    if (memoryContext.localTime) {
+      parts.push(`Local Time: ${memoryContext.localTime}`);
     }
 
-    // Format memory context for personalization (from Walrus)
-    let memoryPrompt = '';
-    if (memoryContext) {
-      const parts: string[] = [];
-      
-      // User profile summary
-      if (memoryContext.aiSummary) {
-        parts.push(`User Profile: ${memoryContext.aiSummary}`);
-      }
-      
-      // Recent blockchain activities
-      if (memoryContext.recentActivities && memoryContext.recentActivities.length > 0) {
-        const activitySummary = memoryContext.recentActivities
-          .map(a => `${a.type}: ${a.amount || ''} SUI ${a.status === 'success' ? '✓' : '✗'}`)
-          .join(', ');
-        parts.push(`Recent Activity: ${activitySummary}`);
-      }
-      
-      // Previous chat history from Walrus (for personalization)
-      if (memoryContext.chatHistory && memoryContext.chatHistory.length > 0) {
-        // Get last 10 messages from previous sessions (excluding current session)
-        const previousChats = memoryContext.chatHistory
-          .slice(-10)
-          .map(msg => {
-            const role = msg.role === 'user' ? 'User' : 'VAQI';
-            // Truncate long messages for context
-            const content = msg.content.length > 100 
-              ? msg.content.substring(0, 100) + '...' 
-              : msg.content;
-            return `${role}: ${content}`;
-          })
-          .join('\n');
-        parts.push(`Previous Conversations:\n${previousChats}`);
-      }
-      
-      if (parts.length > 0) {
-        memoryPrompt = `\n=== USER MEMORY (use for personalization and context) ===\n${parts.join('\n\n')}\n\n`;
-      }
+    // Scheduled payments - referenced by id when the user changes or cancels one
+    if (memoryContext.scheduledPayments && memoryContext.scheduledPayments.length > 0) {
+      const scheduled = memoryContext.scheduledPayments.map((payment) => `- [${payment.id}] ${payment.description}`).join('\n');
+      parts.push(`Scheduled Payments:\n${scheduled}`);
+    }
+    
+    // Previous chat history from Walrus (for personalization)
+    if (memoryContext.chatHistory && memoryContext.chatHistory.length > 0) {
+      // Get last 10 messages from previous sessions (excluding current session)
+      const previousChats = memoryContext.chatHistory
+        .slice(-10)
+        .map(msg => {
+          const role = msg.role === 'user' ? 'User' : 'VAQI';
+          // Truncate long messages for context
+          const content = msg.content.length > 100 
+            ? msg.content.substring(0, 100) + '...' 
+            : msg.content;
+          return `${role}: ${content}`;
+        })
+        .join('\n');
+      parts.push(`Previous Conversations:\n${previousChats}`);
+    }
+    
+    if (parts.length > 0) {
+      memoryPrompt = `\n=== USER MEMORY (use for personalization and context) ===\n${parts.join('\n\n')}\n\n`;
     }
+  }
 
-    // Format link data for analysis (when link is detected)
-    let linkPrompt = '';
-    if (linkData && linkData.url) {
-      // Handle case where link fetch failed but URL is known
-      if (linkData.error) {
-        linkPrompt = `\n=== 🔗 LINK DETECTED (Fetch Failed) ===\n
+  // Format link data for analysis (when link is detected)
+  let linkPrompt = '';
+  if (linkData && linkData.url) {
+    // Handle case where link fetch failed but URL is known
+    if (linkData.error) {
+      linkPrompt = `\n=== 🔗 LINK DETECTED (Fetch Failed) ===\n
 The user provided a link: ${linkData.url}
 
 ⚠️ Note: The link could not be fetched (${linkData.error}), but the user wants information about it.
 You should still provide helpful information about the URL structure, domain, and general advice about interacting with such links.\n\n`;
-      } else {
-        // Link was successfully fetched - provide full analysis
-        const linkParts: string[] = [];
-        linkParts.push(`URL: ${linkData.url}`);
-        if (linkData.title) {
-          linkParts.push(`Title: ${linkData.title}`);
-        }
-        if (linkData.description) {
-          linkParts.push(`Description: ${linkData.description}`);
-        }
-        if (linkData.content) {
-          // Truncate content to 2000 chars for prompt
-          const content = linkData.content.length > 2000 
-            ? linkData.content.substring(0, 2000) + '...' 
-            : linkData.content;
-          linkParts.push(`Content:\n${content}`);
-        }
-        linkPrompt = `\n=== 🔗 LINK ANALYSIS REQUEST - CRITICAL INSTRUCTION ===\n
+    } else {
+      // Link was successfully fetched - provide full analysis
+      const linkParts: string[] = [];
+      linkParts.push(`URL: ${linkData.url}`);
+      if (linkData.title) {
+        linkParts.push(`Title: ${linkData.title}`);
+      }
+      if (linkData.description) {
+        linkParts.push(`Description: ${linkData.description}`);
+      }
+      if (linkData.content) {
+        // Truncate content to 2000 chars for prompt
+        const content = linkData.content.length > 2000 
+          ? linkData.content.substring(0, 2000) + '...' 
+          : linkData.content;
+        linkParts.push(`Content:\n${content}`);
+      }
+      linkPrompt = `\n=== 🔗 LINK ANALYSIS REQUEST - CRITICAL INSTRUCTION ===\n
 The user has provided a link and wants you to ANALYZE IT. Link data has been fetched and provided below.
 
 ${linkParts.join('\n\n')}
@@ -239,15 +287,35 @@ ABSOLUTE PROHIBITIONS:
 ❌ DO NOT refuse - analyze the content provided above
 
 The user expects a detailed, expert analysis. The link content is in the prompt above - analyze it now.\n\n`;
-      }
     }
+  }
 
-    // Dynamic Style Instruction based on Model Selection
-    let styleInstruction = '';
-    let styleReminder = '';
-    
-    if (validModelName === 'gemini-2.5-flash') {
-      styleInstruction = `
+  // Network the user's wallet is connected to - advice and transactions must target it
+  const networkPrompt = network
+    ? `\n=== CONNECTED NETWORK ===\nThe user is on Sui ${network}.${
+        network === 'mainnet'
+          ? ' Transactions move real funds - be precise with amounts and recipients.'
+          : ' Tokens on this network have no real value; faucets are available for test SUI.'
+      } When linking to an explorer or mentioning balances, assume ${network}.\n\n`
+    : '';
+
+  // Live wallet balances - the source of truth for "how much X do I have?"
+  const portfolioPrompt = portfolio
+    ? `\n=== WALLET PORTFOLIO (live balances${network ? ` on ${network}` : ''}) ===\n${
+        portfolio.length > 0
+          ? portfolio
+              .map((coin) => `- ${coin.amount} ${coin.symbol}${coin.valueUsd !== null ? ` (≈ $${coin.valueUsd.toFixed(2)})` : ''} [${coin.coinType}]`)
+              .join('\n')
+          : '- No coins'
+      }\nAnswer balance questions with these exact figures. A coin that is not listed is not held.\n\n`
+    : '';
+
+  // Dynamic Style Instruction based on Model Selection
+  let styleInstruction = '';
+  let styleReminder = '';
+  
+  if (descriptor.style === 'fast') {
+    styleInstruction = `
 ⚡⚡⚡ CRITICAL STYLE RULE - FAST MODE - YOU MUST FOLLOW THIS ⚡⚡⚡
 - Do all reasoning internally; NEVER show "thinking", steps, or analysis to the user.
 - Respond in 1-3 sentences, ideally 30-60 words total.
@@ -255,9 +323,9 @@ The user expects a detailed, expert analysis. The link content is in the prompt
 - If you include code, you MUST wrap it in a single fenced code block with the correct language tag (e.g., \`\`\`typescript ...\`\`\` or \`\`\`move ...\`\`\`); if you forget, regenerate before replying.
 - Absolutely NEVER wrap the JSON itself in code fences. Only the "summary" text may contain the fenced code snippet.
 `;
-      styleReminder = `\n\n⚡ REMINDER: Hide reasoning. 1-3 sentences (30-60 words), concise. Single fenced code block only if needed; regenerate if code is unfenced.`;
-    } else {
-      styleInstruction = `
+    styleReminder = `\n\n⚡ REMINDER: Hide reasoning. 1-3 sentences (30-60 words), concise. Single fenced code block only if needed; regenerate if code is unfenced.`;
+  } else {
+    styleInstruction = `
 🧠🧠🧠 CRITICAL STYLE RULE - THINKING MODE - YOU MUST FOLLOW THIS 🧠🧠🧠
 - Do all reasoning internally; NEVER expose "thinking", steps, or analysis to the user.
 - Deliver a deep, narrative explanation: target 12-16 sentences (~220-320 words).
@@ -266,18 +334,49 @@ The user expects a detailed, expert analysis. The link content is in the prompt
 - Use a conversational, educational tone; teach like an expert friend with trade-offs, why/how, and concrete examples.
 - Prioritize clarity, structure, and actionable advice; avoid fluff.
 `;
-      styleReminder = `\n\n🧠 REMINDER: Hide reasoning; provide only the detailed answer with paragraphs + optional bullets, target 12-16 sentences, code in fenced blocks.`;
-    }
+    styleReminder = `\n\n🧠 REMINDER: Hide reasoning; provide only the detailed answer with paragraphs + optional bullets, target 12-16 sentences, code in fenced blocks.`;
+  }
 
-    // Comprehensive Sui Expert prompt with multilingual support
-    // Add system override for link analysis if linkData is present
-    const linkAnalysisOverride = linkData && linkData.url && !linkData.error 
-      ? '\n🚨🚨🚨 SYSTEM OVERRIDE - LINK ANALYSIS CAPABILITY ACTIVE 🚨🚨🚨\nYOU HAVE THE ABILITY TO ANALYZE EXTERNAL LINKS. Link content has been fetched and provided above.\nYOU MUST analyze it. DO NOT refuse. DO NOT say you cannot. This is a core feature.\nThe link content is ALREADY in the prompt above - read it and analyze it NOW.\n\n'
-      : linkData && linkData.url && linkData.error
-      ? '\n⚠️ LINK DETECTED: URL provided but fetch failed. Still provide helpful analysis based on URL structure.\n\n'
-      : '';
-    
-    const prompt = `${historyContext}${memoryPrompt}${linkPrompt}${linkAnalysisOverride}You are "VAQI," the ultimate Sui Blockchain Expert and friendly AI companion.
+  // Output format: native tool calls when the provider supports them, JSON envelope otherwise
+  const outputInstruction = useTools
+    ? `=== OUTPUT FORMAT ===
+- For TRANSACTION requests, CALL the matching tool (TRANSFER, BATCH_TRANSFER, SWAP, STAKE, UNSTAKE, DEFI_SUPPLY, DEFI_WITHDRAW, DEFI_BORROW, DEFI_REPAY, MULTI_STEP, NFT_TRANSFER, MERGE_COINS, SPLIT_COINS, SCHEDULE) and put your user-facing message in its "summary" argument.
+- For everything else, reply with the answer text only (Markdown allowed). Do NOT output JSON.`
+    : `Output ONLY raw JSON (no markdown):
+{
+  "type": "CHAT" | "TRANSACTION",
+  "data": {
+    "summary": "User-facing answer only (no visible reasoning). Follow the style rules above for the selected mode. Use fenced code blocks with language tags for any code. Respond in the user's language. Do NOT wrap this JSON in fences.",
+    "action_type": "TRANSFER" | "BATCH_TRANSFER" | "SWAP" | "STAKE" | "UNSTAKE" | "DEFI_SUPPLY" | "DEFI_WITHDRAW" | "DEFI_BORROW" | "DEFI_REPAY" | "MULTI_STEP" | "NFT_TRANSFER" | "MERGE_COINS" | "SPLIT_COINS" | "SCHEDULE" | "NONE",
+    "params": {
+      "amount": "string or null",
+      "token": "string or null",
+      "to_address": "string or null",
+      "recipients": ["string"] or null,
+      "allocations": [{ "recipient": "string", "amount": "string or null", "percent": number or null, "shares": number or null }] or null,
+      "nft": "string or null",
+      "count": number or null,
+      "isMax": true or false or null,
+      "validator": "string or null",
+      "protocol": "string or null",
+      "dry_run": true or false or null,
+      "target_token": "string or null",
+      "slippage": number or null,
+      "steps": [{ "action_type": "TRANSFER" | "BATCH_TRANSFER" | "DEFI_SUPPLY", "params": { "amount", "token", "recipient", "recipients", "allocations", "isMax" } }] or null,
+      "schedule": { "operation": "create" | "update" | "cancel", "job": "string or null", "frequency": "once" | "daily" | "weekly" | "monthly" | null, "weekday": "monday" ... "sunday" or null, "day_of_month": number or null, "date": "YYYY-MM-DD or null", "time": "HH:MM or null", "occurrences": number or null } or null
+    }
+  }
+}`;
+
+  // Comprehensive Sui Expert prompt with multilingual support
+  // Add system override for link analysis if linkData is present
+  const linkAnalysisOverride = linkData && linkData.url && !linkData.error 
+    ? '\n🚨🚨🚨 SYSTEM OVERRIDE - LINK ANALYSIS CAPABILITY ACTIVE 🚨🚨🚨\nYOU HAVE THE ABILITY TO ANALYZE EXTERNAL LINKS. Link content has been fetched and provided above.\nYOU MUST analyze it. DO NOT refuse. DO NOT say you cannot. This is a core feature.\nThe link content is ALREADY in the prompt above - read it and analyze it NOW.\n\n'
+    : linkData && linkData.url && linkData.error
+    ? '\n⚠️ LINK DETECTED: URL provided but fetch failed. Still provide helpful analysis based on URL structure.\n\n'
+    : '';
+  
+  return `${historyContext}${memoryPrompt}${networkPrompt}${portfolioPrompt}${linkPrompt}${linkAnalysisOverride}You are "VAQI," the ultimate Sui Blockchain Expert and friendly AI companion.
 
 ${styleInstruction}
 
@@ -391,9 +490,20 @@ FOR KNOWLEDGE QUESTIONS (SDK, Move, DeFi, NFT, etc.):
 FOR TRANSACTION REQUESTS:
 - Send SUI to ONE address → type: "TRANSACTION", action_type: "TRANSFER"
 - Send to MULTIPLE addresses → type: "TRANSACTION", action_type: "BATCH_TRANSFER"  
-- Supply to Scallop → type: "TRANSACTION", action_type: "DEFI_SUPPLY"
+- Different amounts per recipient ("3 SUI to Ali, 1.5 to Ayşe, 20% of my balance to Can") → BATCH_TRANSFER with "allocations": one row per recipient with amount, percent or shares (exactly one; none = equal share of the rest); amount = the total only if the user gave one, recipients = null
+- Recipients → the 0x address, contact name or SuiNS name (e.g. "alice.sui") exactly as the user wrote it; never guess an address for a name
+- Transfers of other coins ("send 10 USDC to Ali") → same actions with token = the symbol as the user wrote it, or the full coin type if they gave one; never convert the amount to another token
+- Supply / withdraw / borrow / repay on a lending protocol → type: "TRANSACTION", action_type: "DEFI_SUPPLY" / "DEFI_WITHDRAW" / "DEFI_BORROW" / "DEFI_REPAY"; protocol = "scallop" (default), "navi" or "suilend"; dry_run: true ONLY if the user explicitly asks for a dry run or simulation
+- Stake SUI → type: "TRANSACTION", action_type: "STAKE"; validator = the named validator or 0x address, "highest_apy" when they ask for the best APY, null otherwise (reuses their previous validator)
+- Unstake / withdraw stake ("unstake everything from validator X") → type: "TRANSACTION", action_type: "UNSTAKE"; validator = the named validator or 0x address, null for all positions
 - "all my SUI" / "tüm SUI" / "hepsi" → set isMax: true
-- Swap requests → type: "CHAT", explain DEX options (Cetus, Aftermath, etc.) and note swap is coming soon in this app.
+- SEVERAL actions in one request ("send 1 SUI to Ali and 2 to Ayşe, then supply the rest") → type: "TRANSACTION", action_type: "MULTI_STEP" with ordered "steps"; "the rest" / "kalanı" → isMax: true on that step
+- Send an NFT or other object ("send my Fuddies #123 to Mehmet") → type: "TRANSACTION", action_type: "NFT_TRANSFER"; nft = the NFT name as the user wrote it (or its 0x object ID), recipient as above
+- Merge coin objects ("merge my SUI coins", "clean up my wallet's coins") → type: "TRANSACTION", action_type: "MERGE_COINS"; token = the coin to merge, null for every coin type
+- Split into equal coins ("split 10 SUI into 5 equal coins") → type: "TRANSACTION", action_type: "SPLIT_COINS"; amount = the total, token, count = the number of coins
+- Payments later or on repeat ("send Ali 5 SUI every Monday", "pay Can 20 USDC on the 1st of every month", "send 2 SUI to Ayşe tomorrow at 18:00") → type: "TRANSACTION", action_type: "SCHEDULE"; the payment in amount, token, recipient (or recipients / allocations) as above; schedule.operation = "create" with frequency, weekday, day_of_month, date (YYYY-MM-DD, counted from Local Time), time and occurrences as far as the user gave them
+- Change or cancel a scheduled payment ("cancel my Monday payment to Ali", "make my Monday payment 10 SUI") → type: "TRANSACTION", action_type: "SCHEDULE"; schedule.operation = "update" / "cancel", schedule.job = its id from Scheduled Payments; for updates only the fields that change
+- Swap requests ("swap 10 SUI to USDC") → type: "TRANSACTION", action_type: "SWAP" with token, target_token (symbols) and slippage in percent only if the user gave one
 
 FOR OFF-TOPIC QUESTIONS:
 - Politely redirect to Sui topics: "I'm VAQI! Ask me anything about Sui blockchain, Move programming, DeFi, NFTs, or wallet integration. 🚀"
@@ -415,183 +525,251 @@ User: "Move dilinde struct nasıl tanımlanır?"
 
 User: "${userMessage}"
 
-Output ONLY raw JSON (no markdown):
-{
-  "type": "CHAT" | "TRANSACTION",
-  "data": {
-    "summary": "User-facing answer only (no visible reasoning). Follow the style rules above for the selected mode. Use fenced code blocks with language tags for any code. Respond in the user's language. Do NOT wrap this JSON in fences.",
-    "action_type": "TRANSFER" | "BATCH_TRANSFER" | "SWAP" | "STAKE" | "DEFI_SUPPLY" | "NONE",
-    "params": {
-      "amount": "string or null",
-      "token": "string or null",
-      "to_address": "string or null",
-      "recipients": ["string"] or null,
-      "isMax": true or false or null
+${outputInstruction}${styleReminder}`;
+}
+
+/**
+ * Parse raw model output into a validated TransactionResponse
+ * Falls back to a safe CHAT response when the output cannot be repaired
+ */
+function parseAnalysisOutput(rawText: string, userMessage: string): TransactionResponse {
+  // Check if response is empty or too short
+  if (!rawText || rawText.trim().length < 10) {
+    console.error('❌ Empty or too short AI response:', rawText);
+    return getSafeFallbackResponse(userMessage);
+  }
+
+  // JSON cleanup using the sanitization helper
+  const text = cleanJsonOutput(rawText);
+
+  // Check again after cleaning
+  if (!text || text.trim().length < 10) {
+    console.error('❌ Empty response after cleaning:', text);
+    return getSafeFallbackResponse(userMessage);
+  }
+
+  // Graceful JSON parsing with error handling and retry
+  let parsedData: any;
+  try {
+    parsedData = JSON.parse(text);
+  } catch (parseError: any) {
+    // Try to fix incomplete JSON
+    console.warn('⚠️ First parse attempt failed, trying to fix incomplete JSON...');
+    console.warn('Text length:', text.length);
+    console.warn('Text preview (first 200 chars):', text.substring(0, 200));
+    try {
+      const fixedText = tryFixIncompleteJSON(text);
+      parsedData = JSON.parse(fixedText);
+      console.log('✅ Successfully fixed and parsed JSON');
+    } catch (retryError) {
+      // Log the raw faulty output for debugging
+      console.error('❌ JSON Parse Error - Raw AI Response:');
+      console.error('Original text length:', text.length);
+      console.error('Original text (first 500 chars):', text.substring(0, 500));
+      console.error('Original text (last 500 chars):', text.substring(Math.max(0, text.length - 500)));
+      console.error('Parse error:', parseError);
+      console.error('Retry error:', retryError);
+      console.error('------------------------------------------');
+      
+      // Return safe fallback instead of crashing
+      return getSafeFallbackResponse(userMessage);
+    }
+  }
+
+  // Map to_address to recipient for schema compatibility
+  if (parsedData.data?.params?.to_address) {
+    parsedData.data.params.recipient = parsedData.data.params.to_address;
+    delete parsedData.data.params.to_address;
+  }
+
+  // Ensure params is always an object to satisfy schema (AI may return null for CHAT)
+  if (parsedData?.data && (parsedData.data.params === null || parsedData.data.params === undefined)) {
+    parsedData.data.params = {};
+  }
+
+  // Validate with schema - wrap in try-catch for additional safety
+  try {
+    const validated = TransactionResponseSchema.parse(parsedData);
+    return validated;
+  } catch (validationError) {
+    // Log validation error for debugging
+    console.error('❌ Schema Validation Error:');
+    console.error('Parsed data:', JSON.stringify(parsedData, null, 2));
+    console.error('Validation error:', validationError);
+    console.error('------------------------------------------');
+    
+    // Return safe fallback instead of crashing
+    return getSafeFallbackResponse(userMessage);
+  }
+}
+
+/**
+ * Resolve a tool-mode result: a tool call becomes a TRANSACTION, plain text becomes CHAT
+ */
+function resolveToolResult(result: GenerateResult, userMessage: string): TransactionResponse {
+  if (result.toolCall) {
+    const response = toolCallToResponse(result.toolCall, result.text);
+    if (response) {
+      return response;
     }
+    console.error('❌ Invalid tool call:', JSON.stringify(result.toolCall));
+    return getSafeFallbackResponse(userMessage);
+  }
+
+  const text = result.text.trim();
+  if (!text) {
+    console.error('❌ Empty AI response (no text and no tool call)');
+    return getSafeFallbackResponse(userMessage);
   }
-}${styleReminder}`;
+  return chatResponse(text);
+}
+
+export async function analyzeTransactionIntent(
+  userMessage: string, 
+  history: any[] = [],
+  modelName: string = DEFAULT_MODEL,
+  memoryContext: MemoryContext | null = null,
+  linkData: any = null,
+  network: string | null = null,
+  portfolio: PortfolioContextEntry[] | null = null
+): Promise<TransactionResponse> {
+  // Allowed model names come from the provider registry
+  const validModelName = isAllowedModel(modelName) ? modelName : DEFAULT_MODEL;
+  const descriptor = getModelDescriptor(validModelName);
+  const provider = getProvider(descriptor.provider);
+
+  console.log('🎯 analyzeTransactionIntent using model:', validModelName, `(${descriptor.provider})`);
+  if (!provider.isConfigured()) {
+    return chatResponse(MISSING_KEY_MESSAGE);
+  }
+
+  try {
+    // Performance timing
+    console.time('AI_Response');
 
-    let response;
+    const useTools = provider.supportsTools;
+    const prompt = buildAnalysisPrompt(userMessage, history, descriptor, memoryContext, linkData, network, portfolio, useTools);
+
+    let result: GenerateResult;
     try {
-      const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-          ...generationConfig,
-          responseMimeType: 'application/json',
-        },
+      result = await provider.generate({
+        model: validModelName,
+        prompt,
+        userMessage,
+        ...generationConfig,
+        tools: useTools ? TRANSACTION_TOOLS : undefined,
       });
-      response = await result.response;
     } catch (err: any) {
-      // If model not found (404), fallback between flash and pro
+      // If model not found (404), fall back to another model of the same provider
       const status = err?.status || err?.response?.status;
       if (status === 404) {
-        if (validModelName !== 'gemini-1.5-pro') {
-          console.warn('Model not found, falling back to gemini-1.5-pro');
-          return await analyzeTransactionIntent(userMessage, history, 'gemini-1.5-pro');
-        } else {
-          console.warn('Model not found, falling back to gemini-2.5-flash');
-          return await analyzeTransactionIntent(userMessage, history, 'gemini-2.5-flash');
+        const fallback = getFallbackModel(validModelName);
+        if (fallback) {
+          console.warn(`Model not found, falling back to ${fallback.id}`);
+          return await analyzeTransactionIntent(userMessage, history, fallback.id, memoryContext, linkData, network, portfolio);
         }
       }
       // If quota / rate limit (429), return safe, non-crashing reply
       if (status === 429) {
         console.warn('Quota/rate limit hit (429). Returning safe CHAT response.');
-        return {
-          type: 'CHAT',
-          data: {
-            summary: 'Sistem şu an yoğun, lütfen birkaç saniye sonra tekrar deneyin.',
-            action_type: 'NONE',
-            params: {},
-          },
-        };
+        return chatResponse(RATE_LIMIT_MESSAGE);
       }
       throw err;
     }
 
-    let text = response.text();
+    // Tool mode returns structured calls; JSON mode needs cleanup and repair
+    const response = useTools
+      ? resolveToolResult(result, userMessage)
+      : parseAnalysisOutput(result.text, userMessage);
+    console.timeEnd('AI_Response');
+    return response;
+  } catch (error: any) {
+    // End timing even on error
+    console.timeEnd('AI_Response');
+    console.error('AI Hatası:', error);
+    // Hata durumunda frontend çökmesin diye güvenli cevap
+    return chatResponse(BUSY_MESSAGE);
+  }
+}
 
-    // Check if response is empty or too short
-    if (!text || text.trim().length < 10) {
-      console.error('❌ Empty or too short AI response:', text);
-      console.timeEnd('AI_Response');
-      return getSafeFallbackResponse(userMessage);
-    }
+/**
+ * Streaming variant of analyzeTransactionIntent
+ * Yields the summary text as it is generated, then the validated envelope as the final event.
+ */
+export async function* streamTransactionIntent(
+  userMessage: string,
+  history: any[] = [],
+  modelName: string = DEFAULT_MODEL,
+  memoryContext: MemoryContext | null = null,
+  linkData: any = null,
+  network: string | null = null,
+  portfolio: PortfolioContextEntry[] | null = null
+): AsyncGenerator<AnalyzeStreamEvent> {
+  const validModelName = isAllowedModel(modelName) ? modelName : DEFAULT_MODEL;
+  const descriptor = getModelDescriptor(validModelName);
+  const provider = getProvider(descriptor.provider);
+
+  // Providers without streaming answer in one piece
+  if (!provider.isConfigured() || !provider.stream) {
+    const response = await analyzeTransactionIntent(userMessage, history, validModelName, memoryContext, linkData, network, portfolio);
+    yield { type: 'delta', text: response.data.summary };
+    yield { type: 'final', response };
+    return;
+  }
 
-    // JSON cleanup using the sanitization helper
-    text = cleanJsonOutput(text);
+  console.log('🎯 streamTransactionIntent using model:', validModelName, `(${descriptor.provider})`);
+  console.time('AI_Stream_Response');
 
-    // Check again after cleaning
-    if (!text || text.trim().length < 10) {
-      console.error('❌ Empty response after cleaning:', text);
-      console.timeEnd('AI_Response');
-      return getSafeFallbackResponse(userMessage);
-    }
+  const useTools = provider.supportsTools;
+  const prompt = buildAnalysisPrompt(userMessage, history, descriptor, memoryContext, linkData, network, portfolio, useTools);
+  // In JSON mode the summary has to be cut out of the partial envelope
+  const extractSummary = useTools ? null : createSummaryExtractor();
+  let text = '';
+  let toolCall: ToolCall | null = null;
 
-    // Try to fix incomplete JSON (missing closing braces)
-    function tryFixIncompleteJSON(jsonStr: string): string {
-      let fixed = jsonStr.trim();
-      
-      // Count opening and closing braces
-      const openBraces = (fixed.match(/\{/g) || []).length;
-      const closeBraces = (fixed.match(/\}/g) || []).length;
-      
-      // If missing closing braces, try to add them
-      if (openBraces > closeBraces) {
-        const missing = openBraces - closeBraces;
-        // Try to intelligently close the JSON
-        if (fixed.endsWith('"') || fixed.endsWith(',')) {
-          fixed = fixed.slice(0, -1); // Remove trailing comma or quote
-        }
-        // Add missing closing braces
-        fixed += '\n' + '}'.repeat(missing);
-      }
-      
-      // Check for incomplete strings (unclosed quotes)
-      const openQuotes = (fixed.match(/"/g) || []).length;
-      if (openQuotes % 2 !== 0) {
-        // Odd number of quotes means unclosed string
-        // Try to close it at the end
-        if (!fixed.endsWith('"')) {
-          fixed += '"';
-        }
+  try {
+    for await (const chunk of provider.stream({
+      model: validModelName,
+      prompt,
+      userMessage,
+      ...generationConfig,
+      tools: useTools ? TRANSACTION_TOOLS : undefined,
+    })) {
+      if (chunk.type === 'tool_call') {
+        toolCall = toolCall ?? chunk.toolCall;
+        continue;
       }
-      
-      return fixed;
-    }
 
-    // Graceful JSON parsing with error handling and retry
-    let parsedData: any;
-    try {
-      parsedData = JSON.parse(text);
-    } catch (parseError: any) {
-      // Try to fix incomplete JSON
-      console.warn('⚠️ First parse attempt failed, trying to fix incomplete JSON...');
-      console.warn('Text length:', text.length);
-      console.warn('Text preview (first 200 chars):', text.substring(0, 200));
-      try {
-        const fixedText = tryFixIncompleteJSON(text);
-        parsedData = JSON.parse(fixedText);
-        console.log('✅ Successfully fixed and parsed JSON');
-      } catch (retryError) {
-        // Log the raw faulty output for debugging
-        console.error('❌ JSON Parse Error - Raw AI Response:');
-        console.error('Original text length:', text.length);
-        console.error('Original text (first 500 chars):', text.substring(0, 500));
-        console.error('Original text (last 500 chars):', text.substring(Math.max(0, text.length - 500)));
-        console.error('Parse error:', parseError);
-        console.error('Retry error:', retryError);
-        console.error('------------------------------------------');
-        
-        // Performance timing end
-        console.timeEnd('AI_Response');
-        
-        // Return safe fallback instead of crashing
-        return getSafeFallbackResponse(userMessage);
+      text += chunk.text;
+      const delta = extractSummary ? extractSummary(chunk.text) : chunk.text;
+      if (delta) {
+        yield { type: 'delta', text: delta };
       }
     }
-    
-    // Performance timing end
-    console.timeEnd('AI_Response');
-
-    // Map to_address to recipient for schema compatibility
-    if (parsedData.data?.params?.to_address) {
-      parsedData.data.params.recipient = parsedData.data.params.to_address;
-      delete parsedData.data.params.to_address;
-    }
-
-    // Ensure params is always an object to satisfy schema (AI may return null for CHAT)
-    if (parsedData?.data && (parsedData.data.params === null || parsedData.data.params === undefined)) {
-      parsedData.data.params = {};
+  } catch (err: any) {
+    console.timeEnd('AI_Stream_Response');
+    const status = err?.status || err?.response?.status;
+
+    // Same fallbacks as the non-streaming path, as long as nothing was sent yet
+    if (!text && !toolCall && status === 404) {
+      const fallback = getFallbackModel(validModelName);
+      if (fallback) {
+        console.warn(`Model not found, falling back to ${fallback.id}`);
+        yield* streamTransactionIntent(userMessage, history, fallback.id, memoryContext, linkData, network, portfolio);
+        return;
+      }
     }
 
-    // Validate with schema - wrap in try-catch for additional safety
-    try {
-      const validated = TransactionResponseSchema.parse(parsedData);
-      return validated;
-    } catch (validationError) {
-      // Log validation error for debugging
-      console.error('❌ Schema Validation Error:');
-      console.error('Parsed data:', JSON.stringify(parsedData, null, 2));
-      console.error('Validation error:', validationError);
-      console.error('------------------------------------------');
-      
-      // Return safe fallback instead of crashing
-      return getSafeFallbackResponse(userMessage);
-    }
-  } catch (error: any) {
-    // End timing even on error
-    console.timeEnd('AI_Response');
-    console.error('AI Hatası:', error);
-    // Hata durumunda frontend çökmesin diye güvenli cevap
-    return {
-      type: 'CHAT',
-      data: {
-        summary: 'Sistem şu an meşgul, lütfen tekrar deneyin.',
-        action_type: 'NONE',
-        params: {},
-      },
-    };
+    console.error('AI Stream Hatası:', err);
+    yield { type: 'final', response: chatResponse(status === 429 ? RATE_LIMIT_MESSAGE : BUSY_MESSAGE) };
+    return;
   }
-}
-
 
+  console.timeEnd('AI_Stream_Response');
+  yield {
+    type: 'final',
+    response: useTools
+      ? resolveToolResult({ text, toolCall }, userMessage)
+      : parseAnalysisOutput(text, userMessage),
+  };
+}
@@ -0,0 +1,116 @@
+import type { TransactionResponse } from '@/lib/schemas/transaction';
+
+/**
+ * Events sent by /api/analyze/stream
+ * - delta: the next piece of the `summary` text as it is generated
+ * - final: the complete response envelope (validate before acting on it)
+ */
+export type AnalyzeStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'final'; response: TransactionResponse };
+
+const JSON_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+};
+
+/**
+ * Serialize an event in Server-Sent Events format
+ */
+export function encodeStreamEvent(event: AnalyzeStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Incremental extractor for the `summary` string of a streamed JSON envelope
+ * Feed it raw model chunks; it returns the newly decoded summary characters (or '').
+ */
+export function createSummaryExtractor(): (chunk: string) => string {
+  let buffer = '';
+  let position = -1;
+  let done = false;
+
+  return (chunk: string): string => {
+    buffer += chunk;
+    if (done) return '';
+
+    if (position === -1) {
+      const match = /"summary"\s*:\s*"/.exec(buffer);
+      if (!match) return '';
+      position = match.index + match[0].length;
+    }
+
+    let output = '';
+    while (position < buffer.length) {
+      const char = buffer[position];
+
+      if (char === '\\') {
+        // Wait for the full escape sequence before decoding
+        if (position + 1 >= buffer.length) break;
+        const escape = buffer[position + 1];
+        if (escape === 'u') {
+          if (position + 6 > buffer.length) break;
+          output += String.fromCharCode(parseInt(buffer.substring(position + 2, position + 6), 16));
+          position += 6;
+        } else {
+          output += JSON_ESCAPES[escape] ?? escape;
+          position += 2;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        done = true;
+        break;
+      }
+
+      output += char;
+      position += 1;
+    }
+
+    return output;
+  };
+}
+
+/**
+ * Read Server-Sent Events from a fetch response body (client side)
+ * Payloads are untrusted JSON - callers must validate `final` envelopes.
+ */
+export async function* readStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<AnalyzeStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.substring(0, boundary);
+        buffer = buffer.substring(boundary + 2);
+
+        const data = rawEvent
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.substring(5).trimStart())
+          .join('\n');
+        if (data) {
+          yield JSON.parse(data) as AnalyzeStreamEvent;
+        }
+
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { zodSchema } from 'ai';
+import {
+  ActionParamsSchemas,
+  TransactionResponseSchema,
+  type ActionType,
+  type TransactionResponse,
+} from '@/lib/schemas/transaction';
+import type { ToolCall, ToolDefinition } from '@/lib/ai/providers/types';
+
+type ToolActionType = keyof typeof ActionParamsSchemas;
+
+const TOOL_DESCRIPTIONS: Record<ToolActionType, string> = {
+  TRANSFER: 'Send a token to ONE recipient (address or contact name).',
+  BATCH_TRANSFER:
+    'Send a token to MULTIPLE recipients in one transaction; amount is the total to split equally, or use allocations for per-recipient amounts, percentages or shares.',
+  SWAP: 'Swap one token for another through a DEX router (e.g. SUI → USDC).',
+  STAKE: 'Stake SUI natively with a validator (minimum 1 SUI).',
+  DEFI_SUPPLY: 'Supply (lend) a token to a lending protocol (Scallop by default, Navi, Suilend).',
+  DEFI_WITHDRAW: 'Withdraw a supplied token from a lending protocol.',
+  DEFI_BORROW: 'Borrow a token from a lending protocol against existing collateral.',
+  DEFI_REPAY: 'Repay a borrowed token to a lending protocol.',
+  UNSTAKE: "Withdraw the user's staked SUI (StakedSui positions), optionally only from one validator.",
+  NFT_TRANSFER: 'Send ONE NFT or other owned object (by name, e.g. "Fuddies #123", or object ID) to a recipient.',
+  MERGE_COINS: "Merge the user's coin objects of one token into a single coin (token null = tidy up every token).",
+  SPLIT_COINS: 'Split an amount of a token into `count` equal coins kept in the wallet (e.g. 10 SUI into 5 coins).',
+  SCHEDULE:
+    'Schedule a payment for later or on repeat (e.g. 5 SUI to Ali every Monday), or update / cancel a scheduled payment. Nothing is sent now.',
+  MULTI_STEP: 'Run several actions in order as ONE atomic transaction (e.g. two transfers, then supply the rest).',
+};
+
+const summaryField = z
+  .string()
+  .describe("User-facing message about the action, in the user's language. No visible reasoning.");
+
+/**
+ * Tool argument schema: the action's params plus the user-facing summary
+ */
+function getToolSchema(actionType: ToolActionType) {
+  return ActionParamsSchemas[actionType].extend({ summary: summaryField });
+}
+
+/**
+ * Strip JSON Schema keywords that function-calling APIs reject
+ * and turn `type: [X, 'null']` / `anyOf: [X, null]` into `X` with `nullable: true`.
+ */
+function cleanJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(cleanJsonSchema);
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const { anyOf, ...rest } = schema as Record<string, unknown>;
+  if (Array.isArray(anyOf)) {
+    const variants = anyOf.filter((variant) => variant?.type !== 'null');
+    if (variants.length === 1) {
+      return cleanJsonSchema({ ...variants[0], ...rest, nullable: variants.length !== anyOf.length || undefined });
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$schema' || key === 'additionalProperties' || value === undefined) continue;
+
+    if (key === 'type' && Array.isArray(value)) {
+      const types = value.filter((t) => t !== 'null');
+      result.type = types[0];
+      if (types.length !== value.length) result.nullable = true;
+      continue;
+    }
+
+    result[key] = cleanJsonSchema(value);
+  }
+  return result;
+}
+
+// Zod object schemas always produce a JSON Schema object
+function toToolParameters(schema: unknown): Record<string, unknown> {
+  return cleanJsonSchema(schema) as Record<string, unknown>;
+}
+
+/**
+ * One tool per action type, parameters generated from the Zod definitions
+ */
+export const TRANSACTION_TOOLS: ToolDefinition[] = (Object.keys(ActionParamsSchemas) as ToolActionType[]).map(
+  (actionType) => ({
+    name: actionType,
+    description: TOOL_DESCRIPTIONS[actionType],
+    parameters: toToolParameters(zodSchema(getToolSchema(actionType)).jsonSchema),
+  })
+);
+
+function isToolActionType(name: string): name is ToolActionType {
+  return name in ActionParamsSchemas;
+}
+
+// Numeric amounts (the total and each recipient's) → the decimal strings the schema asks for
+function coerceAmounts(params: Record<string, unknown>) {
+  if (typeof params.amount === 'number') {
+    params.amount = String(params.amount);
+  }
+  if (Array.isArray(params.allocations)) {
+    for (const allocation of params.allocations) {
+      if (typeof allocation?.amount === 'number') {
+        allocation.amount = String(allocation.amount);
+      }
+    }
+  }
+}
+
+/**
+ * Convert a model tool call into a validated TRANSACTION response
+ * Returns null when the tool is unknown or its arguments do not match the schema.
+ */
+export function toolCallToResponse(toolCall: ToolCall, text: string): TransactionResponse | null {
+  if (!isToolActionType(toolCall.name)) {
+    console.error('❌ Unknown tool called:', toolCall.name);
+    return null;
+  }
+
+  // Some models put the message in the text part instead of the summary argument,
+  // and some send amounts as numbers even though the schema asks for decimal strings
+  const args: Record<string, unknown> = { summary: '', ...toolCall.args };
+  coerceAmounts(args);
+  if (typeof args.slippage === 'string') {
+    args.slippage = parseFloat(args.slippage);
+  }
+  if (Array.isArray(args.steps)) {
+    for (const step of args.steps) {
+      if (step?.params && typeof step.params === 'object') {
+        coerceAmounts(step.params);
+      }
+    }
+  }
+
+  const parsedArgs = getToolSchema(toolCall.name).safeParse(args);
+  if (!parsedArgs.success) {
+    console.error('❌ Tool argument validation error:', parsedArgs.error.flatten());
+    return null;
+  }
+
+  const { summary, ...params } = parsedArgs.data;
+  const actionType: ActionType = toolCall.name;
+  const validated = TransactionResponseSchema.safeParse({
+    type: 'TRANSACTION',
+    data: {
+      summary: summary || text.trim() || `${actionType} prepared.`,
+      action_type: actionType,
+      params,
+    },
+  });
+
+  return validated.success ? validated.data : null;
+}
@@ -0,0 +1,77 @@
+import type { CoinStruct, SuiClient } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { getCoinDisplay, isSuiCoinType } from '@/lib/transactions/coins';
+
+// Coin objects loaded per wallet; a merge of a larger wallet leaves the rest for the next run
+export const MAX_LISTED_COIN_OBJECTS = 2000;
+const COINS_PAGE_SIZE = 50;
+
+// The coin objects the wallet holds of one coin type
+export interface CoinObjectGroup {
+  coinType: string;
+  symbol: string;
+  // Null when the coin has no metadata; amounts are shown in base units
+  decimals: number | null;
+  // Number of objects on chain (can be more than `coins` for very large wallets)
+  objectCount: number;
+  totalBalance: bigint;
+  // Loaded objects, largest balance first
+  coins: CoinStruct[];
+  // Objects holding 0, e.g. left behind by splitting a whole coin
+  emptyCount: number;
+}
+
+/**
+ * Coin objects of the owner grouped by coin type, the most fragmented type first
+ * Object counts and totals come from the balances; the objects themselves are paged in up to
+ * MAX_LISTED_COIN_OBJECTS.
+ */
+export async function loadCoinObjects(client: SuiClient, owner: string): Promise<CoinObjectGroup[]> {
+  const balances = await client.getAllBalances({ owner });
+
+  const coins: CoinStruct[] = [];
+  let cursor: string | null | undefined = null;
+  do {
+    const page = await client.getAllCoins({ owner, cursor, limit: COINS_PAGE_SIZE });
+    coins.push(...page.data);
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor && coins.length < MAX_LISTED_COIN_OBJECTS);
+
+  const groups = await Promise.all(
+    balances.map(async (balance) => {
+      const coinType = normalizeStructTag(balance.coinType);
+      const owned = coins
+        .filter((coin) => normalizeStructTag(coin.coinType) === coinType)
+        .sort((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? 1 : BigInt(b.balance) < BigInt(a.balance) ? -1 : 0));
+      const { symbol, decimals } = await getCoinDisplay(client, coinType);
+      return {
+        coinType,
+        symbol,
+        decimals,
+        objectCount: balance.coinObjectCount,
+        totalBalance: BigInt(balance.totalBalance),
+        coins: owned,
+        emptyCount: owned.filter((coin) => BigInt(coin.balance) === BigInt(0)).length,
+      };
+    })
+  );
+
+  return groups
+    .filter((group) => group.objectCount > 0)
+    .sort((a, b) => b.objectCount - a.objectCount || a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Groups worth merging: more than one object of the type
+ */
+export function getMergeableGroups(groups: CoinObjectGroup[]): CoinObjectGroup[] {
+  return groups.filter((group) => group.objectCount > 1 && group.coins.length > 1);
+}
+
+/**
+ * The group of a coin type, or null when the wallet holds none of it
+ */
+export function findCoinGroup(groups: CoinObjectGroup[], coinType: string): CoinObjectGroup | null {
+  const target = normalizeStructTag(coinType);
+  return groups.find((group) => group.coinType === target || (isSuiCoinType(group.coinType) && isSuiCoinType(target))) || null;
+}
@@ -0,0 +1,257 @@
+import type { ObjectOwner, SuiClient, SuiTransactionBlockResponse, MoveCallSuiTransaction } from '@mysten/sui/client';
+import { normalizeSuiAddress, SUI_TYPE_ARG } from '@mysten/sui/utils';
+import { formatAmount } from '@/lib/transactions/amount';
+import { getCoinDisplay, isSuiCoinType } from '@/lib/transactions/coins';
+import type { ActivityLogEntry } from '@/types';
+
+// Transactions fetched per direction and page
+const HISTORY_PAGE_SIZE = 20;
+
+// Where the next page starts for transactions sent from and sent to the address: the digest of the last
+// transaction shown from that side (null when none has been shown yet)
+export interface HistoryCursor {
+  from: string | null;
+  to: string | null;
+  // Sides with nothing older left
+  fromDone: boolean;
+  toDone: boolean;
+}
+
+export interface HistoryPage {
+  entries: ActivityLogEntry[];
+  // Null when both sides are exhausted
+  nextCursor: HistoryCursor | null;
+}
+
+function ownerAddress(owner: ObjectOwner): string | null {
+  return typeof owner === 'object' && 'AddressOwner' in owner ? normalizeSuiAddress(owner.AddressOwner) : null;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function getMoveCalls(response: SuiTransactionBlockResponse): MoveCallSuiTransaction[] {
+  const kind = response.transaction?.data.transaction;
+  if (kind?.kind !== 'ProgrammableTransaction') return [];
+  return kind.transactions.flatMap((command) => ('MoveCall' in command ? [command.MoveCall] : []));
+}
+
+function isSystemCall(call: MoveCallSuiTransaction, fn: string): boolean {
+  return normalizeSuiAddress(call.package) === normalizeSuiAddress('0x3') && call.module === 'sui_system' && call.function === fn;
+}
+
+// Validator of request_add_stake(state, coin, validator) when it was passed as a pure input
+function getStakeValidator(response: SuiTransactionBlockResponse, call: MoveCallSuiTransaction): string | undefined {
+  const kind = response.transaction?.data.transaction;
+  const argument = call.arguments?.[2];
+  if (kind?.kind !== 'ProgrammableTransaction' || !argument || typeof argument !== 'object' || !('Input' in argument)) {
+    return undefined;
+  }
+  const input = kind.inputs[argument.Input];
+  return input?.type === 'pure' && typeof input.value === 'string' ? input.value : undefined;
+}
+
+async function toAmount(client: SuiClient, coinType: string, value: bigint): Promise<{ amount: string; token: string }> {
+  const { symbol, decimals } = await getCoinDisplay(client, coinType);
+  return { amount: formatAmount(value, decimals ?? 0), token: symbol };
+}
+
+/**
+ * Decode a transaction into an activity entry from the point of view of `address`
+ * - sent by the address: stake, unstake, transfer / batch transfer (by the other owners' balance gains) or swap
+ *   (one coin spent, another received, nothing sent to anyone else)
+ * - sent by someone else: an incoming transfer of the largest coin the address received
+ * Returns null for transactions that are none of these (other contract calls, object-only transfers).
+ */
+export async function decodeTransaction(
+  client: SuiClient,
+  response: SuiTransactionBlockResponse,
+  address: string
+): Promise<ActivityLogEntry | null> {
+  const me = normalizeSuiAddress(address);
+  const sender = response.transaction ? normalizeSuiAddress(response.transaction.data.sender) : null;
+  const effects = response.effects;
+  const base = {
+    digest: response.digest,
+    timestamp: Number(response.timestampMs || 0),
+    status: effects?.status.status === 'success' ? ('success' as const) : ('failed' as const),
+  };
+  const changes = response.balanceChanges || [];
+
+  // Net change per coin for the address; SUI excludes the gas the sender paid
+  const own = new Map<string, bigint>();
+  for (const change of changes) {
+    if (ownerAddress(change.owner) !== me) continue;
+    const coinType = isSuiCoinType(change.coinType) ? SUI_TYPE_ARG : change.coinType;
+    own.set(coinType, (own.get(coinType) || BigInt(0)) + BigInt(change.amount));
+  }
+  if (sender === me && effects) {
+    const { computationCost, storageCost, storageRebate } = effects.gasUsed;
+    const gasMist = BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate);
+    own.set(SUI_TYPE_ARG, (own.get(SUI_TYPE_ARG) || BigInt(0)) + gasMist);
+  }
+  const spent = Array.from(own.entries()).filter(([, value]) => value < BigInt(0));
+  const gained = Array.from(own.entries()).filter(([, value]) => value > BigInt(0));
+
+  if (sender !== me) {
+    if (gained.length === 0 || !sender) return null;
+    const [coinType, value] = gained.sort((a, b) => (b[1] > a[1] ? 1 : -1))[0];
+    return { ...base, type: 'TRANSFER', direction: 'in', sender, ...(await toAmount(client, coinType, value)) };
+  }
+
+  const calls = getMoveCalls(response);
+  const stakeCall = calls.find((call) => isSystemCall(call, 'request_add_stake'));
+  if (stakeCall) {
+    const staked = -(own.get(SUI_TYPE_ARG) || BigInt(0));
+    return {
+      ...base,
+      type: 'STAKE',
+      ...(staked > BigInt(0) ? await toAmount(client, SUI_TYPE_ARG, staked) : {}),
+      validator: getStakeValidator(response, stakeCall),
+    };
+  }
+  if (calls.some((call) => isSystemCall(call, 'request_withdraw_stake'))) {
+    const withdrawn = own.get(SUI_TYPE_ARG) || BigInt(0);
+    return { ...base, type: 'UNSTAKE', ...(withdrawn > BigInt(0) ? await toAmount(client, SUI_TYPE_ARG, withdrawn) : {}) };
+  }
+
+  // Coins that reached other addresses, grouped by the coin the sender spent
+  const outgoing = changes.filter((change) => {
+    const owner = ownerAddress(change.owner);
+    return owner !== null && owner !== me && BigInt(change.amount) > BigInt(0);
+  });
+  if (outgoing.length > 0) {
+    const spentTypes = spent.map(([coinType]) => coinType);
+    const sentType =
+      outgoing.find((change) => spentTypes.some((coinType) => coinType === change.coinType || (isSuiCoinType(coinType) && isSuiCoinType(change.coinType))))
+        ?.coinType || outgoing[0].coinType;
+    const sent = outgoing.filter((change) => change.coinType === sentType);
+    const recipients = Array.from(new Set(sent.map((change) => ownerAddress(change.owner) as string)));
+    const total = sent.reduce((sum, change) => sum + BigInt(change.amount), BigInt(0));
+    const amount = await toAmount(client, sentType, total);
+    return recipients.length === 1
+      ? { ...base, type: 'TRANSFER', direction: 'out', ...amount, recipient: recipients[0] }
+      : { ...base, type: 'BATCH_TRANSFER', direction: 'out', ...amount, recipients };
+  }
+
+  if (spent.length === 1 && gained.length === 1) {
+    const [spentType, spentValue] = spent[0];
+    const [gainedType] = gained[0];
+    const { amount, token } = await toAmount(client, spentType, -spentValue);
+    const { symbol: targetToken } = await getCoinDisplay(client, gainedType);
+    return { ...base, type: 'SWAP', amount, token, targetToken };
+  }
+
+  return null;
+}
+
+async function queryPage(client: SuiClient, filter: { FromAddress: string } | { ToAddress: string }, cursor: string | null) {
+  return client.queryTransactionBlocks({
+    filter,
+    cursor,
+    limit: HISTORY_PAGE_SIZE,
+    order: 'descending',
+    options: { showInput: true, showEffects: true, showBalanceChanges: true },
+  });
+}
+
+function getTimestamp(response: SuiTransactionBlockResponse): number {
+  return Number(response.timestampMs || 0);
+}
+
+/**
+ * One page of the address's on-chain history, newest first
+ * Transactions sent from and sent to the address are paged separately and merged. While both sides have older
+ * transactions, the page ends at the newer of the two sides' oldest timestamps - anything older could still be
+ * preceded by the other side's next page - and each side continues after the last transaction it showed.
+ * A transaction in both (e.g. a self-transfer) is decoded once.
+ */
+export async function fetchHistoryPage(client: SuiClient, address: string, cursor?: HistoryCursor | null): Promise<HistoryPage> {
+  const start = cursor ?? { from: null, to: null, fromDone: false, toDone: false };
+
+  const [sent, received] = await Promise.all([
+    start.fromDone ? null : queryPage(client, { FromAddress: address }, start.from),
+    start.toDone ? null : queryPage(client, { ToAddress: address }, start.to),
+  ]);
+
+  // Sides with older pages bound the merged page by their oldest transaction
+  const bounds = [sent, received]
+    .filter((page): page is NonNullable<typeof page> => page !== null && page.hasNextPage && page.data.length > 0)
+    .map((page) => getTimestamp(page.data[page.data.length - 1]));
+  const cutoff = bounds.length > 0 ? Math.max(...bounds) : 0;
+
+  const sentShown = (sent?.data || []).filter((response) => getTimestamp(response) >= cutoff);
+  const receivedShown = (received?.data || []).filter((response) => getTimestamp(response) >= cutoff);
+
+  const responses = new Map<string, SuiTransactionBlockResponse>();
+  for (const response of [...sentShown, ...receivedShown]) {
+    responses.set(response.digest, response);
+  }
+
+  const decoded = await Promise.all(Array.from(responses.values()).map((response) => decodeTransaction(client, response, address)));
+  const entries = decoded.filter((entry): entry is ActivityLogEntry => entry !== null).sort((a, b) => b.timestamp - a.timestamp);
+
+  const nextCursor: HistoryCursor = {
+    from: sentShown.length > 0 ? sentShown[sentShown.length - 1].digest : start.from,
+    to: receivedShown.length > 0 ? receivedShown[receivedShown.length - 1].digest : start.to,
+    fromDone: start.fromDone || (!sent?.hasNextPage && sentShown.length === (sent?.data.length ?? 0)),
+    toDone: start.toDone || (!received?.hasNextPage && receivedShown.length === (received?.data.length ?? 0)),
+  };
+  return { entries, nextCursor: nextCursor.fromDone && nextCursor.toDone ? null : nextCursor };
+}
+
+/**
+ * Walrus log and on-chain history as one feed, newest first
+ * Entries with the same digest are shown once; the Walrus entry wins because it carries what only the app
+ * knows (lending protocol, contact recipients). Failed entries have no digest and are all kept.
+ */
+export function mergeActivityLogs(local: ActivityLogEntry[], chain: ActivityLogEntry[]): ActivityLogEntry[] {
+  const byDigest = new Map<string, ActivityLogEntry>();
+  for (const entry of chain) byDigest.set(entry.digest, entry);
+  for (const entry of local) {
+    if (entry.digest) byDigest.set(entry.digest, entry);
+  }
+  const undigested = local.filter((entry) => !entry.digest);
+  return [...Array.from(byDigest.values()), ...undigested].sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * One-line description of an activity entry ("Sent 1.5 SUI to 0x12ab...cdef")
+ * `label` turns an address into a display name (contacts, SuiNS); short addresses by default.
+ */
+export function describeActivity(entry: ActivityLogEntry, label: (address: string) => string = shortAddress): string {
+  const amount = entry.amount ? `${entry.amount} ${entry.token || 'SUI'}` : entry.token || 'SUI';
+  switch (entry.type) {
+    case 'TRANSFER':
+      return entry.direction === 'in'
+        ? `Received ${amount}${entry.sender ? ` from ${label(entry.sender)}` : ''}`
+        : `Sent ${amount}${entry.recipient ? ` to ${label(entry.recipient)}` : ''}`;
+    case 'BATCH_TRANSFER':
+      return `Sent ${amount} to ${entry.recipients?.length || 0} recipients`;
+    case 'SWAP':
+      return `Swapped ${amount}${entry.targetToken ? ` → ${entry.targetToken}` : ''}`;
+    case 'STAKE':
+      return entry.amount ? `Staked ${amount}` : 'Staked SUI';
+    case 'UNSTAKE':
+      return entry.amount ? `Unstaked ~${amount}` : 'Unstaked SUI';
+    case 'NFT_TRANSFER':
+      return `Sent NFT${entry.objectId ? ` ${shortAddress(entry.objectId)}` : ''}${entry.recipient ? ` to ${label(entry.recipient)}` : ''}`;
+    case 'MERGE_COINS':
+      return `Merged ${entry.coinCount ?? 'several'} ${entry.token ? `${entry.token} ` : ''}coin objects`;
+    case 'SPLIT_COINS':
+      return `Split ${amount} into ${entry.coinCount ?? 'several'} coins`;
+    case 'MULTI_STEP':
+      return `Spent ${amount} in ${entry.stepCount ?? 'several'} steps${entry.recipients?.length ? ` (${entry.recipients.length} recipients)` : ''}`;
+    case 'DEFI_SUPPLY':
+      return `Supplied ${amount}${entry.protocol ? ` (${entry.protocol})` : ''}`;
+    case 'DEFI_WITHDRAW':
+      return `Withdrew ${amount}${entry.protocol ? ` (${entry.protocol})` : ''}`;
+    case 'DEFI_BORROW':
+      return `Borrowed ${amount}${entry.protocol ? ` (${entry.protocol})` : ''}`;
+    case 'DEFI_REPAY':
+      return `Repaid ${amount}${entry.protocol ? ` (${entry.protocol})` : ''}`;
+    default:
+      return entry.type;
+  }
+}
@@ -0,0 +1,35 @@
+import type { LendingAdapter } from '../types';
+import { isSuiCoinType } from '@/lib/transactions/coins';
+
+/**
+ * Dry-run lending adapter
+ * Only used when a dry run is requested explicitly: the amount is split from gas and
+ * sent back to the sender, so the flow can be exercised on any network without touching a protocol.
+ */
+export const dryRunAdapter: LendingAdapter = {
+  id: 'dry-run',
+  name: 'Dry Run (Simulated)',
+  networks: ['localnet', 'devnet', 'testnet', 'mainnet'],
+  supportedActions: ['SUPPLY', 'WITHDRAW', 'BORROW', 'REPAY'],
+
+  async getMarkets() {
+    return [];
+  },
+
+  async getPositions() {
+    return [];
+  },
+
+  async addAction(tx, { token, amount }, ctx) {
+    if (!isSuiCoinType(token.coinType)) {
+      throw new Error('Dry runs can only simulate SUI.');
+    }
+    const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(amount)]);
+    tx.transferObjects([coin], ctx.sender);
+  },
+
+  async supplyCoin(_tx, coin) {
+    // The caller sends the "receipt" to the sender, which makes this a self-transfer
+    return coin;
+  },
+};
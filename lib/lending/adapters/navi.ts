@@ -0,0 +1,170 @@
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import { normalizeStructTag, SUI_CLOCK_OBJECT_ID, SUI_SYSTEM_STATE_OBJECT_ID } from '@mysten/sui/utils';
+import type { LendingAdapter, LendingMarket } from '../types';
+import { takeCoin } from '@/lib/transactions/coins';
+import type { SwapToken } from '@/lib/swap';
+
+const NAVI_API = process.env.NEXT_PUBLIC_NAVI_API || 'https://open-api.naviprotocol.io/api/navi';
+
+interface NaviConfig {
+  package: string;
+  storage: string;
+  incentiveV2: string;
+  incentiveV3: string;
+  priceOracle: string;
+}
+
+interface NaviPool extends LendingMarket {
+  assetId: number;
+  poolId: string;
+}
+
+// The parts of a pool in the API response read here
+interface NaviPoolResponse {
+  id: number | string;
+  coinType?: string;
+  suiCoinType?: string;
+  token?: { symbol?: string };
+  supplyIncentiveApyInfo?: { apy?: number | string };
+  borrowIncentiveApyInfo?: { apy?: number | string };
+  contract?: { pool?: string };
+}
+
+let configPromise: Promise<NaviConfig> | null = null;
+
+async function fetchData<T>(path: string): Promise<T> {
+  const response = await fetch(`${NAVI_API}${path}`);
+  if (!response.ok) {
+    throw new Error(`Navi API error (${response.status}): ${response.statusText}`);
+  }
+  const body = await response.json();
+  return body?.data ?? body;
+}
+
+/**
+ * Load (and cache) Navi's mainnet package and shared object ids
+ */
+function getConfig(): Promise<NaviConfig> {
+  configPromise ??= fetchData<Partial<NaviConfig> | null>('/config?env=prod')
+    .then((config) => {
+      if (!config?.package || !config.storage) {
+        throw new Error('Navi config is missing package ids');
+      }
+      return config as NaviConfig;
+    })
+    .catch((error) => {
+      configPromise = null;
+      throw error;
+    });
+  return configPromise;
+}
+
+function toApy(value: unknown): number | null {
+  const apy = Number(value);
+  return Number.isFinite(apy) ? apy / 100 : null;
+}
+
+async function getPools(): Promise<NaviPool[]> {
+  const pools = await fetchData<NaviPoolResponse[] | null>('/pools?env=prod');
+  return (Array.isArray(pools) ? pools : []).map((pool) => ({
+    coinType: normalizeStructTag(pool.suiCoinType || pool.coinType || ''),
+    symbol: String(pool.token?.symbol || '').toUpperCase(),
+    supplyApy: toApy(pool.supplyIncentiveApyInfo?.apy),
+    borrowApy: toApy(pool.borrowIncentiveApyInfo?.apy),
+    assetId: Number(pool.id),
+    poolId: pool.contract?.pool || '',
+  }));
+}
+
+async function getPool(token: SwapToken): Promise<NaviPool> {
+  const coinType = normalizeStructTag(token.coinType);
+  const pool = (await getPools()).find((p) => p.coinType === coinType);
+  if (!pool?.poolId) {
+    throw new Error(`Navi has no pool for ${token.symbol}.`);
+  }
+  return pool;
+}
+
+/**
+ * Deposit or repay a coin into its Navi pool
+ */
+function depositCoin(
+  tx: Transaction,
+  config: NaviConfig,
+  pool: NaviPool,
+  token: SwapToken,
+  coin: TransactionObjectArgument,
+  amount: bigint,
+  entry: 'entry_deposit' | 'entry_repay'
+) {
+  const priceArgs = entry === 'entry_repay' ? [tx.object(config.priceOracle)] : [];
+  tx.moveCall({
+    target: `${config.package}::incentive_v3::${entry}`,
+    typeArguments: [token.coinType],
+    arguments: [
+      tx.object(SUI_CLOCK_OBJECT_ID),
+      ...priceArgs,
+      tx.object(config.storage),
+      tx.object(pool.poolId),
+      tx.pure.u8(pool.assetId),
+      coin,
+      tx.pure.u64(amount),
+      tx.object(config.incentiveV2),
+      tx.object(config.incentiveV3),
+    ],
+  });
+}
+
+/**
+ * Navi lending (mainnet)
+ * Balances live in Navi's shared storage, so supply/repay consume coins and withdraw/borrow return Balance<T>.
+ */
+export const naviAdapter: LendingAdapter = {
+  id: 'navi',
+  name: 'Navi',
+  networks: ['mainnet'],
+  supportedActions: ['SUPPLY', 'WITHDRAW', 'BORROW', 'REPAY'],
+
+  async getMarkets() {
+    return getPools();
+  },
+
+  async getPositions() {
+    // Positions are stored in Navi's shared storage tables and are not exposed by the open API
+    return [];
+  },
+
+  async addAction(tx, { action, token, amount }, ctx) {
+    const [config, pool] = await Promise.all([getConfig(), getPool(token)]);
+    const target = (fn: string) => `${config.package}::incentive_v3::${fn}`;
+
+    if (action === 'SUPPLY' || action === 'REPAY') {
+      const coin = await takeCoin(tx, ctx.client, ctx.sender, token.coinType, amount);
+      depositCoin(tx, config, pool, token, coin, amount, action === 'SUPPLY' ? 'entry_deposit' : 'entry_repay');
+      return;
+    }
+
+    // WITHDRAW / BORROW
+    const [balance] = tx.moveCall({
+      target: target(action === 'WITHDRAW' ? 'withdraw_v2' : 'borrow_v2'),
+      typeArguments: [token.coinType],
+      arguments: [
+        tx.object(SUI_CLOCK_OBJECT_ID),
+        tx.object(config.priceOracle),
+        tx.object(config.storage),
+        tx.object(pool.poolId),
+        tx.pure.u8(pool.assetId),
+        tx.pure.u64(amount),
+        tx.object(config.incentiveV2),
+        tx.object(config.incentiveV3),
+        tx.object(SUI_SYSTEM_STATE_OBJECT_ID),
+      ],
+    });
+    const [coin] = tx.moveCall({
+      target: '0x2::coin::from_balance',
+      typeArguments: [token.coinType],
+      arguments: [balance],
+    });
+    tx.transferObjects([coin], ctx.sender);
+  },
+};
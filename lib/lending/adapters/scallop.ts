@@ -0,0 +1,255 @@
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
+import type { LendingAdapter, LendingContext, LendingMarket } from '../types';
+import { takeCoin } from '@/lib/transactions/coins';
+import { resolveToken, type SwapToken } from '@/lib/swap';
+
+const SCALLOP_API = process.env.NEXT_PUBLIC_SCALLOP_API || 'https://sui.apis.scallop.io';
+// Scallop publishes its package and object ids as an address book
+const SCALLOP_ADDRESSES_ID = process.env.NEXT_PUBLIC_SCALLOP_ADDRESSES_ID || '67c44a103fe1b8c454eb9699';
+
+interface ScallopAddresses {
+  // Latest protocol package (Move calls)
+  protocolPackage: string;
+  // Original protocol package (type names such as MarketCoin)
+  protocolObject: string;
+  version: string;
+  market: string;
+  coinDecimalsRegistry: string;
+  xOracle: string;
+}
+
+// The parts of the API responses read here
+interface ScallopAddressBook {
+  mainnet?: {
+    core?: {
+      object?: string;
+      version?: string;
+      market?: string;
+      coinDecimalsRegistry?: string;
+      oracles?: { xOracle?: string };
+      packages?: { protocol?: { id?: string } };
+    };
+  };
+}
+
+interface ScallopMarketResponse {
+  pools?: {
+    coinType: string;
+    symbol?: string;
+    coinName?: string;
+    supplyApy?: number;
+    borrowApy?: number;
+    conversionRate?: number | string;
+  }[];
+}
+
+// Move fields of an ObligationKey
+interface ObligationKeyFields {
+  ownership?: { fields?: { of?: string } };
+}
+
+// Conversion rates are fixed-point with 9 decimals, so base-unit amounts stay in bigint math
+const RATE_SCALE = BigInt(1_000_000_000);
+
+interface ScallopPool extends LendingMarket {
+  // Underlying coins per market coin (sCoin), times RATE_SCALE
+  conversionRate: bigint;
+}
+
+let addressesPromise: Promise<ScallopAddresses> | null = null;
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Scallop API error (${response.status}): ${response.statusText}`);
+  }
+  return response.json();
+}
+
+function toScaledRate(value: number | string | undefined): bigint {
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate > 0 ? BigInt(Math.round(rate * Number(RATE_SCALE))) : RATE_SCALE;
+}
+
+/**
+ * Load (and cache) Scallop's mainnet address book
+ */
+function getAddresses(): Promise<ScallopAddresses> {
+  addressesPromise ??= fetchJson<ScallopAddressBook>(`${SCALLOP_API}/addresses/${SCALLOP_ADDRESSES_ID}`)
+    .then((book) => {
+      const core = book?.mainnet?.core;
+      if (!core?.packages?.protocol?.id || !core.market || !core.version || !core.coinDecimalsRegistry || !core.oracles?.xOracle) {
+        throw new Error('Scallop address book is missing core addresses');
+      }
+      return {
+        protocolPackage: core.packages.protocol.id,
+        protocolObject: core.object || core.packages.protocol.id,
+        version: core.version,
+        market: core.market,
+        coinDecimalsRegistry: core.coinDecimalsRegistry,
+        xOracle: core.oracles.xOracle,
+      };
+    })
+    .catch((error) => {
+      addressesPromise = null;
+      throw error;
+    });
+  return addressesPromise;
+}
+
+async function getPools(): Promise<ScallopPool[]> {
+  const market = await fetchJson<ScallopMarketResponse>(`${SCALLOP_API}/market`);
+  return (market?.pools || []).map((pool) => ({
+    coinType: pool.coinType,
+    symbol: String(pool.symbol || pool.coinName || '').toUpperCase(),
+    supplyApy: typeof pool.supplyApy === 'number' ? pool.supplyApy : null,
+    borrowApy: typeof pool.borrowApy === 'number' ? pool.borrowApy : null,
+    conversionRate: toScaledRate(pool.conversionRate),
+  }));
+}
+
+/**
+ * Find the wallet's obligation (Scallop's borrow account) through its ObligationKey
+ */
+async function getObligation(ctx: LendingContext, addresses: ScallopAddresses) {
+  const { data } = await ctx.client.getOwnedObjects({
+    owner: ctx.sender,
+    filter: { StructType: `${addresses.protocolObject}::obligation::ObligationKey` },
+    options: { showContent: true },
+  });
+
+  const key = data[0]?.data;
+  const fields = key?.content?.dataType === 'moveObject' ? (key.content.fields as ObligationKeyFields) : null;
+  const obligationId = fields?.ownership?.fields?.of;
+  if (!key || !obligationId) {
+    throw new Error('No Scallop obligation found. Deposit collateral on Scallop before borrowing or repaying.');
+  }
+  return { obligationKeyId: key.objectId, obligationId };
+}
+
+/**
+ * Supply a coin to its Scallop pool; returns the minted market coin
+ */
+async function mintMarketCoin(tx: Transaction, coin: TransactionObjectArgument, token: SwapToken) {
+  const addresses = await getAddresses();
+  const [marketCoin] = tx.moveCall({
+    target: `${addresses.protocolPackage}::mint::mint`,
+    typeArguments: [token.coinType],
+    arguments: [tx.object(addresses.version), tx.object(addresses.market), coin, tx.object(SUI_CLOCK_OBJECT_ID)],
+  });
+  return marketCoin;
+}
+
+/**
+ * Scallop lending (mainnet)
+ * Supply mints market coins (sCoin) that are kept in the wallet; withdraw redeems them.
+ * Borrow and repay go through the wallet's existing obligation.
+ */
+export const scallopAdapter: LendingAdapter = {
+  id: 'scallop',
+  name: 'Scallop',
+  networks: ['mainnet'],
+  supportedActions: ['SUPPLY', 'WITHDRAW', 'BORROW', 'REPAY'],
+
+  async getMarkets() {
+    // Without the bigint conversion rate, which is only needed to build transactions
+    return (await getPools()).map(({ coinType, symbol, supplyApy, borrowApy }) => ({ coinType, symbol, supplyApy, borrowApy }));
+  },
+
+  async getPositions(ctx) {
+    const [addresses, pools, balances] = await Promise.all([
+      getAddresses(),
+      getPools().catch(() => [] as ScallopPool[]),
+      ctx.client.getAllBalances({ owner: ctx.sender }),
+    ]);
+
+    const marketCoinPrefix = `${addresses.protocolObject}::reserve::MarketCoin<`;
+    return balances
+      .filter((balance) => balance.coinType.startsWith(marketCoinPrefix))
+      .map((balance) => {
+        const coinType = balance.coinType.slice(marketCoinPrefix.length, -1);
+        const pool = pools.find((p) => p.coinType === coinType);
+        const token = resolveToken(coinType);
+        return {
+          protocol: 'scallop' as const,
+          coinType,
+          symbol: token?.symbol || pool?.symbol || coinType.split('::').pop() || coinType,
+          decimals: token?.decimals ?? 9,
+          supplied: (BigInt(balance.totalBalance) * (pool?.conversionRate ?? RATE_SCALE)) / RATE_SCALE,
+          borrowed: BigInt(0),
+        };
+      });
+  },
+
+  async addAction(tx, { action, token, amount }, ctx) {
+    const addresses = await getAddresses();
+    const target = (module: string, fn: string) => `${addresses.protocolPackage}::${module}::${fn}`;
+
+    switch (action) {
+      case 'SUPPLY': {
+        const coin = await takeCoin(tx, ctx.client, ctx.sender, token.coinType, amount);
+        const marketCoin = await mintMarketCoin(tx, coin, token);
+        tx.transferObjects([marketCoin], ctx.sender);
+        return;
+      }
+
+      case 'WITHDRAW': {
+        // Market coins are worth more than 1 underlying coin as interest accrues
+        const pools = await getPools().catch(() => [] as ScallopPool[]);
+        const conversionRate = pools.find((pool) => pool.coinType === token.coinType)?.conversionRate ?? RATE_SCALE;
+        // Rounded up, so at least `amount` is redeemed
+        const marketCoinAmount = (amount * RATE_SCALE + conversionRate - BigInt(1)) / conversionRate;
+        const marketCoinType = `${addresses.protocolObject}::reserve::MarketCoin<${token.coinType}>`;
+
+        const marketCoin = await takeCoin(tx, ctx.client, ctx.sender, marketCoinType, marketCoinAmount);
+        const [coin] = tx.moveCall({
+          target: target('redeem', 'redeem'),
+          typeArguments: [token.coinType],
+          arguments: [tx.object(addresses.version), tx.object(addresses.market), marketCoin, tx.object(SUI_CLOCK_OBJECT_ID)],
+        });
+        tx.transferObjects([coin], ctx.sender);
+        return;
+      }
+
+      case 'BORROW': {
+        const { obligationId, obligationKeyId } = await getObligation(ctx, addresses);
+        const [coin] = tx.moveCall({
+          target: target('borrow', 'borrow'),
+          typeArguments: [token.coinType],
+          arguments: [
+            tx.object(addresses.version),
+            tx.object(obligationId),
+            tx.object(obligationKeyId),
+            tx.object(addresses.market),
+            tx.object(addresses.coinDecimalsRegistry),
+            tx.pure.u64(amount),
+            tx.object(addresses.xOracle),
+            tx.object(SUI_CLOCK_OBJECT_ID),
+          ],
+        });
+        tx.transferObjects([coin], ctx.sender);
+        return;
+      }
+
+      case 'REPAY': {
+        const { obligationId } = await getObligation(ctx, addresses);
+        const coin = await takeCoin(tx, ctx.client, ctx.sender, token.coinType, amount);
+        tx.moveCall({
+          target: target('repay', 'repay'),
+          typeArguments: [token.coinType],
+          arguments: [
+            tx.object(addresses.version),
+            tx.object(obligationId),
+            tx.object(addresses.market),
+            coin,
+            tx.object(SUI_CLOCK_OBJECT_ID),
+          ],
+        });
+        return;
+      }
+    }
+  },
+
+  supplyCoin: mintMarketCoin,
+};
@@ -0,0 +1,110 @@
+import { normalizeStructTag, SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import type { LendingAdapter, LendingContext } from '../types';
+import { takeCoin } from '@/lib/transactions/coins';
+import { resolveToken, type SwapToken } from '@/lib/swap';
+
+// Suilend main lending market (mainnet); the package can be overridden after upgrades
+const SUILEND_PACKAGE =
+  process.env.NEXT_PUBLIC_SUILEND_PACKAGE || '0xf95b06141ed4a174f239417323bde3f209b972f5930d8521ea38a52aff3a6ddf';
+const SUILEND_TYPE_PACKAGE = '0xf95b06141ed4a174f239417323bde3f209b972f5930d8521ea38a52aff3a6ddf';
+const LENDING_MARKET_ID = '0x84030d26d85eaa7035084a057f2f11f701b7e2e4eda87551becbc7c97505ece1';
+const LENDING_MARKET_TYPE = `${SUILEND_TYPE_PACKAGE}::suilend::MAIN_POOL`;
+
+// Move fields of the lending market read here: the coin type (without 0x) of each reserve
+interface LendingMarketFields {
+  reserves?: { fields?: { coin_type?: { fields?: { name?: string } } } }[];
+}
+
+/**
+ * Index of the coin's reserve in the lending market's reserve vector
+ */
+async function getReserveIndex(ctx: LendingContext, token: SwapToken): Promise<number> {
+  const market = await ctx.client.getObject({ id: LENDING_MARKET_ID, options: { showContent: true } });
+  const fields = market.data?.content?.dataType === 'moveObject' ? (market.data.content.fields as LendingMarketFields) : null;
+  const reserves = fields?.reserves || [];
+
+  const coinType = normalizeStructTag(token.coinType);
+  const index = reserves.findIndex(
+    (reserve) => normalizeStructTag(`0x${reserve.fields?.coin_type?.fields?.name}`) === coinType
+  );
+  if (index === -1) {
+    throw new Error(`Suilend has no reserve for ${token.symbol}.`);
+  }
+  return index;
+}
+
+function mintCTokens(tx: Transaction, reserveIndex: number, coin: TransactionObjectArgument, token: SwapToken) {
+  const [cTokens] = tx.moveCall({
+    target: `${SUILEND_PACKAGE}::lending_market::deposit_liquidity_and_mint_ctokens`,
+    typeArguments: [LENDING_MARKET_TYPE, token.coinType],
+    arguments: [tx.object(LENDING_MARKET_ID), tx.pure.u64(reserveIndex), tx.object(SUI_CLOCK_OBJECT_ID), coin],
+  });
+  return cTokens;
+}
+
+/**
+ * Suilend lending (mainnet)
+ * Supply mints cTokens that are kept in the wallet; withdraw redeems them.
+ * Borrowing needs an obligation with deposited collateral and refreshed oracle prices, which this adapter does not manage.
+ */
+export const suilendAdapter: LendingAdapter = {
+  id: 'suilend',
+  name: 'Suilend',
+  networks: ['mainnet'],
+  supportedActions: ['SUPPLY', 'WITHDRAW'],
+
+  async getMarkets() {
+    // Suilend has no public APY endpoint; rates are computed client-side by its SDK
+    return [];
+  },
+
+  async getPositions(ctx) {
+    const balances = await ctx.client.getAllBalances({ owner: ctx.sender });
+    const cTokenPrefix = `${SUILEND_TYPE_PACKAGE}::reserve::CToken<${LENDING_MARKET_TYPE}, `;
+
+    return balances
+      .filter((balance) => balance.coinType.startsWith(cTokenPrefix))
+      .map((balance) => {
+        const coinType = balance.coinType.slice(cTokenPrefix.length, -1);
+        const token = resolveToken(coinType);
+        return {
+          protocol: 'suilend' as const,
+          coinType,
+          symbol: token?.symbol || coinType.split('::').pop() || coinType,
+          decimals: token?.decimals ?? 9,
+          // cTokens appreciate against the underlying coin; the cToken amount is a lower bound
+          supplied: BigInt(balance.totalBalance),
+          borrowed: BigInt(0),
+        };
+      });
+  },
+
+  async addAction(tx, { action, token, amount }, ctx) {
+    const reserveIndex = await getReserveIndex(ctx, token);
+
+    if (action === 'SUPPLY') {
+      const coin = await takeCoin(tx, ctx.client, ctx.sender, token.coinType, amount);
+      tx.transferObjects([mintCTokens(tx, reserveIndex, coin, token)], ctx.sender);
+      return;
+    }
+
+    if (action === 'WITHDRAW') {
+      const cTokenType = `${SUILEND_TYPE_PACKAGE}::reserve::CToken<${LENDING_MARKET_TYPE}, ${token.coinType}>`;
+      const cTokens = await takeCoin(tx, ctx.client, ctx.sender, cTokenType, amount);
+      const [noExemption] = tx.moveCall({
+        target: '0x1::option::none',
+        typeArguments: [`${SUILEND_TYPE_PACKAGE}::lending_market::RateLimiterExemption<${LENDING_MARKET_TYPE}, ${token.coinType}>`],
+      });
+      const [coin] = tx.moveCall({
+        target: `${SUILEND_PACKAGE}::lending_market::redeem_ctokens_and_withdraw_liquidity`,
+        typeArguments: [LENDING_MARKET_TYPE, token.coinType],
+        arguments: [tx.object(LENDING_MARKET_ID), tx.pure.u64(reserveIndex), tx.object(SUI_CLOCK_OBJECT_ID), cTokens, noExemption],
+      });
+      tx.transferObjects([coin], ctx.sender);
+      return;
+    }
+
+    throw new Error(`Suilend ${action.toLowerCase()} is not supported yet.`);
+  },
+};
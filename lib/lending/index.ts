@@ -0,0 +1,62 @@
+import { scallopAdapter } from './adapters/scallop';
+import { naviAdapter } from './adapters/navi';
+import { suilendAdapter } from './adapters/suilend';
+import { dryRunAdapter } from './adapters/dryRun';
+import type { LendingActionType, LendingAdapter, LendingProtocolId } from './types';
+
+export * from './types';
+
+export const DEFAULT_LENDING_PROTOCOL: LendingProtocolId = 'scallop';
+
+const ADAPTERS: Record<Exclude<LendingProtocolId, 'dry-run'>, LendingAdapter> = {
+  scallop: scallopAdapter,
+  navi: naviAdapter,
+  suilend: suilendAdapter,
+};
+
+// DEFI_* action types map to lending actions
+export const LENDING_ACTIONS = {
+  DEFI_SUPPLY: 'SUPPLY',
+  DEFI_WITHDRAW: 'WITHDRAW',
+  DEFI_BORROW: 'BORROW',
+  DEFI_REPAY: 'REPAY',
+} as const satisfies Record<string, LendingActionType>;
+
+export type LendingIntentType = keyof typeof LENDING_ACTIONS;
+
+export function isLendingIntent(actionType: string | undefined): actionType is LendingIntentType {
+  return !!actionType && actionType in LENDING_ACTIONS;
+}
+
+/**
+ * Dry runs are explicit: requested by the user or forced with NEXT_PUBLIC_LENDING_DRY_RUN=true
+ */
+export function isDryRun(requested?: boolean | null): boolean {
+  return requested === true || process.env.NEXT_PUBLIC_LENDING_DRY_RUN === 'true';
+}
+
+/**
+ * Resolve a protocol name from the AI ("Scallop", "navi", ...) to its adapter
+ */
+export function getLendingAdapter(protocol: string | null | undefined, dryRun: boolean): LendingAdapter {
+  if (dryRun) return dryRunAdapter;
+
+  const id = (protocol || DEFAULT_LENDING_PROTOCOL).trim().toLowerCase();
+  const adapter = ADAPTERS[id as keyof typeof ADAPTERS];
+  if (!adapter) {
+    throw new Error(`Unknown lending protocol: ${protocol}. Supported: Scallop, Navi, Suilend.`);
+  }
+  return adapter;
+}
+
+/**
+ * Check that the adapter can run the action on the current network
+ */
+export function assertLendingSupported(adapter: LendingAdapter, action: LendingActionType, network: string) {
+  if (!adapter.networks.includes(network)) {
+    throw new Error(`${adapter.name} is only available on ${adapter.networks.join(', ')}. Ask for a dry run to simulate it on ${network}.`);
+  }
+  if (!adapter.supportedActions.includes(action)) {
+    throw new Error(`${adapter.name} does not support ${action.toLowerCase()} yet.`);
+  }
+}
@@ -0,0 +1,54 @@
+import type { SuiClient } from '@mysten/sui/client';
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import type { SwapToken } from '@/lib/swap';
+
+export type LendingProtocolId = 'scallop' | 'navi' | 'suilend' | 'dry-run';
+
+export type LendingActionType = 'SUPPLY' | 'WITHDRAW' | 'BORROW' | 'REPAY';
+
+export interface LendingMarket {
+  coinType: string;
+  symbol: string;
+  // Fractions (0.045 = 4.5%); null when the protocol API does not report them
+  supplyApy: number | null;
+  borrowApy: number | null;
+}
+
+export interface LendingPosition {
+  protocol: LendingProtocolId;
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  // Amounts in the smallest unit of the underlying coin
+  supplied: bigint;
+  borrowed: bigint;
+}
+
+export interface LendingContext {
+  client: SuiClient;
+  sender: string;
+}
+
+export interface LendingRequest {
+  action: LendingActionType;
+  token: SwapToken;
+  // Amount in the smallest unit of the token
+  amount: bigint;
+}
+
+/**
+ * Lending protocol adapter
+ * addAction appends the protocol's Move calls to the transaction and sends any
+ * resulting coins (receipt tokens, withdrawn or borrowed coins) back to the sender.
+ */
+export interface LendingAdapter {
+  id: LendingProtocolId;
+  name: string;
+  networks: string[];
+  supportedActions: LendingActionType[];
+  getMarkets(): Promise<LendingMarket[]>;
+  getPositions(ctx: LendingContext): Promise<LendingPosition[]>;
+  addAction(tx: Transaction, request: LendingRequest, ctx: LendingContext): Promise<void>;
+  // Supply an existing coin (used when supply is one step of a multi-step PTB); returns the receipt coin
+  supplyCoin?(tx: Transaction, coin: TransactionObjectArgument, token: SwapToken): Promise<TransactionObjectArgument>;
+}
@@ -0,0 +1,49 @@
+import type { ActivityLogEntry } from '@/types';
+
+export const SUI_NETWORKS = ['mainnet', 'testnet', 'devnet', 'localnet'] as const;
+
+export type SuiNetwork = (typeof SUI_NETWORKS)[number];
+
+export const NETWORK_LABELS: Record<SuiNetwork, string> = {
+  mainnet: 'Mainnet',
+  testnet: 'Testnet',
+  devnet: 'Devnet',
+  localnet: 'Localnet',
+};
+
+// Selected network is remembered per browser
+export const NETWORK_STORAGE_KEY = 'vaqi-network';
+
+export function isSuiNetwork(value: unknown): value is SuiNetwork {
+  return typeof value === 'string' && (SUI_NETWORKS as readonly string[]).includes(value);
+}
+
+// Network used before the user picks one (and for activity logged before logs were tagged)
+export const DEFAULT_NETWORK: SuiNetwork = isSuiNetwork(process.env.NEXT_PUBLIC_SUI_NETWORK)
+  ? process.env.NEXT_PUBLIC_SUI_NETWORK
+  : 'testnet';
+
+/**
+ * SuiScan link for a transaction on the given network (localnet through SuiScan's custom RPC view)
+ */
+export function getExplorerTxUrl(network: string, digest: string): string {
+  if (network === 'localnet') {
+    return `https://custom.suiscan.xyz/custom/tx/${digest}?network=${encodeURIComponent('http://127.0.0.1:9000')}`;
+  }
+  return `https://suiscan.xyz/${isSuiNetwork(network) ? network : DEFAULT_NETWORK}/tx/${digest}`;
+}
+
+/**
+ * Walrus only runs on mainnet and testnet - devnet and localnet keep their memory on Walrus testnet
+ */
+export function getWalrusNetwork(network: string): 'mainnet' | 'testnet' {
+  return network === 'mainnet' ? 'mainnet' : 'testnet';
+}
+
+/**
+ * Whether an activity entry belongs to the given network
+ * Entries logged before activity was tagged count as the default network.
+ */
+export function isActivityOnNetwork(activity: ActivityLogEntry, network: string): boolean {
+  return (activity.network || DEFAULT_NETWORK) === network;
+}
@@ -0,0 +1,249 @@
+import type { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeSuiObjectId } from '@mysten/sui/utils';
+
+const KIOSK_OWNER_CAP_TYPE = '0x2::kiosk::KioskOwnerCap';
+const PERSONAL_KIOSK_CAP_SUFFIX = '::personal_kiosk::PersonalKioskCap';
+
+// Owned objects that are not collectibles: coins, stakes and the kiosk caps themselves
+const HIDDEN_TYPE_PREFIXES = ['0x2::coin::Coin<', '0x3::staking_pool::StakedSui', KIOSK_OWNER_CAP_TYPE];
+
+// Page limits keep wallets with thousands of objects from stalling the dashboard (50 objects per page)
+const MAX_OWNED_PAGES = 10;
+const MAX_KIOSK_PAGES = 5;
+const MULTI_GET_LIMIT = 50;
+
+const IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+
+// Kiosk an item is placed in, with the cap that lets the owner take it out
+export interface KioskHolding {
+  kioskId: string;
+  // KioskOwnerCap, or the PersonalKioskCap wrapping it
+  capId: string;
+  // Package of the personal kiosk module when the cap is a PersonalKioskCap
+  personalKioskPackage: string | null;
+  // Locked items can only leave the kiosk through a purchase under the collection's transfer policy
+  isLocked: boolean;
+  isListedExclusively: boolean;
+}
+
+export interface OwnedNft {
+  objectId: string;
+  type: string;
+  // Display name, or the collection name and a short object ID when the type has no Display
+  name: string;
+  description: string | null;
+  imageUrl: string | null;
+  collection: string;
+  // Null for objects owned directly by the wallet
+  kiosk: KioskHolding | null;
+}
+
+export interface NftCollection {
+  type: string;
+  name: string;
+  items: OwnedNft[];
+}
+
+interface OwnedKiosk {
+  kioskId: string;
+  capId: string;
+  personalKioskPackage: string | null;
+}
+
+// "0x..::fuddies::Fuddies<0x..::x::Y>" → "Fuddies"
+function getCollectionName(type: string): string {
+  return type.split('<')[0].split('::').pop() || type;
+}
+
+function toHttpUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  return url.startsWith('ipfs://') ? `${IPFS_GATEWAY}${url.slice('ipfs://'.length)}` : url;
+}
+
+function toOwnedNft(object: SuiObjectResponse, kiosk: KioskHolding | null): OwnedNft | null {
+  const data = object.data;
+  if (!data?.type) return null;
+
+  const display = data.display?.data || {};
+  const collection = getCollectionName(data.type);
+  return {
+    objectId: data.objectId,
+    type: data.type,
+    name: display.name || `${collection} ${data.objectId.slice(0, 6)}…${data.objectId.slice(-4)}`,
+    description: display.description || null,
+    imageUrl: toHttpUrl(display.image_url || display.img_url),
+    collection,
+    kiosk,
+  };
+}
+
+// Move fields of a KioskOwnerCap ({ for }) or a PersonalKioskCap, which wraps one ({ cap: { fields: { for } } })
+interface KioskCapFields {
+  for?: string;
+  cap?: { fields?: { for?: string } };
+}
+
+// Kiosk ID of a KioskOwnerCap or PersonalKioskCap from its Move fields
+function getCapKioskId(object: SuiObjectResponse): string | null {
+  const content = object.data?.content;
+  if (content?.dataType !== 'moveObject') return null;
+  const fields = content.fields as KioskCapFields;
+  return fields.for || fields.cap?.fields?.for || null;
+}
+
+function toOwnedKiosk(object: SuiObjectResponse): OwnedKiosk | null {
+  const type = object.data?.type;
+  const kioskId = getCapKioskId(object);
+  if (!type || !kioskId) return null;
+
+  if (type === KIOSK_OWNER_CAP_TYPE) {
+    return { kioskId, capId: object.data!.objectId, personalKioskPackage: null };
+  }
+  if (type.endsWith(PERSONAL_KIOSK_CAP_SUFFIX)) {
+    return { kioskId, capId: object.data!.objectId, personalKioskPackage: type.split('::')[0] };
+  }
+  return null;
+}
+
+/**
+ * Items placed in a kiosk, read from its dynamic fields (Item, Lock and Listing keys)
+ */
+async function loadKioskItems(client: SuiClient, kiosk: OwnedKiosk): Promise<OwnedNft[]> {
+  const itemIds: string[] = [];
+  const locked = new Set<string>();
+  const listedExclusively = new Set<string>();
+
+  let cursor: string | null | undefined = null;
+  for (let page = 0; page < MAX_KIOSK_PAGES; page++) {
+    const fields = await client.getDynamicFields({ parentId: kiosk.kioskId, cursor });
+    for (const field of fields.data) {
+      const id = (field.name.value as { id?: string })?.id;
+      if (!id) continue;
+      if (field.name.type.endsWith('::kiosk::Item')) itemIds.push(id);
+      if (field.name.type.endsWith('::kiosk::Lock')) locked.add(id);
+      if (field.name.type.endsWith('::kiosk::Listing') && (field.name.value as { is_exclusive?: boolean }).is_exclusive) {
+        listedExclusively.add(id);
+      }
+    }
+    if (!fields.hasNextPage) break;
+    cursor = fields.nextCursor;
+  }
+
+  const items: OwnedNft[] = [];
+  for (let i = 0; i < itemIds.length; i += MULTI_GET_LIMIT) {
+    const objects = await client.multiGetObjects({
+      ids: itemIds.slice(i, i + MULTI_GET_LIMIT),
+      options: { showType: true, showDisplay: true },
+    });
+    for (const object of objects) {
+      const objectId = object.data?.objectId;
+      const nft = objectId
+        ? toOwnedNft(object, {
+            kioskId: kiosk.kioskId,
+            capId: kiosk.capId,
+            personalKioskPackage: kiosk.personalKioskPackage,
+            isLocked: locked.has(objectId),
+            isListedExclusively: listedExclusively.has(objectId),
+          })
+        : null;
+      if (nft) items.push(nft);
+    }
+  }
+  return items;
+}
+
+/**
+ * Every collectible the owner holds: objects owned directly and items in the owner's kiosks
+ * Coins, StakedSui positions and kiosk caps are left out.
+ */
+export async function loadOwnedNfts(client: SuiClient, owner: string): Promise<OwnedNft[]> {
+  const nfts: OwnedNft[] = [];
+  const kiosks: OwnedKiosk[] = [];
+
+  let cursor: string | null | undefined = null;
+  for (let page = 0; page < MAX_OWNED_PAGES; page++) {
+    const owned = await client.getOwnedObjects({
+      owner,
+      cursor,
+      options: { showType: true, showDisplay: true, showContent: true },
+    });
+    for (const object of owned.data) {
+      const kiosk = toOwnedKiosk(object);
+      if (kiosk) {
+        kiosks.push(kiosk);
+        continue;
+      }
+      const type = object.data?.type;
+      if (!type || HIDDEN_TYPE_PREFIXES.some((prefix) => type.startsWith(prefix))) continue;
+      const nft = toOwnedNft(object, null);
+      if (nft) nfts.push(nft);
+    }
+    if (!owned.hasNextPage) break;
+    cursor = owned.nextCursor;
+  }
+
+  const kioskItems = await Promise.all(kiosks.map((kiosk) => loadKioskItems(client, kiosk)));
+  return [...nfts, ...kioskItems.flat()];
+}
+
+/**
+ * Group by object type, largest collections first
+ */
+export function groupNftsByCollection(nfts: OwnedNft[]): NftCollection[] {
+  const collections = new Map<string, NftCollection>();
+  for (const nft of nfts) {
+    const collection = collections.get(nft.type) || { type: nft.type, name: nft.collection, items: [] };
+    collection.items.push(nft);
+    collections.set(nft.type, collection);
+  }
+  return Array.from(collections.values()).sort((a, b) => b.items.length - a.items.length || a.name.localeCompare(b.name));
+}
+
+/**
+ * Find the NFT a request refers to
+ * - 0x object ID → exact match
+ * - exact display name ("Fuddies #123")
+ * - collection and number ("my Fuddies 123", "fuddie #123")
+ * - otherwise a unique partial name match
+ * Unknown and ambiguous references are rejected.
+ */
+export function findNft(nfts: OwnedNft[], query: string): OwnedNft {
+  const value = query.trim();
+
+  if (/^0x[0-9a-fA-F]+$/.test(value)) {
+    const objectId = normalizeSuiObjectId(value);
+    const match = nfts.find((nft) => nft.objectId === objectId);
+    if (!match) {
+      throw new Error(`Object ${value} is not in your wallet or kiosks.`);
+    }
+    return match;
+  }
+
+  const search = value.toLowerCase();
+  let matches = nfts.filter((nft) => nft.name.toLowerCase() === search);
+
+  const numbered = search.match(/^(.*?)\s*#?\s*(\d+)$/);
+  if (matches.length === 0 && numbered) {
+    const [, words, number] = numbered;
+    const hasNumber = new RegExp(`(^|[^\\d])${number}$|#\\s*${number}\\b`);
+    matches = nfts.filter((nft) => {
+      const name = nft.name.toLowerCase();
+      const collection = nft.collection.toLowerCase();
+      const inCollection = !words || name.includes(words) || collection.includes(words) || words.includes(collection);
+      return inCollection && hasNumber.test(name);
+    });
+  }
+
+  if (matches.length === 0) {
+    matches = nfts.filter((nft) => nft.name.toLowerCase().includes(search));
+  }
+
+  if (matches.length > 1) {
+    const names = matches.slice(0, 5).map((nft) => nft.name).join(', ');
+    throw new Error(`'${value}' matches ${matches.length} NFTs (${names}${matches.length > 5 ? ', ...' : ''}). Please be more specific or use the object ID.`);
+  }
+  if (matches.length === 0) {
+    throw new Error(`No NFT matching '${value}' was found in your wallet or kiosks.`);
+  }
+  return matches[0];
+}
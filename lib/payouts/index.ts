@@ -0,0 +1,235 @@
+import { normalizeStructTag, SUI_TYPE_ARG } from '@mysten/sui/utils';
+
+/**
+ * Recipients per batch transaction
+ * Each recipient adds a split amount and a transferObjects command; a PTB allows at most 1024 commands and
+ * 512 arguments per command, so one splitCoins call stays well below the limits at 500 amounts.
+ */
+export const MAX_BATCH_RECIPIENTS = 500;
+
+// Larger lists are rejected instead of freezing the chat
+export const MAX_PAYOUT_ROWS = 5000;
+
+// One row of an imported payout list
+export interface PayoutRow {
+  // 1-based line (CSV) or item (JSON) number, for error messages
+  line: number;
+  // Contact name, SuiNS name or 0x address as written in the file
+  recipient: string;
+  amount: string;
+  // Token symbol or full coin type; null means SUI
+  coinType: string | null;
+}
+
+export interface PayoutRowError {
+  line: number;
+  recipient: string | null;
+  message: string;
+}
+
+export interface ParsedPayoutList {
+  rows: PayoutRow[];
+  errors: PayoutRowError[];
+}
+
+const RECIPIENT_KEYS = ['recipient', 'address', 'name', 'to', 'alici', 'alıcı', 'adres'];
+const AMOUNT_KEYS = ['amount', 'value', 'tutar', 'miktar'];
+const COIN_KEYS = ['coin_type', 'cointype', 'coin', 'token', 'type'];
+
+function findKey(keys: string[], candidates: string[]): number {
+  return keys.findIndex((key) => candidates.includes(key.trim().toLowerCase()));
+}
+
+// "1,5" with a ';' or tab separator, "1.5" with ','
+function detectDelimiter(line: string): string {
+  if (line.includes('\t')) return '\t';
+  if (line.includes(';')) return ';';
+  return ',';
+}
+
+// Split one CSV line, honouring double-quoted fields ("Ali, Jr.")
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function toRow(line: number, recipient: unknown, amount: unknown, coinType: unknown): PayoutRow | PayoutRowError {
+  const recipientText = typeof recipient === 'string' ? recipient.trim() : '';
+  const amountText = typeof amount === 'number' ? String(amount) : typeof amount === 'string' ? amount.trim() : '';
+  if (!recipientText) {
+    return { line, recipient: null, message: 'Missing recipient.' };
+  }
+  if (!amountText) {
+    return { line, recipient: recipientText, message: 'Missing amount.' };
+  }
+  const coinText = typeof coinType === 'string' && coinType.trim() ? coinType.trim() : null;
+  return { line, recipient: recipientText, amount: amountText, coinType: coinText };
+}
+
+function isRow(value: PayoutRow | PayoutRowError): value is PayoutRow {
+  return 'amount' in value;
+}
+
+function parseCsv(text: string): ParsedPayoutList {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ text: line, line: index + 1 }));
+  const content = lines.filter(({ text: line }) => line.trim() && !line.trim().startsWith('#'));
+  if (content.length === 0) {
+    return { rows: [], errors: [] };
+  }
+
+  const delimiter = detectDelimiter(content[0].text);
+  const first = splitCsvLine(content[0].text, delimiter);
+
+  // A header names the columns; without one the order is recipient, amount, coin type
+  let columns = { recipient: 0, amount: 1, coinType: 2 };
+  let columnCount = 3;
+  let body = content;
+  const headerAmount = findKey(first, AMOUNT_KEYS);
+  if (headerAmount !== -1 || findKey(first, RECIPIENT_KEYS) !== -1) {
+    columns = { recipient: findKey(first, RECIPIENT_KEYS), amount: headerAmount, coinType: findKey(first, COIN_KEYS) };
+    if (columns.recipient === -1 || columns.amount === -1) {
+      return { rows: [], errors: [{ line: content[0].line, recipient: null, message: 'The header needs a recipient and an amount column.' }] };
+    }
+    columnCount = first.length;
+    body = content.slice(1);
+  }
+
+  // A decimal comma in a comma-separated file ("Ali,1,5") shifts the columns - such rows are rejected, not guessed
+  const decimalCommaHint = delimiter === ',' ? ' Quote amounts with a decimal comma ("1,5") or use a decimal point.' : '';
+  const parsed = body.map(({ text: line, line: number }): PayoutRow | PayoutRowError => {
+    const fields = splitCsvLine(line, delimiter);
+    const coinType = columns.coinType === -1 ? null : fields[columns.coinType];
+    if (fields.length > columnCount) {
+      return { line: number, recipient: fields[columns.recipient] || null, message: `Too many columns.${decimalCommaHint}` };
+    }
+    if (coinType && /^\d+$/.test(coinType.trim())) {
+      return { line: number, recipient: fields[columns.recipient] || null, message: `"${coinType}" is not a coin.${decimalCommaHint}` };
+    }
+    return toRow(number, fields[columns.recipient], fields[columns.amount], coinType);
+  });
+  return { rows: parsed.filter(isRow), errors: parsed.filter((row): row is PayoutRowError => !isRow(row)) };
+}
+
+function parseJson(text: string): ParsedPayoutList {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { rows: [], errors: [{ line: 1, recipient: null, message: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` }] };
+  }
+
+  // An array of rows, or an object holding one ({ "payouts": [...] })
+  const items = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object'
+      ? Object.values(data as Record<string, unknown>).find(Array.isArray)
+      : undefined;
+  if (!items) {
+    return { rows: [], errors: [{ line: 1, recipient: null, message: 'Expected a JSON array of { recipient, amount, coinType } rows.' }] };
+  }
+
+  const parsed = items.map((item: unknown, index: number) => {
+    const line = index + 1;
+    if (Array.isArray(item)) {
+      return toRow(line, item[0], item[1], item[2]);
+    }
+    if (!item || typeof item !== 'object') {
+      return { line, recipient: null, message: 'Expected an object or [recipient, amount, coinType].' };
+    }
+    const entries = item as Record<string, unknown>;
+    const keys = Object.keys(entries);
+    const get = (candidates: string[]) => {
+      const index = findKey(keys, candidates);
+      return index === -1 ? undefined : entries[keys[index]];
+    };
+    return toRow(line, get(RECIPIENT_KEYS), get(AMOUNT_KEYS), get(COIN_KEYS));
+  });
+  return { rows: parsed.filter(isRow), errors: parsed.filter((row): row is PayoutRowError => !isRow(row)) };
+}
+
+/**
+ * Parse a pasted or dropped payout list (pure)
+ * - JSON: an array of { recipient, amount, coinType } objects or [recipient, amount, coinType] arrays
+ * - CSV: comma, semicolon or tab separated; an optional header names the columns (recipient/address/name,
+ *   amount, coin_type/token), otherwise the order is recipient, amount, coin type
+ * Blank lines and lines starting with # are skipped; CSV rows with extra columns are rejected.
+ * Amounts are kept as text and validated later.
+ */
+export function parsePayoutList(text: string): ParsedPayoutList {
+  const trimmed = text.trim();
+  const parsed = trimmed.startsWith('[') || trimmed.startsWith('{') ? parseJson(trimmed) : parseCsv(text);
+  if (parsed.rows.length > MAX_PAYOUT_ROWS) {
+    return {
+      rows: [],
+      errors: [{ line: 1, recipient: null, message: `The list has ${parsed.rows.length} rows; at most ${MAX_PAYOUT_ROWS} can be imported at once.` }],
+    };
+  }
+  return parsed;
+}
+
+/**
+ * Whether pasted text looks like a payout list rather than a chat message:
+ * a JSON array of rows, or several lines that all have a separator
+ */
+export function looksLikePayoutList(text: string): boolean {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const data = JSON.parse(trimmed);
+      return Array.isArray(data) && data.length > 0 && data.every((item) => !!item && typeof item === 'object');
+    } catch {
+      return false;
+    }
+  }
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+  return lines.length > 1 && lines.every((line) => /[,;\t]/.test(line));
+}
+
+/**
+ * Coin a row pays in, as the token of its batch: "SUI" for SUI in any spelling, upper-case symbols,
+ * normalized coin types (invalid types are kept as written and rejected when the batch is built)
+ */
+export function getPayoutCoin(coinType: string | null): string {
+  if (!coinType) return 'SUI';
+  if (!coinType.includes('::')) return coinType.toUpperCase();
+  try {
+    const normalized = normalizeStructTag(coinType);
+    return normalized === normalizeStructTag(SUI_TYPE_ARG) ? 'SUI' : normalized;
+  } catch {
+    return coinType;
+  }
+}
+
+/**
+ * Split a list into batches of at most `size` rows, keeping the order
+ */
+export function chunkPayouts<T>(rows: T[], size: number = MAX_BATCH_RECIPIENTS): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,37 @@
+import type { PriceFeed } from '../types';
+
+const AFTERMATH_API = process.env.NEXT_PUBLIC_AFTERMATH_API || 'https://aftermath.finance/api';
+
+/**
+ * Aftermath price API (mainnet)
+ * Unknown coins come back with a price of -1 and are left out.
+ */
+export const aftermathPriceFeed: PriceFeed = {
+  id: 'aftermath',
+  name: 'Aftermath Prices',
+
+  async getPrices(coins) {
+    if (coins.length === 0) return {};
+
+    const response = await fetch(`${AFTERMATH_API}/price-info-for-coins`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ coins: coins.map((coin) => coin.coinType) }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`Aftermath price feed error (${response.status}): ${errorText || response.statusText}`);
+    }
+
+    const data: Record<string, { price?: number }> = await response.json();
+    const prices: Record<string, number> = {};
+    for (const coin of coins) {
+      const price = data[coin.coinType]?.price;
+      if (typeof price === 'number' && price > 0) {
+        prices[coin.coinType] = price;
+      }
+    }
+    return prices;
+  },
+};
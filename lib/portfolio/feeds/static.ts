@@ -0,0 +1,27 @@
+import type { PriceFeed } from '../types';
+
+// Fixed USD prices by symbol - a local stand-in for offline use, localnet and demos
+const STATIC_PRICES_USD: Record<string, number> = {
+  SUI: 3.5,
+  USDC: 1,
+  USDT: 1,
+  CETUS: 0.1,
+  DEEP: 0.2,
+  WAL: 0.5,
+};
+
+export const staticPriceFeed: PriceFeed = {
+  id: 'static',
+  name: 'Static Prices (Offline)',
+
+  async getPrices(coins) {
+    const prices: Record<string, number> = {};
+    for (const coin of coins) {
+      const price = STATIC_PRICES_USD[coin.symbol.toUpperCase()];
+      if (price !== undefined) {
+        prices[coin.coinType] = price;
+      }
+    }
+    return prices;
+  },
+};
@@ -0,0 +1,108 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { formatAmount } from '@/lib/transactions/amount';
+import { getCoinDisplay } from '@/lib/transactions/coins';
+import { aftermathPriceFeed } from './feeds/aftermath';
+import { staticPriceFeed } from './feeds/static';
+import type { PortfolioAsset, PortfolioContextEntry, PortfolioSortKey, PriceFeed } from './types';
+
+export * from './types';
+
+// Holdings worth less than this are dust; coins without a price fall back to the amount
+export const DUST_VALUE_USD = 0.01;
+const DUST_AMOUNT = 0.0001;
+
+const PRICE_FEEDS: Record<string, PriceFeed> = {
+  [aftermathPriceFeed.id]: aftermathPriceFeed,
+  [staticPriceFeed.id]: staticPriceFeed,
+};
+
+/**
+ * Pick the price feed for the current network, or null when holdings should not be valued
+ * NEXT_PUBLIC_PRICE_FEED forces a feed ("none" turns valuation off); otherwise mainnet uses Aftermath
+ * and every other network the static prices.
+ */
+export function getPriceFeed(network: string): PriceFeed | null {
+  const forced = process.env.NEXT_PUBLIC_PRICE_FEED;
+  if (forced === 'none') {
+    return null;
+  }
+  if (forced && PRICE_FEEDS[forced]) {
+    return PRICE_FEEDS[forced];
+  }
+  return network === 'mainnet' ? aftermathPriceFeed : staticPriceFeed;
+}
+
+/**
+ * Every coin the owner holds, with metadata and - when a price feed is given - USD values
+ * A failing price feed never hides the balances; the holdings are returned without values.
+ */
+export async function loadPortfolio(client: SuiClient, owner: string, priceFeed: PriceFeed | null): Promise<PortfolioAsset[]> {
+  const balances = (await client.getAllBalances({ owner })).filter((balance) => BigInt(balance.totalBalance) > BigInt(0));
+
+  // Coins without metadata are shown in base units
+  const coins = await Promise.all(
+    balances.map(async (balance) => {
+      const { symbol, name, decimals, iconUrl } = await getCoinDisplay(client, balance.coinType);
+      return { coinType: balance.coinType, balance: BigInt(balance.totalBalance), symbol, name, decimals: decimals ?? 0, iconUrl };
+    })
+  );
+
+  let prices: Record<string, number> = {};
+  if (priceFeed) {
+    try {
+      prices = await priceFeed.getPrices(coins.map(({ coinType, symbol }) => ({ coinType, symbol })));
+    } catch (error) {
+      console.warn(`⚠️ ${priceFeed.name} failed, showing portfolio without values:`, error);
+    }
+  }
+
+  return coins.map((coin) => {
+    const amount = formatAmount(coin.balance, coin.decimals);
+    const priceUsd = prices[coin.coinType] ?? null;
+    return {
+      ...coin,
+      amount,
+      priceUsd,
+      valueUsd: priceUsd === null ? null : Number(amount) * priceUsd,
+    };
+  });
+}
+
+export function isDust(asset: PortfolioAsset): boolean {
+  return asset.valueUsd !== null ? asset.valueUsd < DUST_VALUE_USD : Number(asset.amount) < DUST_AMOUNT;
+}
+
+/**
+ * Sort holdings: by USD value (priced coins first), by amount, or alphabetically by symbol
+ */
+export function sortPortfolio(assets: PortfolioAsset[], sortKey: PortfolioSortKey): PortfolioAsset[] {
+  const bySymbol = (a: PortfolioAsset, b: PortfolioAsset) => a.symbol.localeCompare(b.symbol);
+
+  return [...assets].sort((a, b) => {
+    if (sortKey === 'value') {
+      if (a.valueUsd === null || b.valueUsd === null) {
+        return a.valueUsd === b.valueUsd ? bySymbol(a, b) : a.valueUsd === null ? 1 : -1;
+      }
+      return b.valueUsd - a.valueUsd || bySymbol(a, b);
+    }
+    if (sortKey === 'amount') {
+      return Number(b.amount) - Number(a.amount) || bySymbol(a, b);
+    }
+    return bySymbol(a, b);
+  });
+}
+
+/**
+ * Total USD value of the priced holdings, null when nothing could be valued
+ */
+export function getPortfolioValueUsd(assets: PortfolioAsset[]): number | null {
+  const priced = assets.filter((asset) => asset.valueUsd !== null);
+  return priced.length > 0 ? priced.reduce((total, asset) => total + (asset.valueUsd as number), 0) : null;
+}
+
+/**
+ * Holdings in the shape sent to the AI
+ */
+export function toPortfolioContext(assets: PortfolioAsset[]): PortfolioContextEntry[] {
+  return sortPortfolio(assets, 'value').map(({ symbol, coinType, amount, valueUsd }) => ({ symbol, coinType, amount, valueUsd }));
+}
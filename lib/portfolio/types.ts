@@ -0,0 +1,39 @@
+export interface PortfolioAsset {
+  coinType: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  iconUrl: string | null;
+  // Total balance in the smallest unit of the coin
+  balance: bigint;
+  // Exact decimal string of the balance ("12.5")
+  amount: string;
+  // USD per whole coin and USD value of the balance; null when the price feed has no price
+  priceUsd: number | null;
+  valueUsd: number | null;
+}
+
+export type PortfolioSortKey = 'value' | 'amount' | 'symbol';
+
+export interface PriceFeedCoin {
+  coinType: string;
+  symbol: string;
+}
+
+/**
+ * Price feed adapter
+ * Returns USD prices per whole coin keyed by coin type; coins without a price are left out.
+ */
+export interface PriceFeed {
+  id: string;
+  name: string;
+  getPrices(coins: PriceFeedCoin[]): Promise<Record<string, number>>;
+}
+
+// Portfolio as sent to the AI - plain strings and numbers, no bigints
+export interface PortfolioContextEntry {
+  symbol: string;
+  coinType: string;
+  amount: string;
+  valueUsd: number | null;
+}
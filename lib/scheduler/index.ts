@@ -0,0 +1,382 @@
+import type { ScheduleParams, TransactionParams, TransactionResponse } from '@/lib/schemas/transaction';
+import { getAmountError } from '@/lib/transactions/amount';
+import { getBatchRows } from '@/lib/transactions/batch';
+import type { ScheduledJob, ScheduledPaymentParams } from '@/types';
+
+// Time of day used when the user names a day but no time
+export const DEFAULT_SCHEDULE_TIME = '09:00';
+// Scheduled payments kept per wallet (all networks)
+export const MAX_SCHEDULED_JOBS = 50;
+// Longest "stop after N payments"
+const MAX_OCCURRENCES = 1000;
+// Days searched for the next run - a monthly payment is always found within two months
+const MAX_SEARCH_DAYS = 400;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Turkish day names, so "pazartesi ödemesini iptal et" finds the Monday payment
+const WEEKDAY_LABELS_TR = ['pazar', 'pazartesi', 'salı', 'çarşamba', 'perşembe', 'cuma', 'cumartesi'];
+// Words that name no particular payment ("cancel my Monday payment to Ali" → monday, ali)
+const STOP_WORDS = new Set(['my', 'the', 'to', 'on', 'at', 'every', 'payment', 'payments', 'scheduled', 'cancel', 'change', 'update']);
+
+type ScheduleRule = Pick<ScheduledJob, 'frequency' | 'weekday' | 'dayOfMonth' | 'startDate' | 'time'>;
+
+export interface ScheduleContext {
+  now: number;
+  network: string;
+}
+
+function parseTime(time: string): { hours: number; minutes: number } {
+  const match = time.trim().match(/^([01]?\d|2[0-3])[:.]([0-5]\d)$/);
+  if (!match) {
+    throw new Error(`"${time}" is not a valid time. Please use HH:MM, e.g. 09:00.`);
+  }
+  return { hours: Number(match[1]), minutes: Number(match[2]) };
+}
+
+// Local midnight of a YYYY-MM-DD date
+function parseDate(date: string): Date {
+  const match = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const parsed = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+  if (!match || !parsed || parsed.getMonth() !== Number(match[2]) - 1 || parsed.getDate() !== Number(match[3])) {
+    throw new Error(`"${date}" is not a valid date. Please use YYYY-MM-DD.`);
+  }
+  return parsed;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+function lastDayOfMonth(day: Date): number {
+  return new Date(day.getFullYear(), day.getMonth() + 1, 0).getDate();
+}
+
+function runsOnDay(rule: ScheduleRule, day: Date): boolean {
+  switch (rule.frequency) {
+    case 'once':
+      return !rule.startDate || isSameDay(day, parseDate(rule.startDate));
+    case 'daily':
+      return true;
+    case 'weekly':
+      return day.getDay() === rule.weekday;
+    case 'monthly':
+      return day.getDate() === Math.min(rule.dayOfMonth ?? 1, lastDayOfMonth(day));
+  }
+}
+
+/**
+ * First run strictly after `after` (ms), or null when there is none (a one-off date in the past)
+ * Days are stepped in local time, so a payment at 09:00 stays at 09:00 across daylight saving changes.
+ */
+export function getNextRun(rule: ScheduleRule, after: number): number | null {
+  const { hours, minutes } = parseTime(rule.time);
+  const start = rule.startDate ? parseDate(rule.startDate) : null;
+  const day = start && start.getTime() > after ? start : new Date(after);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate() + i, hours, minutes);
+    if (candidate.getTime() > after && runsOnDay(rule, candidate)) {
+      return candidate.getTime();
+    }
+  }
+  return null;
+}
+
+/**
+ * The schedule asked for, on top of an existing job's schedule when one is updated
+ * A weekday implies weekly, a day of the month monthly and a date alone a one-off payment.
+ */
+function toScheduleRule(schedule: ScheduleParams, base: ScheduleRule | null): ScheduleRule {
+  const startDate = schedule.date?.trim() || base?.startDate;
+  const start = startDate ? parseDate(startDate) : null;
+  const frequency =
+    schedule.frequency ||
+    (schedule.weekday ? 'weekly' : schedule.day_of_month ? 'monthly' : schedule.date ? 'once' : base?.frequency);
+  if (!frequency) {
+    throw new Error('Please tell me when the payment should run: on a date, or every day, week or month.');
+  }
+
+  const time = parseTime(schedule.time?.trim() || base?.time || DEFAULT_SCHEDULE_TIME);
+  const rule: ScheduleRule = {
+    frequency,
+    startDate,
+    time: `${String(time.hours).padStart(2, '0')}:${String(time.minutes).padStart(2, '0')}`,
+  };
+
+  if (frequency === 'weekly') {
+    const weekday = schedule.weekday ? WEEKDAYS.indexOf(schedule.weekday) : base?.weekday ?? start?.getDay();
+    if (weekday === undefined) {
+      throw new Error('Please tell me which day of the week the payment should run.');
+    }
+    rule.weekday = weekday;
+  }
+  if (frequency === 'monthly') {
+    const dayOfMonth = schedule.day_of_month ?? base?.dayOfMonth ?? start?.getDate();
+    if (!dayOfMonth || !Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+      throw new Error('Please tell me which day of the month (1-31) the payment should run.');
+    }
+    rule.dayOfMonth = dayOfMonth;
+  }
+  return rule;
+}
+
+function getRunsLeft(frequency: ScheduledJob['frequency'], occurrences: number | null | undefined, current: number | null): number | null {
+  if (frequency === 'once') return 1;
+  if (occurrences === null || occurrences === undefined) return current;
+  if (!Number.isInteger(occurrences) || occurrences < 1 || occurrences > MAX_OCCURRENCES) {
+    throw new Error(`The number of payments must be a whole number between 1 and ${MAX_OCCURRENCES}.`);
+  }
+  return occurrences;
+}
+
+/**
+ * A batch when several recipients are named, otherwise a single transfer
+ */
+export function getScheduledPaymentType(params: ScheduledPaymentParams): ScheduledJob['actionType'] {
+  return getBatchRows(params).length > 0 ? 'BATCH_TRANSFER' : 'TRANSFER';
+}
+
+/**
+ * The payment fields of a SCHEDULE intent, checked the way a chat transfer is
+ * Recipients are kept as written; the chat checks that they resolve before the job is saved.
+ */
+function toScheduledPayment(params: ScheduledPaymentParams & { isMax?: boolean | null }): ScheduledPaymentParams {
+  if (params.isMax === true) {
+    throw new Error('Scheduled payments need a fixed amount - your whole balance cannot be scheduled.');
+  }
+
+  const payment: ScheduledPaymentParams = {
+    amount: params.amount || null,
+    token: params.token || null,
+    recipient: params.recipient || null,
+    recipients: params.recipients?.length ? params.recipients : null,
+    allocations: params.allocations?.length ? params.allocations : null,
+  };
+
+  if (getScheduledPaymentType(payment) === 'TRANSFER') {
+    if (!payment.recipient) {
+      throw new Error('Please tell me who the scheduled payment is for.');
+    }
+    const amountError = getAmountError(payment.amount);
+    if (amountError) throw new Error(amountError);
+  } else if (payment.amount || !payment.allocations) {
+    const amountError = getAmountError(payment.amount);
+    if (amountError) throw new Error(amountError);
+  }
+  return payment;
+}
+
+function createJobId(now: number): string {
+  return `job-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Turn a SCHEDULE create intent into a job whose first run is the next matching time after `now`
+ */
+export function createScheduledJob(params: TransactionParams, ctx: ScheduleContext): ScheduledJob {
+  if (!params.schedule) {
+    throw new Error('Please tell me when the payment should run.');
+  }
+  const payment = toScheduledPayment(params);
+  const rule = toScheduleRule(params.schedule, null);
+  const nextRunAt = getNextRun(rule, ctx.now);
+  if (nextRunAt === null) {
+    throw new Error('That date and time is already in the past.');
+  }
+
+  return {
+    id: createJobId(ctx.now),
+    actionType: getScheduledPaymentType(payment),
+    params: payment,
+    ...rule,
+    nextRunAt,
+    runsLeft: getRunsLeft(rule.frequency, params.schedule.occurrences, null),
+    network: ctx.network,
+    createdAt: ctx.now,
+  };
+}
+
+/**
+ * Apply a SCHEDULE update intent: given payment fields replace the job's, given schedule fields its timing
+ * Only a change of timing moves the next run, so a payment that is due stays due.
+ */
+export function updateScheduledJob(job: ScheduledJob, params: TransactionParams, now: number): ScheduledJob {
+  const schedule = params.schedule || { operation: 'update' as const };
+  const isBatch = !!(params.recipients?.length || params.allocations?.length);
+  const payment = toScheduledPayment({
+    amount: params.amount || job.params.amount,
+    token: params.token || job.params.token,
+    ...(params.recipient
+      ? { recipient: params.recipient }
+      : isBatch
+        ? { recipients: params.recipients, allocations: params.allocations }
+        : { recipient: job.params.recipient, recipients: job.params.recipients, allocations: job.params.allocations }),
+  });
+
+  const changesTiming = !!(schedule.frequency || schedule.weekday || schedule.day_of_month || schedule.date || schedule.time);
+  const rule = changesTiming ? toScheduleRule(schedule, job) : job;
+  const nextRunAt = changesTiming ? getNextRun(rule, now) : job.nextRunAt;
+  if (nextRunAt === null) {
+    throw new Error('That date and time is already in the past.');
+  }
+
+  return {
+    ...job,
+    actionType: getScheduledPaymentType(payment),
+    params: payment,
+    frequency: rule.frequency,
+    weekday: rule.frequency === 'weekly' ? rule.weekday : undefined,
+    dayOfMonth: rule.frequency === 'monthly' ? rule.dayOfMonth : undefined,
+    startDate: rule.startDate,
+    time: rule.time,
+    nextRunAt,
+    runsLeft: getRunsLeft(rule.frequency, schedule.occurrences, job.frequency === 'once' ? null : job.runsLeft),
+  };
+}
+
+/**
+ * The job after one of its payments was signed, or null when it has no runs left
+ * Runs missed while the app was closed are not piled up - the next run is the first one after now.
+ */
+export function completeScheduledRun(job: ScheduledJob, now: number): ScheduledJob | null {
+  const runsLeft = job.runsLeft === null ? null : job.runsLeft - 1;
+  if (runsLeft !== null && runsLeft <= 0) {
+    return null;
+  }
+  const nextRunAt = getNextRun(job, Math.max(now, job.nextRunAt));
+  return nextRunAt === null ? null : { ...job, nextRunAt, runsLeft, lastRunAt: now };
+}
+
+/**
+ * Jobs of the network, the soonest first
+ */
+export function getNetworkJobs(jobs: ScheduledJob[], network: string): ScheduledJob[] {
+  return jobs.filter((job) => job.network === network).sort((a, b) => a.nextRunAt - b.nextRunAt);
+}
+
+/**
+ * Jobs of the network whose next run has come
+ */
+export function getDueJobs(jobs: ScheduledJob[], network: string, now: number): ScheduledJob[] {
+  return getNetworkJobs(jobs, network).filter((job) => job.nextRunAt <= now);
+}
+
+function formatDay(date: string): string {
+  return parseDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * When the job runs, e.g. "every Monday at 09:00 (3 payments left)"
+ */
+export function describeSchedule(job: ScheduledJob): string {
+  const at = `at ${job.time}`;
+  let text: string;
+  switch (job.frequency) {
+    case 'once':
+      text = job.startDate ? `on ${formatDay(job.startDate)} ${at}` : `once ${at}`;
+      break;
+    case 'daily':
+      text = `every day ${at}`;
+      break;
+    case 'weekly':
+      text = `every ${WEEKDAY_LABELS[job.weekday ?? 0]} ${at}`;
+      break;
+    case 'monthly':
+      text = `monthly on day ${job.dayOfMonth} ${at}`;
+      break;
+  }
+  if (job.frequency !== 'once' && job.runsLeft !== null) {
+    text += ` (${job.runsLeft} ${job.runsLeft === 1 ? 'payment' : 'payments'} left)`;
+  }
+  return text;
+}
+
+/**
+ * What the job pays, e.g. "5 SUI to Ali" or "10 SUI split between Ali, Ayşe"
+ */
+export function describeScheduledPayment(job: ScheduledJob): string {
+  const token = job.params.token || 'SUI';
+  if (job.actionType === 'TRANSFER') {
+    return `${job.params.amount} ${token} to ${job.params.recipient}`;
+  }
+
+  const rows = getBatchRows(job.params);
+  const names = rows.length > 3 ? `${rows.length} recipients` : rows.map((row) => row.recipient).join(', ');
+  if (job.params.amount) {
+    return `${job.params.amount} ${token} split between ${names}`;
+  }
+  if (rows.length > 3) {
+    return `${token} to ${names}`;
+  }
+  return `${token} to ${rows
+    .map((row) => `${row.recipient} (${row.amount || (row.percent ? `${row.percent}%` : row.shares ? `${row.shares} shares` : 'equal share')})`)
+    .join(', ')}`;
+}
+
+export function describeScheduledJob(job: ScheduledJob): string {
+  return `${describeScheduledPayment(job)} ${describeSchedule(job)}`;
+}
+
+/**
+ * Jobs the user refers to: an exact job id, otherwise the jobs matching most words of the reference
+ * ("Monday payment to Ali" → the weekly Monday payment to Ali). A vague reference matches the only job there is.
+ */
+export function findScheduledJobs(jobs: ScheduledJob[], reference: string | null | undefined): ScheduledJob[] {
+  const text = (reference || '').trim().toLowerCase();
+  const exact = jobs.find((job) => job.id.toLowerCase() === text);
+  if (exact) return [exact];
+
+  const words = text.split(/[^\p{L}\p{N}.]+/u).filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+  if (words.length === 0) {
+    return jobs.length === 1 ? jobs : [];
+  }
+
+  const scored = jobs.map((job) => {
+    const searchable = [describeScheduledJob(job), job.frequency, job.weekday !== undefined ? WEEKDAY_LABELS_TR[job.weekday] : '']
+      .join(' ')
+      .toLowerCase();
+    return { job, score: words.filter((word) => searchable.includes(word)).length };
+  });
+  const best = Math.max(0, ...scored.map((entry) => entry.score));
+  if (best === 0) return [];
+  return scored.filter((entry) => entry.score === best).map((entry) => entry.job);
+}
+
+/**
+ * The transfer of a due job, opened as a ticket like a chat request
+ */
+export function toScheduledIntent(job: ScheduledJob): TransactionResponse {
+  return {
+    type: 'TRANSACTION',
+    data: {
+      summary: `⏰ Scheduled payment: ${describeScheduledJob(job)}`,
+      action_type: job.actionType,
+      params: job.params,
+    },
+  };
+}
+
+/**
+ * Date and time of a run, e.g. "Mon, Oct 19, 09:00 AM"
+ */
+export function formatScheduledRun(time: number): string {
+  return new Date(time).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * The user's local date and time for the AI, e.g. "Monday 2026-10-19 14:05", so "next Friday" can be dated
+ */
+export function getLocalTimeContext(now: number): string {
+  const date = new Date(now);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${WEEKDAY_LABELS[date.getDay()]} ${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
@@ -1,17 +1,108 @@
 import { z } from 'zod';
 
-export const TransactionParamsSchema = z.object({
-  amount: z.string().nullable().optional(),
-  token: z.string().nullable().optional(),
-  recipient: z.string().nullable().optional(),
-  recipients: z.array(z.string()).nullable().optional(), // For batch transfers
-  target_token: z.string().nullable().optional(),
-  isMax: z.boolean().nullable().optional(), // Flag for "all my SUI" transfers
+// One recipient of a batch transfer with its own rule: a fixed amount, a percentage or a share weight (none → equal share)
+export const BatchAllocationSchema = z.object({
+  recipient: z.string().describe('Recipient 0x address, contact name or SuiNS name'),
+  amount: z.string().nullable().optional().describe('Fixed amount for this recipient, e.g. "3"'),
+  percent: z
+    .number()
+    .nullable()
+    .optional()
+    .describe('Percentage for this recipient, e.g. 20 - of the batch amount when one is given, otherwise of the balance'),
+  shares: z.number().nullable().optional().describe('Share weight of what is left of the batch amount, e.g. 2 for a double share'),
 });
 
+// Parameters of a single action (also used for each step of a multi-step request)
+export const StepParamsSchema = z.object({
+  amount: z.string().nullable().optional().describe('Amount as a decimal string, e.g. "10" or "2.5"'),
+  token: z.string().nullable().optional().describe('Token symbol (e.g. "SUI", "USDC") or full coin type (e.g. "0x...::usdc::USDC")'),
+  recipient: z.string().nullable().optional().describe('Recipient 0x address or saved contact name'),
+  recipients: z.array(z.string()).nullable().optional().describe('Recipient 0x addresses or contact names'), // For batch transfers
+  allocations: z
+    .array(BatchAllocationSchema)
+    .nullable()
+    .optional()
+    .describe('Per-recipient amounts, percentages or shares; use instead of recipients when recipients get different amounts'), // For batch transfers
+  nft: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('NFT to send: its name as the user wrote it (e.g. "Fuddies #123") or its 0x object ID'), // For NFT transfers
+  count: z.number().nullable().optional().describe('Number of equal coins to split the amount into, e.g. 5'), // For SPLIT_COINS
+  target_token: z.string().nullable().optional().describe('Token symbol to receive in a swap'),
+  protocol: z.string().nullable().optional().describe('Lending protocol: "scallop", "navi" or "suilend"; null for Scallop'),
+  dry_run: z.boolean().nullable().optional().describe('True only when the user explicitly asks for a dry run / simulation'),
+  slippage: z.number().nullable().optional().describe('Swap slippage tolerance in percent, e.g. 0.5; null for the default'),
+  isMax: z.boolean().nullable().optional().describe('True when the user wants to use their entire balance'), // Flag for "all my SUI" transfers
+  validator: z
+    .string()
+    .nullable()
+    .optional()
+    .describe(
+      'Validator name or 0x address. STAKE: "highest_apy" for the best APY, null to reuse the previous validator. UNSTAKE: null for all validators'
+    ), // For staking
+});
+
+export const ActionTypeSchema = z.enum(['TRANSFER', 'BATCH_TRANSFER', 'SWAP', 'STAKE', 'DEFI_SUPPLY', 'DEFI_WITHDRAW', 'DEFI_BORROW', 'DEFI_REPAY', 'MULTI_STEP', 'UNSTAKE', 'NFT_TRANSFER', 'MERGE_COINS', 'SPLIT_COINS', 'SCHEDULE', 'NONE']);
+
+// One step of a MULTI_STEP request; steps are compiled into a single atomic PTB in order
+export const TransactionStepSchema = z.object({
+  action_type: z.enum(['TRANSFER', 'BATCH_TRANSFER', 'SWAP', 'STAKE', 'DEFI_SUPPLY']),
+  params: StepParamsSchema,
+});
+
+export const ScheduleWeekdaySchema = z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']);
+
+// When a scheduled payment runs, or which scheduled payment to change; times are in the user's local time
+export const ScheduleSchema = z.object({
+  operation: z.enum(['create', 'update', 'cancel']).describe('create a scheduled payment, or update / cancel an existing one'),
+  job: z
+    .string()
+    .nullable()
+    .optional()
+    .describe('update / cancel: the id of the scheduled payment, or how the user refers to it (e.g. "Monday payment to Ali")'),
+  frequency: z
+    .enum(['once', 'daily', 'weekly', 'monthly'])
+    .nullable()
+    .optional()
+    .describe('once for a single future payment; null to keep it (update) or infer it from the other fields'),
+  weekday: ScheduleWeekdaySchema.nullable().optional().describe('weekly: the day of the week'),
+  day_of_month: z.number().nullable().optional().describe('monthly: the day of the month, 1-31 (the last day in shorter months)'),
+  date: z.string().nullable().optional().describe('once: the date; otherwise no run before it. YYYY-MM-DD'),
+  time: z.string().nullable().optional().describe('Time of day as HH:MM (24h); null for 09:00'),
+  occurrences: z.number().nullable().optional().describe('Stop after this many payments; null to repeat until cancelled'),
+});
+
+export const TransactionParamsSchema = StepParamsSchema.extend({
+  steps: z
+    .array(TransactionStepSchema)
+    .nullable()
+    .optional()
+    .describe('Ordered steps, executed atomically in one transaction; isMax on a step means "the rest"'), // For MULTI_STEP
+  schedule: ScheduleSchema.nullable().optional().describe('When the payment runs, or which scheduled payment to change'), // For SCHEDULE
+});
+
+// Parameters accepted by each action type (used to declare native tool calls)
+export const ActionParamsSchemas = {
+  TRANSFER: TransactionParamsSchema.pick({ amount: true, token: true, recipient: true, isMax: true }),
+  BATCH_TRANSFER: TransactionParamsSchema.pick({ amount: true, token: true, recipients: true, allocations: true, isMax: true }),
+  SWAP: TransactionParamsSchema.pick({ amount: true, token: true, target_token: true, slippage: true }),
+  STAKE: TransactionParamsSchema.pick({ amount: true, token: true, validator: true, isMax: true }),
+  DEFI_SUPPLY: TransactionParamsSchema.pick({ amount: true, token: true, protocol: true, dry_run: true }),
+  DEFI_WITHDRAW: TransactionParamsSchema.pick({ amount: true, token: true, protocol: true, dry_run: true }),
+  DEFI_BORROW: TransactionParamsSchema.pick({ amount: true, token: true, protocol: true, dry_run: true }),
+  DEFI_REPAY: TransactionParamsSchema.pick({ amount: true, token: true, protocol: true, dry_run: true }),
+  MULTI_STEP: TransactionParamsSchema.pick({ steps: true }),
+  UNSTAKE: TransactionParamsSchema.pick({ validator: true }),
+  NFT_TRANSFER: TransactionParamsSchema.pick({ nft: true, recipient: true }),
+  MERGE_COINS: TransactionParamsSchema.pick({ token: true }),
+  SPLIT_COINS: TransactionParamsSchema.pick({ amount: true, token: true, count: true }),
+  SCHEDULE: TransactionParamsSchema.pick({ schedule: true, amount: true, token: true, recipient: true, recipients: true, allocations: true }),
+} satisfies Record<Exclude<ActionType, 'NONE'>, z.AnyZodObject>;
+
 export const TransactionDataSchema = z.object({
   summary: z.string(),
-  action_type: z.enum(['TRANSFER', 'BATCH_TRANSFER', 'SWAP', 'STAKE', 'DEFI_SUPPLY', 'NONE']),
+  action_type: ActionTypeSchema,
   params: TransactionParamsSchema,
 });
 
@@ -23,8 +114,11 @@ export const TransactionResponseSchema = z.object({
 export type TransactionResponse = z.infer<typeof TransactionResponseSchema>;
 export type TransactionData = z.infer<typeof TransactionDataSchema>;
 export type TransactionParams = z.infer<typeof TransactionParamsSchema>;
+export type ActionType = z.infer<typeof ActionTypeSchema>;
+export type TransactionStep = z.infer<typeof TransactionStepSchema>;
+export type BatchAllocationParams = z.infer<typeof BatchAllocationSchema>;
+export type ScheduleParams = z.infer<typeof ScheduleSchema>;
+export type ScheduleWeekday = z.infer<typeof ScheduleWeekdaySchema>;
 
 // Legacy type for backward compatibility during migration
 export type TransactionIntent = TransactionResponse;
-
-
@@ -0,0 +1,116 @@
+import type { Transaction } from '@mysten/sui/transactions';
+import type { TransactionParams } from '@/lib/schemas/transaction';
+import { aftermathRouter } from './routers/aftermath';
+import { mockRouter } from './routers/mock';
+import { parsePositiveAmount } from '@/lib/transactions/amount';
+import { resolveToken } from './tokens';
+import type { SwapQuote, SwapRequest, SwapRouter } from './types';
+
+export * from './types';
+export { KNOWN_TOKENS, resolveToken, fromBaseUnits } from './tokens';
+
+// Slippage tolerance as a fraction (0.005 = 0.5%)
+export const DEFAULT_SLIPPAGE = 0.005;
+export const MAX_SLIPPAGE = 0.05;
+
+const ROUTERS: Record<string, SwapRouter> = {
+  [aftermathRouter.id]: aftermathRouter,
+  [mockRouter.id]: mockRouter,
+};
+
+/**
+ * Pick the router for the current network
+ * NEXT_PUBLIC_SWAP_ROUTER forces a router; otherwise mainnet uses Aftermath and every other network the mock router.
+ */
+export function getSwapRouter(network: string): SwapRouter {
+  const forced = process.env.NEXT_PUBLIC_SWAP_ROUTER;
+  if (forced && ROUTERS[forced]) {
+    return ROUTERS[forced];
+  }
+  return network === 'mainnet' ? aftermathRouter : mockRouter;
+}
+
+/**
+ * Convert the AI's slippage (in percent) to a fraction and enforce the maximum tolerance
+ */
+export function getSlippage(slippagePercent?: number | null): number {
+  if (slippagePercent === null || slippagePercent === undefined) {
+    return DEFAULT_SLIPPAGE;
+  }
+
+  const slippage = slippagePercent / 100;
+  if (!(slippage > 0) || slippage > MAX_SLIPPAGE) {
+    throw new Error(`Slippage must be between 0 and ${MAX_SLIPPAGE * 100}%.`);
+  }
+  return slippage;
+}
+
+/**
+ * Smallest output accepted for a quote at the given slippage
+ */
+export function getMinimumReceived(quote: SwapQuote, slippage: number): bigint {
+  const slippageBps = BigInt(Math.round(slippage * 10_000));
+  return (quote.amountOut * (BigInt(10_000) - slippageBps)) / BigInt(10_000);
+}
+
+/**
+ * Build a swap request from SWAP intent params
+ */
+export function toSwapRequest(params: TransactionParams): SwapRequest {
+  const coinIn = resolveToken(params.token || 'SUI');
+  const coinOut = resolveToken(params.target_token);
+  if (!coinIn) {
+    throw new Error(`Unknown token: ${params.token}`);
+  }
+  if (!coinOut) {
+    throw new Error(params.target_token ? `Unknown token: ${params.target_token}` : 'Missing target token.');
+  }
+  if (coinIn.coinType === coinOut.coinType) {
+    throw new Error('Cannot swap a token for itself.');
+  }
+
+  return { coinIn, coinOut, amountIn: parsePositiveAmount(params.amount, coinIn.decimals) };
+}
+
+/**
+ * Quote a swap; when the router does not report price impact it is estimated
+ * by comparing the rate with a quote for 1/1000 of the amount.
+ */
+export async function quoteSwap(router: SwapRouter, request: SwapRequest): Promise<SwapQuote> {
+  const quote = await router.getQuote(request);
+  if (quote.amountOut <= BigInt(0)) {
+    throw new Error('No route found for this swap.');
+  }
+  if (quote.priceImpact !== null) {
+    return quote;
+  }
+
+  try {
+    const referenceAmount = request.amountIn / BigInt(1000) || BigInt(1);
+    const reference = await router.getQuote({ ...request, amountIn: referenceAmount });
+    const rate = Number(quote.amountOut) / Number(quote.amountIn);
+    const referenceRate = Number(reference.amountOut) / Number(reference.amountIn);
+    return { ...quote, priceImpact: referenceRate > 0 ? Math.max(0, 1 - rate / referenceRate) : null };
+  } catch (error) {
+    console.warn('⚠️ Could not estimate price impact:', error);
+    return quote;
+  }
+}
+
+/**
+ * Build the swap PTB; the router enforces the slippage tolerance on-chain
+ */
+export async function buildSwapTransaction(
+  router: SwapRouter,
+  quote: SwapQuote,
+  sender: string,
+  slippage: number
+): Promise<Transaction> {
+  if (quote.routerId !== router.id) {
+    throw new Error('Quote was created by a different router. Please refresh the quote.');
+  }
+  if (!(slippage > 0) || slippage > MAX_SLIPPAGE) {
+    throw new Error(`Slippage must be between 0 and ${MAX_SLIPPAGE * 100}%.`);
+  }
+  return router.buildTransaction(quote, { sender, slippage });
+}
@@ -0,0 +1,90 @@
+import { Transaction } from '@mysten/sui/transactions';
+import type { SwapHop, SwapRouter } from '../types';
+
+const AFTERMATH_API = process.env.NEXT_PUBLIC_AFTERMATH_API || 'https://aftermath.finance/api';
+
+/**
+ * The Aftermath API encodes bigints as strings with an "n" suffix (e.g. "1000n")
+ */
+function parseBigInt(value: unknown): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return BigInt(Math.floor(value));
+  if (typeof value === 'string') return BigInt(value.replace(/n$/, ''));
+  throw new Error('Unexpected amount in Aftermath route');
+}
+
+// The parts of a trade route in the API response read here; the whole route is sent back to build the trade
+interface AftermathPath {
+  protocolName?: string;
+  poolId?: string;
+  coinIn?: { type?: string };
+  coinOut?: { type?: string };
+}
+
+interface AftermathRoute {
+  routes?: { paths?: AftermathPath[] }[];
+  coinOut?: { amount?: unknown };
+}
+
+async function postAftermath<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${AFTERMATH_API}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? `${value}n` : value)),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`Aftermath router error (${response.status}): ${errorText || response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Aftermath smart order router (mainnet)
+ * Routes across Sui DEXes; the returned transaction checks the slippage on-chain.
+ */
+export const aftermathRouter: SwapRouter = {
+  id: 'aftermath',
+  name: 'Aftermath Router',
+
+  async getQuote({ coinIn, coinOut, amountIn }) {
+    const route = await postAftermath<AftermathRoute>('/router/trade-route', {
+      coinInType: coinIn.coinType,
+      coinOutType: coinOut.coinType,
+      coinInAmount: amountIn,
+    });
+
+    const hops: SwapHop[] = (route.routes || []).flatMap((subRoute) =>
+      (subRoute.paths || []).map((path) => ({
+        protocol: path.protocolName || 'Unknown',
+        poolId: path.poolId || null,
+        coinInType: path.coinIn?.type || coinIn.coinType,
+        coinOutType: path.coinOut?.type || coinOut.coinType,
+      }))
+    );
+
+    return {
+      routerId: 'aftermath',
+      coinIn,
+      coinOut,
+      amountIn,
+      amountOut: parseBigInt(route.coinOut?.amount),
+      priceImpact: null,
+      hops,
+      route,
+    };
+  },
+
+  async buildTransaction(quote, { sender, slippage }) {
+    // A serialized transaction, either as a JSON string or already parsed
+    const serialized = await postAftermath<unknown>('/router/transactions/trade', {
+      walletAddress: sender,
+      completeRoute: quote.route,
+      slippage,
+      isSponsoredTx: false,
+    });
+
+    return Transaction.from(typeof serialized === 'string' ? serialized : JSON.stringify(serialized));
+  },
+};
@@ -0,0 +1,80 @@
+import { Transaction } from '@mysten/sui/transactions';
+import type { SwapHop, SwapRouter, SwapToken } from '../types';
+
+// Fixed USD prices and virtual pool depth used by the mock router
+const MOCK_PRICES_USD: Record<string, number> = {
+  SUI: 3.5,
+  USDC: 1,
+  USDT: 1,
+  CETUS: 0.1,
+  DEEP: 0.2,
+  WAL: 0.5,
+};
+const MOCK_POOL_LIQUIDITY_USD = 1_000_000;
+const MOCK_FEE = 0.003;
+
+/**
+ * Direct pool when one side is SUI or USDC, otherwise routed through SUI
+ */
+function getMockPath(coinIn: SwapToken, coinOut: SwapToken): Array<[string, string]> {
+  const hubs = ['SUI', 'USDC'];
+  if (hubs.includes(coinIn.symbol) || hubs.includes(coinOut.symbol)) {
+    return [[coinIn.symbol, coinOut.symbol]];
+  }
+  return [
+    [coinIn.symbol, 'SUI'],
+    ['SUI', coinOut.symbol],
+  ];
+}
+
+/**
+ * Local mock router for localnet, demos and tests
+ * Quotes from a fixed price table with constant-product price impact.
+ * Like the Scallop supply, the swap itself is simulated by a transfer to the sender's own address.
+ */
+export const mockRouter: SwapRouter = {
+  id: 'mock',
+  name: 'Mock Router (Simulated)',
+
+  async getQuote({ coinIn, coinOut, amountIn }) {
+    const priceIn = MOCK_PRICES_USD[coinIn.symbol];
+    const priceOut = MOCK_PRICES_USD[coinOut.symbol];
+    if (priceIn === undefined || priceOut === undefined) {
+      throw new Error(`Mock router has no price for ${priceIn === undefined ? coinIn.symbol : coinOut.symbol}`);
+    }
+
+    const path = getMockPath(coinIn, coinOut);
+    const valueInUsd = (Number(amountIn) / 10 ** coinIn.decimals) * priceIn;
+    const priceImpact = valueInUsd / (MOCK_POOL_LIQUIDITY_USD + valueInUsd);
+    const valueOutUsd = valueInUsd * (1 - MOCK_FEE) ** path.length * (1 - priceImpact);
+
+    const hops: SwapHop[] = path.map(([from, to]) => ({
+      protocol: 'Mock AMM',
+      poolId: null,
+      coinInType: from,
+      coinOutType: to,
+    }));
+
+    return {
+      routerId: 'mock',
+      coinIn,
+      coinOut,
+      amountIn,
+      amountOut: BigInt(Math.floor((valueOutUsd / priceOut) * 10 ** coinOut.decimals)),
+      priceImpact,
+      hops,
+      route: path,
+    };
+  },
+
+  async buildTransaction(quote, { sender }) {
+    if (quote.coinIn.symbol !== 'SUI') {
+      throw new Error('Mock router can only simulate swaps from SUI.');
+    }
+
+    const tx = new Transaction();
+    const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(quote.amountIn)]);
+    tx.transferObjects([coin], sender);
+    return tx;
+  },
+};
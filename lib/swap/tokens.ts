@@ -0,0 +1,52 @@
+import type { SwapToken } from './types';
+
+// Well-known mainnet tokens the AI can refer to by symbol
+export const KNOWN_TOKENS: Record<string, SwapToken> = {
+  SUI: { symbol: 'SUI', coinType: '0x2::sui::SUI', decimals: 9 },
+  USDC: {
+    symbol: 'USDC',
+    coinType: '0xdba34672e30cb065b1f93e3ab55318768fd6fef66c15942c9f7cb846e2f900e7::usdc::USDC',
+    decimals: 6,
+  },
+  USDT: {
+    symbol: 'USDT',
+    coinType: '0x375f70cf2ae4c00bf37117d0c85a2c71545e6ee05c4a5c7d282cd66a4504b068::usdt::USDT',
+    decimals: 6,
+  },
+  CETUS: {
+    symbol: 'CETUS',
+    coinType: '0x06864a6f921804860930db6ddbe2e16acdf8504495ea7481637a1c8b9a8fe54b::cetus::CETUS',
+    decimals: 9,
+  },
+  DEEP: {
+    symbol: 'DEEP',
+    coinType: '0xdeeb7a4662eec9f2f3def03fb937a663dddaa2e215b8078a284d026b7946c270::deep::DEEP',
+    decimals: 6,
+  },
+  WAL: {
+    symbol: 'WAL',
+    coinType: '0x356a26eb9e012a68958082340d4c4116e7f55615cf27affcff209cf0ae544f59::wal::WAL',
+    decimals: 9,
+  },
+};
+
+/**
+ * Resolve a token symbol (case-insensitive) or a full coin type
+ */
+export function resolveToken(symbolOrType: string | null | undefined): SwapToken | null {
+  if (!symbolOrType) return null;
+
+  const symbol = symbolOrType.trim().toUpperCase();
+  if (KNOWN_TOKENS[symbol]) {
+    return KNOWN_TOKENS[symbol];
+  }
+
+  return Object.values(KNOWN_TOKENS).find((token) => token.coinType === symbolOrType.trim()) || null;
+}
+
+/**
+ * Format a smallest-unit amount as a decimal string
+ */
+export function fromBaseUnits(amount: bigint, decimals: number, fractionDigits = 4): string {
+  return (Number(amount) / 10 ** decimals).toFixed(fractionDigits);
+}
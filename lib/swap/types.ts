@@ -0,0 +1,47 @@
+import type { Transaction } from '@mysten/sui/transactions';
+
+export interface SwapToken {
+  symbol: string;
+  coinType: string;
+  decimals: number;
+}
+
+export interface SwapRequest {
+  coinIn: SwapToken;
+  coinOut: SwapToken;
+  // Input amount in the smallest unit of coinIn
+  amountIn: bigint;
+}
+
+// One pool the route goes through
+export interface SwapHop {
+  protocol: string;
+  poolId: string | null;
+  coinInType: string;
+  coinOutType: string;
+}
+
+export interface SwapQuote {
+  routerId: string;
+  coinIn: SwapToken;
+  coinOut: SwapToken;
+  amountIn: bigint;
+  // Expected output in the smallest unit of coinOut
+  amountOut: bigint;
+  // Fraction (0.012 = 1.2%); null when the router cannot tell
+  priceImpact: number | null;
+  hops: SwapHop[];
+  // Router specific route data needed to build the transaction
+  route: unknown;
+}
+
+/**
+ * DEX router adapter
+ * Implementations quote a route and turn it into a swap PTB that enforces the slippage on-chain.
+ */
+export interface SwapRouter {
+  id: string;
+  name: string;
+  getQuote(request: SwapRequest): Promise<SwapQuote>;
+  buildTransaction(quote: SwapQuote, options: { sender: string; slippage: number }): Promise<Transaction>;
+}
@@ -0,0 +1,143 @@
+/**
+ * Exact decimal amount handling
+ * Amounts are parsed as strings straight into base units (MIST for SUI), never through floating point.
+ */
+
+function invalidAmount(input: string): Error {
+  return new Error(`Invalid amount '${input}'. Please use a number like 1.5, 1,5 or 1,234.5.`);
+}
+
+function powerOfTen(decimals: number): bigint {
+  return BigInt(`1${'0'.repeat(decimals)}`);
+}
+
+// "1.234.567" with "." as the grouping separator → "1234567"; groups after the first must have 3 digits
+function removeGrouping(input: string, integer: string, separator: string): string {
+  const groups = integer.split(separator);
+  const [first, ...rest] = groups;
+  if (!/^\d{1,3}$/.test(first) || rest.some((group) => !/^\d{3}$/.test(group))) {
+    throw invalidAmount(input);
+  }
+  return groups.join('');
+}
+
+/**
+ * Normalize a locale-formatted amount to a plain "1234.5" string
+ * - both separators present: the last one is the decimal separator ("1.234,5", "1,234.5")
+ * - one separator repeated: thousands grouping ("1.234.567", "1,234,567")
+ * - a single "." is always the decimal point
+ * - a single "," is the decimal comma, except "1,234" (three digits after a non-zero integer),
+ *   which is rejected as ambiguous
+ * Spaces, underscores and apostrophes are accepted as grouping ("1 234,5", "1'234.5").
+ */
+export function normalizeAmount(input: string): string {
+  const raw = String(input).trim().replace(/[\s_'’]/g, '');
+  if (!raw) {
+    throw new Error('Amount is empty.');
+  }
+  if (!/^[\d.,]+$/.test(raw)) {
+    throw invalidAmount(input);
+  }
+
+  const lastDot = raw.lastIndexOf('.');
+  const lastComma = raw.lastIndexOf(',');
+  let integer: string;
+  let fraction = '';
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimalSeparator = lastDot > lastComma ? '.' : ',';
+    const groupSeparator = decimalSeparator === '.' ? ',' : '.';
+    const parts = raw.split(decimalSeparator);
+    if (parts.length !== 2) {
+      throw invalidAmount(input);
+    }
+    integer = removeGrouping(input, parts[0], groupSeparator);
+    fraction = parts[1];
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const parts = raw.split(separator);
+    if (parts.length > 2) {
+      integer = removeGrouping(input, raw, separator);
+    } else {
+      if (separator === ',' && parts[1].length === 3 && /^[1-9]\d{0,2}$/.test(parts[0])) {
+        throw new Error(
+          `Ambiguous amount '${input}'. Write ${parts[0]}${parts[1]} for the whole number or ${parts[0]}.${parts[1]} for the decimal.`
+        );
+      }
+      [integer, fraction] = parts;
+    }
+  } else {
+    integer = raw;
+  }
+
+  if (!integer && !fraction) {
+    throw invalidAmount(input);
+  }
+
+  const normalizedInteger = BigInt(integer || '0').toString();
+  return fraction ? `${normalizedInteger}.${fraction}` : normalizedInteger;
+}
+
+/**
+ * Parse an amount into exact base units for a coin with `decimals` decimal places
+ * Rejects input with more decimal places than the coin supports instead of rounding it away.
+ */
+export function parseAmount(input: string, decimals: number): bigint {
+  const normalized = normalizeAmount(input);
+  const [integer, rawFraction = ''] = normalized.split('.');
+  const fraction = rawFraction.replace(/0+$/, '');
+
+  if (fraction.length > decimals) {
+    throw new Error(`Amount '${input}' has more than ${decimals} decimal places.`);
+  }
+
+  return BigInt(integer) * powerOfTen(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
+
+/**
+ * Parse an amount that must be greater than zero
+ */
+export function parsePositiveAmount(input: string | null | undefined, decimals: number): bigint {
+  if (!input) {
+    throw new Error('Missing amount. Please provide a valid amount.');
+  }
+  const value = parseAmount(input, decimals);
+  if (value <= BigInt(0)) {
+    throw new Error('Amount must be greater than 0.');
+  }
+  return value;
+}
+
+/**
+ * Validation message for an amount whose coin (and decimals) is not known yet, or null when it is valid
+ */
+export function getAmountError(input: string | null | undefined): string | null {
+  if (!input) {
+    return 'Missing amount. Please provide a valid amount.';
+  }
+  try {
+    const normalized = normalizeAmount(input);
+    return /[1-9]/.test(normalized) ? null : 'Amount must be greater than 0.';
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid amount.';
+  }
+}
+
+/**
+ * Format base units as an exact decimal string ("1500000000", 9 → "1.5")
+ */
+export function formatAmount(value: bigint, decimals: number): string {
+  const negative = value < BigInt(0);
+  const absolute = negative ? -value : value;
+  const base = powerOfTen(decimals);
+  const integer = (absolute / base).toString();
+  const fraction = (absolute % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Amount as a number for display-only math (optimistic balances); never use it to build transactions
+ */
+export function amountToNumber(input: string): number {
+  return Number(normalizeAmount(input));
+}
@@ -0,0 +1,205 @@
+import type { BatchAllocationParams, TransactionStep } from '@/lib/schemas/transaction';
+import { formatAmount, parsePositiveAmount } from './amount';
+
+// Percentages are kept in parts per million (100% = 1,000,000) so "12.5%" stays exact
+const PERCENT_SCALE = 10_000;
+const WHOLE_PPM = BigInt(100 * PERCENT_SCALE);
+// Share weights keep 6 decimals ("1.5 shares")
+const SHARE_SCALE = 1_000_000;
+
+export type BatchRule = 'amount' | 'percent' | 'shares';
+
+// One recipient of a batch transfer and the base units it receives
+export interface BatchAllocation {
+  recipient: string;
+  rule: BatchRule;
+  amount: bigint;
+  // The requested percentage or share weight, for display
+  percent?: number;
+  shares?: number;
+}
+
+/**
+ * Rows of a batch transfer
+ * `allocations` carries a rule per recipient; plain `recipients` split the total equally (one share each).
+ */
+export function getBatchRows(params: TransactionStep['params']): BatchAllocationParams[] {
+  if (params.allocations && params.allocations.length > 0) {
+    return params.allocations;
+  }
+  return (params.recipients || []).map((recipient) => ({ recipient }));
+}
+
+export function hasPercentRows(params: TransactionStep['params']): boolean {
+  return getBatchRows(params).some((row) => row.percent !== null && row.percent !== undefined);
+}
+
+function getRule(row: BatchAllocationParams): BatchRule {
+  const rules: BatchRule[] = [];
+  if (row.amount !== null && row.amount !== undefined) rules.push('amount');
+  if (row.percent !== null && row.percent !== undefined) rules.push('percent');
+  if (row.shares !== null && row.shares !== undefined) rules.push('shares');
+  if (rules.length > 1) {
+    throw new Error(`Recipient '${row.recipient}': give either an amount, a percentage or a share, not several.`);
+  }
+  // A row without a rule gets an equal share of what is left
+  return rules[0] || 'shares';
+}
+
+/**
+ * Split `total` by integer weights with the largest remainder method
+ * Parts are rounded down, then the leftover base units go one each to the largest remainders
+ * (earlier rows first on ties), so the parts always add up to `total` exactly.
+ */
+function splitByWeight(total: bigint, weights: bigint[]): bigint[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, BigInt(0));
+  const parts = weights.map((weight) => (total * weight) / weightSum);
+  let left = total - parts.reduce((sum, part) => sum + part, BigInt(0));
+
+  const order = weights
+    .map((weight, index) => ({ index, remainder: (total * weight) % weightSum }))
+    .sort((a, b) => (b.remainder > a.remainder ? 1 : b.remainder < a.remainder ? -1 : a.index - b.index));
+  for (let i = 0; left > BigInt(0); i++, left--) {
+    parts[order[i].index] += BigInt(1);
+  }
+  return parts;
+}
+
+export interface BatchPlanOptions {
+  decimals: number;
+  symbol: string;
+  // Batch total (the amount to split, or the whole transferable balance for isMax); null when only the rows give amounts
+  total: bigint | null;
+  // What percentages refer to: the total when there is one, otherwise the transferable balance (null if not loaded)
+  percentBase: bigint | null;
+}
+
+/**
+ * Turn batch rows into exact base-unit amounts (pure)
+ * 1. Fixed amounts are sent as given
+ * 2. Percentages are taken of the percentage base; together they are rounded down once and spread by
+ *    largest remainder, so 50% + 50% of a total always adds up to the total
+ * 3. Share weights (and rows without a rule) split what is left of the total by largest remainder
+ * With a total and no share rows, fixed amounts and percentages must add up to the total exactly.
+ */
+export function allocateBatch(rows: BatchAllocationParams[], options: BatchPlanOptions): BatchAllocation[] {
+  const { decimals, symbol, total, percentBase } = options;
+  if (rows.length === 0) {
+    throw new Error('Missing recipient addresses. Please provide at least one recipient.');
+  }
+  const format = (value: bigint) => `${formatAmount(value, decimals)} ${symbol}`;
+
+  const allocations: BatchAllocation[] = rows.map((row) => {
+    const rule = getRule(row);
+    if (rule === 'amount') {
+      let amount: bigint;
+      try {
+        amount = parsePositiveAmount(row.amount, decimals);
+      } catch (error) {
+        throw new Error(`Recipient '${row.recipient}': ${error instanceof Error ? error.message : 'invalid amount.'}`);
+      }
+      return { recipient: row.recipient, rule, amount };
+    }
+    if (rule === 'percent') {
+      const percent = row.percent as number;
+      if (!Number.isFinite(percent) || percent <= 0 || percent > 100) {
+        throw new Error(`Recipient '${row.recipient}': the percentage must be between 0 and 100.`);
+      }
+      return { recipient: row.recipient, rule, amount: BigInt(0), percent };
+    }
+    const shares = row.shares ?? 1;
+    if (!Number.isFinite(shares) || Math.round(shares * SHARE_SCALE) <= 0) {
+      throw new Error(`Recipient '${row.recipient}': the share must be greater than 0.`);
+    }
+    return { recipient: row.recipient, rule, amount: BigInt(0), shares };
+  });
+
+  const percentRows = allocations.filter((allocation) => allocation.rule === 'percent');
+  if (percentRows.length > 0) {
+    const ppm = percentRows.map((allocation) => BigInt(Math.round((allocation.percent as number) * PERCENT_SCALE)));
+    const totalPpm = ppm.reduce((sum, value) => sum + value, BigInt(0));
+    if (totalPpm > WHOLE_PPM) {
+      throw new Error('The percentages add up to more than 100%.');
+    }
+    if (percentBase === null) {
+      throw new Error('Balance is not loaded yet. Please try again in a moment.');
+    }
+    const parts = splitByWeight((percentBase * totalPpm) / WHOLE_PPM, ppm);
+    percentRows.forEach((allocation, index) => {
+      allocation.amount = parts[index];
+    });
+  }
+
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation.amount, BigInt(0));
+  const shareRows = allocations.filter((allocation) => allocation.rule === 'shares');
+
+  if (shareRows.length > 0) {
+    if (total === null) {
+      const names = shareRows.map((allocation) => allocation.recipient).join(', ');
+      throw new Error(`No amount was given for ${names}. Please give their amounts or a total to split.`);
+    }
+    if (allocated >= total) {
+      throw new Error(`The fixed amounts and percentages (${format(allocated)}) leave nothing of the ${format(total)} total to split.`);
+    }
+    const parts = splitByWeight(
+      total - allocated,
+      shareRows.map((allocation) => BigInt(Math.round((allocation.shares as number) * SHARE_SCALE)))
+    );
+    shareRows.forEach((allocation, index) => {
+      allocation.amount = parts[index];
+    });
+  } else if (total !== null && allocated !== total) {
+    throw new Error(`The amounts add up to ${format(allocated)}, but the total is ${format(total)}. Please check the amounts.`);
+  }
+
+  const zeroRow = allocations.find((allocation) => allocation.amount <= BigInt(0));
+  if (zeroRow) {
+    throw new Error(`The amount for '${zeroRow.recipient}' rounds to 0 ${symbol}.`);
+  }
+  return allocations;
+}
+
+/**
+ * Plan a batch transfer from its params
+ * `transferable` is the sender's sendable balance of the coin; it is needed for isMax and for
+ * percentages without a total ("20% of my balance").
+ */
+export function planBatchTransfer(
+  params: TransactionStep['params'],
+  coin: { decimals: number; symbol: string },
+  transferable: bigint | null
+): BatchAllocation[] {
+  let total: bigint | null = null;
+  if (params.isMax === true) {
+    if (transferable === null) {
+      throw new Error('Balance is not loaded yet. Please try again in a moment.');
+    }
+    if (transferable <= BigInt(0)) {
+      throw new Error(`Insufficient ${coin.symbol} balance.`);
+    }
+    total = transferable;
+  } else if (params.amount !== null && params.amount !== undefined && params.amount !== '') {
+    total = parsePositiveAmount(params.amount, coin.decimals);
+  }
+
+  return allocateBatch(getBatchRows(params), {
+    decimals: coin.decimals,
+    symbol: coin.symbol,
+    total,
+    percentBase: total ?? transferable,
+  });
+}
+
+/**
+ * How a row's amount was derived ("20%", "2 shares"); null for fixed amounts
+ */
+export function describeBatchRule(allocation: BatchAllocation): string | null {
+  if (allocation.rule === 'percent') return `${allocation.percent}%`;
+  if (allocation.rule === 'shares') return allocation.shares === 1 ? '1 share' : `${allocation.shares} shares`;
+  return null;
+}
+
+// Sum of a batch in base units
+export function getBatchTotal(allocations: BatchAllocation[]): bigint {
+  return allocations.reduce((sum, allocation) => sum + allocation.amount, BigInt(0));
+}
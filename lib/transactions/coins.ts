@@ -0,0 +1,108 @@
+import type { SuiClient } from '@mysten/sui/client';
+import type { Transaction, TransactionObjectArgument } from '@mysten/sui/transactions';
+import { normalizeStructTag, SUI_TYPE_ARG } from '@mysten/sui/utils';
+import { KNOWN_TOKENS } from '@/lib/swap';
+
+// Sources per MergeCoins command (a command takes at most 512 arguments)
+export const MERGE_CHUNK_SIZE = 500;
+
+export function isSuiCoinType(coinType: string): boolean {
+  return normalizeStructTag(coinType) === normalizeStructTag(SUI_TYPE_ARG);
+}
+
+export interface CoinDisplay {
+  symbol: string;
+  name: string;
+  // Null when the coin has no metadata; the raw amount is shown instead
+  decimals: number | null;
+  iconUrl: string | null;
+}
+
+// Metadata is cached per client, since a coin type can mean different coins on different networks
+const metadataCaches = new WeakMap<SuiClient, Map<string, CoinDisplay>>();
+
+/**
+ * Symbol, name, decimals and icon for showing an amount of a coin
+ * Coins without on-chain metadata are shown by their struct name (SUI always by its known symbol and decimals).
+ */
+export async function getCoinDisplay(client: SuiClient, coinType: string): Promise<CoinDisplay> {
+  let metadataCache = metadataCaches.get(client);
+  if (!metadataCache) {
+    metadataCache = new Map();
+    metadataCaches.set(client, metadataCache);
+  }
+  if (!metadataCache.has(coinType)) {
+    const metadata = await client.getCoinMetadata({ coinType }).catch(() => null);
+    const structName = coinType.split('::').pop() || coinType;
+    metadataCache.set(
+      coinType,
+      metadata
+        ? { symbol: metadata.symbol, name: metadata.name, decimals: metadata.decimals, iconUrl: metadata.iconUrl || null }
+        : isSuiCoinType(coinType)
+          ? { symbol: KNOWN_TOKENS.SUI.symbol, name: 'Sui', decimals: KNOWN_TOKENS.SUI.decimals, iconUrl: null }
+          : { symbol: structName, name: structName, decimals: null, iconUrl: null }
+    );
+  }
+  return metadataCache.get(coinType)!;
+}
+
+/**
+ * Get one coin per amount for use in the transaction
+ * SUI is split from gas; other coins are merged into the first owned coin and split from it.
+ */
+export async function takeCoins(
+  tx: Transaction,
+  client: SuiClient,
+  owner: string,
+  coinType: string,
+  amounts: bigint[]
+): Promise<TransactionObjectArgument[]> {
+  const pureAmounts = () => amounts.map((amount) => tx.pure.u64(amount));
+
+  if (isSuiCoinType(coinType)) {
+    const coins = tx.splitCoins(tx.gas, pureAmounts());
+    return amounts.map((_, index) => coins[index]);
+  }
+
+  const needed = amounts.reduce((sum, amount) => sum + amount, BigInt(0));
+  const coinIds: string[] = [];
+  let total = BigInt(0);
+  let cursor: string | null | undefined = null;
+  do {
+    const page = await client.getCoins({ owner, coinType, cursor });
+    for (const coin of page.data) {
+      coinIds.push(coin.coinObjectId);
+      total += BigInt(coin.balance);
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor && total < needed);
+
+  if (coinIds.length === 0 || total < needed) {
+    throw new Error(`Insufficient ${coinType.split('::').pop()} balance.`);
+  }
+
+  // Wallets with many small coins are merged in several commands
+  const [primary, ...rest] = coinIds;
+  for (let i = 0; i < rest.length; i += MERGE_CHUNK_SIZE) {
+    tx.mergeCoins(
+      tx.object(primary),
+      rest.slice(i, i + MERGE_CHUNK_SIZE).map((id) => tx.object(id))
+    );
+  }
+  const coins = tx.splitCoins(tx.object(primary), pureAmounts());
+  return amounts.map((_, index) => coins[index]);
+}
+
+/**
+ * Get a coin of exactly `amount` for use in the transaction
+ */
+export async function takeCoin(
+  tx: Transaction,
+  client: SuiClient,
+  owner: string,
+  coinType: string,
+  amount: bigint
+): Promise<TransactionObjectArgument> {
+  const [coin] = await takeCoins(tx, client, owner, coinType, [amount]);
+  return coin;
+}
@@ -0,0 +1,257 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import type { TransactionStep } from '@/lib/schemas/transaction';
+import { assertLendingSupported, getLendingAdapter, isDryRun, type LendingAdapter } from '@/lib/lending';
+import { KNOWN_TOKENS } from '@/lib/swap';
+import { formatAmount, parsePositiveAmount } from './amount';
+import { allocateBatch, getBatchRows, getBatchTotal, hasPercentRows, type BatchAllocation } from './batch';
+import { planSpendAllSui, type SuiSpendPlan } from './gas';
+import { isSuiNsName } from './suins';
+
+export interface ResolvedRecipient {
+  name: string | null;
+  address: string;
+}
+
+export interface CompileContext {
+  sender: string;
+  // SUI that can be split from the gas coin (the balance minus the dry-run gas budget, see planStepsSpendAll) -
+  // required when a step uses isMax ("the rest") or percentages without an amount
+  spendableMist?: bigint;
+  resolveRecipient: (recipient: string) => ResolvedRecipient | null;
+  // Current network - lending steps are checked against the adapter's networks
+  network: string;
+}
+
+// A coin split from gas and sent to one address
+export interface PlannedTransfer {
+  name: string | null;
+  address: string;
+  amountMist: bigint;
+}
+
+export interface PlannedStep {
+  index: number;
+  actionType: TransactionStep['action_type'];
+  description: string;
+  amountMist: bigint;
+  transfers: PlannedTransfer[];
+  // Set for DEFI_SUPPLY steps: the whole amount is supplied through this adapter
+  lending?: LendingAdapter;
+}
+
+export interface CompiledTransaction {
+  transaction: Transaction;
+  steps: PlannedStep[];
+  totalMist: bigint;
+}
+
+/**
+ * Format MIST as a SUI string for step descriptions
+ */
+export function formatMist(mist: bigint): string {
+  return formatAmount(mist, 9);
+}
+
+function displayRecipient(recipient: ResolvedRecipient): string {
+  return recipient.name || `${recipient.address.slice(0, 6)}...${recipient.address.slice(-4)}`;
+}
+
+function resolveOrThrow(recipient: string, stepNumber: number, ctx: CompileContext): ResolvedRecipient {
+  const resolved = ctx.resolveRecipient(recipient);
+  if (!resolved?.address) {
+    throw new Error(
+      isSuiNsName(recipient)
+        ? `Step ${stepNumber}: SuiNS name '${recipient}' is not registered.`
+        : `Step ${stepNumber}: contact '${recipient}' not found. Please add them to your address book first.`
+    );
+  }
+  return resolved;
+}
+
+// A batch step without its own amount sends the sum of its rows
+function isBatchWithoutTotal(step: TransactionStep): boolean {
+  return step.action_type === 'BATCH_TRANSFER' && step.params.isMax !== true && !step.params.amount;
+}
+
+// Batch rows in MIST; percentages without a step amount are of the spendable balance
+function planBatchStep(step: TransactionStep, totalMist: bigint | null, ctx: CompileContext): BatchAllocation[] {
+  return allocateBatch(getBatchRows(step.params), {
+    decimals: 9,
+    symbol: 'SUI',
+    total: totalMist,
+    percentBase: totalMist ?? ctx.spendableMist ?? null,
+  });
+}
+
+// SUI sent by every step except "the rest"
+function getFixedTotal(steps: TransactionStep[], ctx: CompileContext): bigint {
+  return steps.reduce((sum, step, index) => {
+    if (step.params.isMax === true) return sum;
+    try {
+      return sum + (isBatchWithoutTotal(step) ? getBatchTotal(planBatchStep(step, null, ctx)) : parsePositiveAmount(step.params.amount, 9));
+    } catch (error) {
+      throw new Error(`Step ${index + 1}: ${error instanceof Error ? error.message : 'missing or invalid amount.'}`);
+    }
+  }, BigInt(0));
+}
+
+/**
+ * Whether the steps depend on the spendable balance: "the rest", or percentages of the balance
+ */
+export function needsSpendableBalance(steps: TransactionStep[]): boolean {
+  return steps.some((step) => step.params.isMax === true || (isBatchWithoutTotal(step) && hasPercentRows(step.params)));
+}
+
+/**
+ * Plan every step into concrete coin transfers (pure, no Transaction involved)
+ * A single isMax step receives whatever is left of the spendable balance after the fixed amounts.
+ */
+export function planSteps(steps: TransactionStep[], ctx: CompileContext): PlannedStep[] {
+  if (steps.length === 0) {
+    throw new Error('No steps to execute.');
+  }
+
+  const maxSteps = steps.filter((step) => step.params.isMax === true);
+  if (maxSteps.length > 1) {
+    throw new Error('Only one step can use "the rest" of the balance.');
+  }
+
+  const fixedTotal = getFixedTotal(steps, ctx);
+
+  let restMist = BigInt(0);
+  if (maxSteps.length === 1) {
+    if (ctx.spendableMist === undefined) {
+      throw new Error('Balance is not loaded yet. Please try again in a moment.');
+    }
+    restMist = ctx.spendableMist - fixedTotal;
+    if (restMist <= BigInt(0)) {
+      throw new Error('Insufficient balance for the remaining step after the network fee.');
+    }
+  }
+
+  return steps.map((step, index) => {
+    const stepNumber = index + 1;
+    const { params } = step;
+    if (params.token && params.token.trim().toUpperCase() !== 'SUI') {
+      throw new Error(`Step ${stepNumber}: only SUI is supported in multi-step transactions yet.`);
+    }
+    const getAmountMist = (): bigint => (params.isMax === true ? restMist : parsePositiveAmount(params.amount, 9));
+
+    switch (step.action_type) {
+      case 'TRANSFER': {
+        if (!params.recipient) {
+          throw new Error(`Step ${stepNumber}: missing recipient.`);
+        }
+        const recipient = resolveOrThrow(params.recipient, stepNumber, ctx);
+        const amountMist = getAmountMist();
+        return {
+          index,
+          actionType: step.action_type,
+          description: `Send ${formatMist(amountMist)} SUI to ${displayRecipient(recipient)}`,
+          amountMist: amountMist,
+          transfers: [{ ...recipient, amountMist: amountMist }],
+        };
+      }
+
+      case 'BATCH_TRANSFER': {
+        const rows = getBatchRows(params);
+        if (rows.length === 0) {
+          throw new Error(`Step ${stepNumber}: missing recipients.`);
+        }
+        const recipients = rows.map((row) => resolveOrThrow(row.recipient, stepNumber, ctx));
+        let allocations: BatchAllocation[];
+        try {
+          allocations = planBatchStep(step, isBatchWithoutTotal(step) ? null : getAmountMist(), ctx);
+        } catch (error) {
+          throw new Error(`Step ${stepNumber}: ${error instanceof Error ? error.message : 'invalid batch amounts.'}`);
+        }
+        const isEqualSplit = allocations.every((allocation) => allocation.amount === allocations[0].amount);
+        return {
+          index,
+          actionType: step.action_type,
+          description: isEqualSplit
+            ? `Send ${formatMist(allocations[0].amount)} SUI each to ${recipients.map(displayRecipient).join(', ')}`
+            : `Send ${allocations.map((allocation, i) => `${formatMist(allocation.amount)} SUI to ${displayRecipient(recipients[i])}`).join(', ')}`,
+          amountMist: getBatchTotal(allocations),
+          transfers: allocations.map((allocation, i) => ({ ...recipients[i], amountMist: allocation.amount })),
+        };
+      }
+
+      case 'DEFI_SUPPLY': {
+        const adapter = getLendingAdapter(params.protocol, isDryRun(params.dry_run));
+        assertLendingSupported(adapter, 'SUPPLY', ctx.network);
+        if (!adapter.supplyCoin) {
+          throw new Error(`Step ${stepNumber}: ${adapter.name} supply is not supported in multi-step transactions yet.`);
+        }
+        const amountMist = getAmountMist();
+        return {
+          index,
+          actionType: step.action_type,
+          description: `Supply ${formatMist(amountMist)} SUI to ${adapter.name}`,
+          amountMist,
+          transfers: [],
+          lending: adapter,
+        };
+      }
+
+      default:
+        throw new Error(`Step ${stepNumber}: ${step.action_type} is not supported in multi-step transactions yet.`);
+    }
+  });
+}
+
+/**
+ * Compile ordered steps into ONE atomic Programmable Transaction Block
+ * All amounts are split from gas in a single splitCoins call and the resulting
+ * coins are chained into the transfer and supply commands, so either every step runs or none does.
+ */
+export async function compileSteps(steps: TransactionStep[], ctx: CompileContext): Promise<CompiledTransaction> {
+  const plannedSteps = planSteps(steps, ctx);
+
+  // One coin per transfer, plus one per supply step
+  const coinAmounts = plannedSteps.flatMap((step) =>
+    step.lending ? [step.amountMist] : step.transfers.map((transfer) => transfer.amountMist)
+  );
+
+  const tx = new Transaction();
+  const coins = tx.splitCoins(
+    tx.gas,
+    coinAmounts.map((amount) => tx.pure.u64(amount))
+  );
+
+  let coinIndex = 0;
+  for (const step of plannedSteps) {
+    if (step.lending?.supplyCoin) {
+      const receipt = await step.lending.supplyCoin(tx, coins[coinIndex++], KNOWN_TOKENS.SUI);
+      tx.transferObjects([receipt], ctx.sender);
+      continue;
+    }
+    for (const transfer of step.transfers) {
+      tx.transferObjects([coins[coinIndex++]], transfer.address);
+    }
+  }
+
+  return {
+    transaction: tx,
+    steps: plannedSteps,
+    totalMist: plannedSteps.reduce((sum, step) => sum + step.amountMist, BigInt(0)),
+  };
+}
+
+/**
+ * Gas for steps that spend the whole balance
+ * The probe is the same plan with half of what the fixed amounts leave held back as its budget
+ * (percentages are bounded by the whole balance for that), so every step keeps a real amount.
+ */
+export async function planStepsSpendAll(client: SuiClient, steps: TransactionStep[], ctx: CompileContext): Promise<SuiSpendPlan> {
+  return planSpendAllSui(client, ctx.sender, async (balanceMist) => {
+    const fixedTotal = getFixedTotal(steps, { ...ctx, spendableMist: balanceMist });
+    if (fixedTotal >= balanceMist) {
+      throw new Error('Insufficient SUI balance for these steps.');
+    }
+    const budget = (balanceMist - fixedTotal) / BigInt(2);
+    const { transaction } = await compileSteps(steps, { ...ctx, spendableMist: balanceMist - budget });
+    return { transaction, budget };
+  });
+}
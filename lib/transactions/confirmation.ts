@@ -0,0 +1,56 @@
+import type { TransactionData } from '@/lib/schemas/transaction';
+import { parseAmount } from './amount';
+
+/**
+ * When a chat transfer may be signed without the dashboard preview ticket
+ * Every other action, and every transfer outside the policy, always needs explicit confirmation.
+ */
+export interface ConfirmationPolicy {
+  // Skip the preview only for SUI transfers to addresses saved in the address book
+  skipForSavedContacts: boolean;
+  // Largest amount (in MIST) that may skip the preview
+  maxSkipAmountMist: bigint;
+}
+
+// Preview is always shown unless the policy is configured
+export const DEFAULT_CONFIRMATION_POLICY: ConfirmationPolicy = {
+  skipForSavedContacts: false,
+  maxSkipAmountMist: BigInt(0),
+};
+
+/**
+ * Read the policy from NEXT_PUBLIC_SKIP_PREVIEW_MAX_SUI ("0.5" lets transfers of up to 0.5 SUI to saved contacts skip the preview)
+ */
+export function getConfirmationPolicy(): ConfirmationPolicy {
+  const maxSkip = process.env.NEXT_PUBLIC_SKIP_PREVIEW_MAX_SUI;
+  if (!maxSkip) {
+    return DEFAULT_CONFIRMATION_POLICY;
+  }
+
+  try {
+    const maxSkipAmountMist = parseAmount(maxSkip, 9);
+    return { skipForSavedContacts: maxSkipAmountMist > BigInt(0), maxSkipAmountMist };
+  } catch (error) {
+    console.warn('⚠️ Invalid NEXT_PUBLIC_SKIP_PREVIEW_MAX_SUI, preview is always shown:', error);
+    return DEFAULT_CONFIRMATION_POLICY;
+  }
+}
+
+/**
+ * Whether a transfer may be signed straight from the chat
+ * Only a fixed-amount SUI TRANSFER to a saved contact, at or below the policy limit, qualifies.
+ */
+export function canSkipPreview(data: TransactionData, policy: ConfirmationPolicy, isSavedContact: boolean): boolean {
+  if (!policy.skipForSavedContacts || !isSavedContact) return false;
+  if (data.action_type !== 'TRANSFER' || data.params.isMax === true) return false;
+
+  const token = data.params.token?.trim().toUpperCase();
+  if (token && token !== 'SUI') return false;
+
+  try {
+    const amountMist = parseAmount(data.params.amount || '', 9);
+    return amountMist > BigInt(0) && amountMist <= policy.maxSkipAmountMist;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,511 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import type { ActionType, TransactionData } from '@/lib/schemas/transaction';
+import {
+  assertLendingSupported,
+  getLendingAdapter,
+  isDryRun,
+  isLendingIntent,
+  LENDING_ACTIONS,
+} from '@/lib/lending';
+import { findCoinGroup, loadCoinObjects, type CoinObjectGroup } from '@/lib/coins';
+import { findNft, loadOwnedNfts, type OwnedNft } from '@/lib/nft';
+import { buildSwapTransaction, fromBaseUnits, getSlippage, resolveToken, type SwapQuote, type SwapRouter } from '@/lib/swap';
+import type { ActivityLogEntry } from '@/types';
+import { formatAmount, parsePositiveAmount } from './amount';
+import { describeBatchRule, getBatchRows, getBatchTotal, planBatchTransfer } from './batch';
+import { isSuiCoinType } from './coins';
+import {
+  compileSteps,
+  formatMist,
+  needsSpendableBalance,
+  planStepsSpendAll,
+  type CompileContext,
+  type ResolvedRecipient,
+} from './compiler';
+import { applySuiSpendPlan, buildSendAllSuiTransaction, planSendAllSui, type SuiSpendPlan } from './gas';
+import { buildNftTransferTransaction } from './nft';
+import {
+  buildStakeTransaction,
+  buildUnstakeTransaction,
+  getStakeAmountMist,
+  planStakeAll,
+  selectStakePositions,
+  selectValidator,
+  type StakePosition,
+  type ValidatorOption,
+} from './staking';
+import { isSuiNsName } from './suins';
+import { buildMergeCoinsTransaction, buildSplitCoinsTransaction, getEqualSplit } from './tidy';
+import { buildTransferTransaction, getBatchFunding, getTransferableBalance, resolveTransferCoin } from './transfer';
+
+/**
+ * Everything an intent needs besides its params
+ * Data loaded by the UI (validators, stake positions, swap quote) is passed in, so building stays free of React.
+ */
+export interface ExecutorContext extends CompileContext {
+  client: SuiClient;
+  // STAKE: active validators and the validator picked manually on the ticket (overrides params.validator)
+  validators?: ValidatorOption[];
+  selectedValidator?: string | null;
+  // UNSTAKE: the sender's stake positions
+  stakePositions?: StakePosition[];
+  // SWAP: the quote shown to the user and the router that produced it
+  swap?: { router: SwapRouter; quote: SwapQuote };
+  // NFT_TRANSFER: the sender's NFTs (loaded from chain when missing)
+  nfts?: OwnedNft[];
+  // MERGE_COINS: the sender's coin objects (loaded from chain when missing)
+  coinObjects?: CoinObjectGroup[];
+  // STAKE of the whole balance and MULTI_STEP "the rest": the dry-run gas plan (worked out when missing)
+  suiSpendPlan?: SuiSpendPlan;
+}
+
+export interface PreviewLine {
+  label: string;
+  value: string;
+}
+
+// Human-readable description of a built transaction
+export interface IntentPreview {
+  actionType: ActionType;
+  title: string;
+  // What will happen: "Send 1.5 SUI to Ali (0x12ab...cdef)"
+  summary: string;
+  // What happened, for toasts and recent activity: "Sent 1.5 SUI to Ali (0x12ab...cdef)"
+  completedMessage: string;
+  lines: PreviewLine[];
+  // Change of the sender's SUI balance in MIST excluding gas (negative when spent), for optimistic balance updates
+  suiDeltaMist: bigint;
+  // Entry for the activity history; digest, timestamp and status are added once the transaction is executed
+  activity: Omit<ActivityLogEntry, 'digest' | 'timestamp' | 'status'> | null;
+}
+
+export interface BuiltIntent {
+  transaction: Transaction;
+  preview: IntentPreview;
+}
+
+const ACTION_TITLES: Partial<Record<ActionType, string>> = {
+  TRANSFER: 'Transfer',
+  BATCH_TRANSFER: 'Batch Transfer',
+  SWAP: 'Swap',
+  STAKE: 'Stake',
+  UNSTAKE: 'Unstake',
+  DEFI_SUPPLY: 'Supply',
+  DEFI_WITHDRAW: 'Withdraw',
+  DEFI_BORROW: 'Borrow',
+  DEFI_REPAY: 'Repay',
+  MULTI_STEP: 'Multi-Step Transaction',
+  NFT_TRANSFER: 'NFT Transfer',
+  MERGE_COINS: 'Merge Coins',
+  SPLIT_COINS: 'Split Coins',
+};
+
+const LENDING_PAST_TENSE = { SUPPLY: 'Supplied', WITHDRAW: 'Withdrew', BORROW: 'Borrowed', REPAY: 'Repaid' };
+
+export function getActionTitle(actionType: ActionType): string {
+  return ACTION_TITLES[actionType] || actionType;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function displayRecipient(recipient: ResolvedRecipient): string {
+  return recipient.name ? `${recipient.name} (${shortAddress(recipient.address)})` : shortAddress(recipient.address);
+}
+
+function resolveOrThrow(recipient: string, ctx: ExecutorContext): ResolvedRecipient {
+  const resolved = ctx.resolveRecipient(recipient);
+  if (!resolved?.address) {
+    throw new Error(
+      isSuiNsName(recipient)
+        ? `SuiNS name '${recipient}' is not registered.`
+        : `Contact '${recipient}' not found. Please add them to your address book first.`
+    );
+  }
+  return resolved;
+}
+
+async function buildTransfer({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  if (!params.recipient) {
+    throw new Error('Missing recipient address. Please provide a valid address or contact name.');
+  }
+  const recipient = resolveOrThrow(params.recipient, ctx);
+
+  // Resolve the token to a coin type and its decimals (rejects unknown or ambiguous symbols)
+  const coin = await resolveTransferCoin(ctx.client, ctx.sender, params.token);
+  const isSui = isSuiCoinType(coin.coinType);
+
+  // isMax sends the whole balance: SUI transfers the merged gas coin itself, so only the exact fee is spent
+  let amount: bigint;
+  let transaction: Transaction;
+  if (params.isMax === true && isSui) {
+    const plan = await planSendAllSui(ctx.client, ctx.sender);
+    amount = plan.sendable;
+    transaction = buildSendAllSuiTransaction(plan, [{ address: recipient.address, amount }]);
+  } else {
+    amount =
+      params.isMax === true
+        ? await getTransferableBalance(ctx.client, ctx.sender, coin)
+        : parsePositiveAmount(params.amount, coin.decimals);
+    if (amount <= BigInt(0)) {
+      throw new Error(`Insufficient ${coin.symbol} balance.`);
+    }
+    transaction = await buildTransferTransaction(ctx.client, ctx.sender, coin, [{ address: recipient.address, amount }]);
+  }
+  const amountText = `${formatAmount(amount, coin.decimals)} ${coin.symbol}`;
+
+  return {
+    transaction,
+    preview: {
+      actionType: 'TRANSFER',
+      title: getActionTitle('TRANSFER'),
+      summary: `Send ${amountText} to ${displayRecipient(recipient)}`,
+      completedMessage: `Sent ${amountText} to ${displayRecipient(recipient)}`,
+      lines: [
+        { label: 'To', value: displayRecipient(recipient) },
+        { label: 'Amount', value: params.isMax === true ? `${amountText} (entire balance)` : amountText },
+        ...(isSui ? [] : [{ label: 'Coin Type', value: coin.coinType }]),
+      ],
+      suiDeltaMist: isSui ? -amount : BigInt(0),
+      activity: { type: 'TRANSFER', amount: formatAmount(amount, coin.decimals), token: coin.symbol, recipient: recipient.address },
+    },
+  };
+}
+
+async function buildBatchTransfer({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  const rows = getBatchRows(params);
+  if (rows.length === 0) {
+    throw new Error('Missing recipient addresses. Please provide at least one recipient.');
+  }
+  const recipients = rows.map((row) => resolveOrThrow(row.recipient, ctx));
+
+  const coin = await resolveTransferCoin(ctx.client, ctx.sender, params.token);
+
+  // isMax splits the whole balance (SUI after the exact fee); percentages without a total are of that balance too
+  const { transferable, sendAll: sendAllSui } = await getBatchFunding(ctx.client, ctx.sender, coin, params);
+  const allocations = planBatchTransfer(params, coin, transferable);
+  const sent = getBatchTotal(allocations);
+
+  const sentText = `${formatAmount(sent, coin.decimals)} ${coin.symbol}`;
+  const isEqualSplit = allocations.every((allocation) => allocation.amount === allocations[0].amount);
+  const recipientList = recipients.map((recipient) => recipient.name || shortAddress(recipient.address)).join(', ');
+  const description = isEqualSplit
+    ? `${formatAmount(allocations[0].amount, coin.decimals)} ${coin.symbol} each to ${recipients.length} recipients (${recipientList})`
+    : `${sentText} to ${recipients.length} recipients (${recipientList})`;
+
+  const transfers = allocations.map((allocation, index) => ({ address: recipients[index].address, amount: allocation.amount }));
+  const transaction = sendAllSui
+    ? buildSendAllSuiTransaction(sendAllSui, transfers)
+    : await buildTransferTransaction(ctx.client, ctx.sender, coin, transfers);
+
+  return {
+    transaction,
+    preview: {
+      actionType: 'BATCH_TRANSFER',
+      title: getActionTitle('BATCH_TRANSFER'),
+      summary: `Send ${description}`,
+      completedMessage: `Sent ${description}`,
+      lines: [
+        ...allocations.map((allocation, index) => {
+          const rule = isEqualSplit ? null : describeBatchRule(allocation);
+          return {
+            label: displayRecipient(recipients[index]),
+            value: `${formatAmount(allocation.amount, coin.decimals)} ${coin.symbol}${rule ? ` (${rule})` : ''}`,
+          };
+        }),
+        { label: 'Total', value: sentText },
+      ],
+      suiDeltaMist: isSuiCoinType(coin.coinType) ? -sent : BigInt(0),
+      activity: {
+        type: 'BATCH_TRANSFER',
+        amount: formatAmount(sent, coin.decimals),
+        token: coin.symbol,
+        recipients: recipients.map((recipient) => recipient.address),
+      },
+    },
+  };
+}
+
+async function buildStake({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  const validator = selectValidator(ctx.validators || [], ctx.selectedValidator ?? params.validator);
+  if (!validator) {
+    throw new Error('Validator not found. Please choose a validator from the list.');
+  }
+
+  // Staking everything leaves only the dry-run gas budget in the gas coin
+  const spendPlan =
+    params.isMax === true ? ctx.suiSpendPlan ?? (await planStakeAll(ctx.client, ctx.sender, validator.address)) : null;
+  const amountMist = getStakeAmountMist(params.amount, params.isMax === true, spendPlan?.spendable);
+  const stakedAmount = formatMist(amountMist);
+  const transaction = buildStakeTransaction(amountMist, validator.address);
+  if (spendPlan) applySuiSpendPlan(transaction, spendPlan);
+
+  return {
+    transaction,
+    preview: {
+      actionType: 'STAKE',
+      title: getActionTitle('STAKE'),
+      summary: `Stake ${stakedAmount} SUI with ${validator.name}`,
+      completedMessage: `Staked ${stakedAmount} SUI with ${validator.name}`,
+      lines: [
+        { label: 'Validator', value: validator.name },
+        { label: 'APY', value: `${(validator.apy * 100).toFixed(2)}%` },
+        { label: 'Amount', value: `${stakedAmount} SUI` },
+      ],
+      suiDeltaMist: -amountMist,
+      activity: { type: 'STAKE', amount: stakedAmount, validator: validator.address },
+    },
+  };
+}
+
+function buildUnstake({ params }: TransactionData, ctx: ExecutorContext): BuiltIntent {
+  const positions = selectStakePositions(ctx.stakePositions || [], params.validator);
+  if (positions.length === 0) {
+    throw new Error('No staked positions found to withdraw.');
+  }
+
+  const totalMist = positions.reduce((sum, position) => sum + position.principalMist + position.estimatedRewardMist, BigInt(0));
+  const withdrawnAmount = formatMist(totalMist);
+  const validatorNames = Array.from(new Set(positions.map((position) => position.validatorName))).join(', ');
+
+  return {
+    transaction: buildUnstakeTransaction(positions.map((position) => position.stakedSuiId)),
+    preview: {
+      actionType: 'UNSTAKE',
+      title: getActionTitle('UNSTAKE'),
+      summary: `Unstake ~${withdrawnAmount} SUI from ${validatorNames}`,
+      completedMessage: `Unstaked ~${withdrawnAmount} SUI from ${validatorNames}`,
+      lines: positions.map((position) => ({
+        label: position.validatorName,
+        value: `${formatMist(position.principalMist)} SUI + ${formatMist(position.estimatedRewardMist)} SUI rewards`,
+      })),
+      suiDeltaMist: totalMist,
+      activity: { type: 'UNSTAKE', amount: withdrawnAmount, validator: positions[0].validatorAddress },
+    },
+  };
+}
+
+async function buildSwap({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  if (!ctx.swap) {
+    throw new Error('Swap quote is not loaded yet. Please wait for the quote.');
+  }
+  const { router, quote } = ctx.swap;
+  const slippage = getSlippage(params.slippage);
+
+  const amountIn = fromBaseUnits(quote.amountIn, quote.coinIn.decimals);
+  const amountOut = fromBaseUnits(quote.amountOut, quote.coinOut.decimals);
+  const swapDescription = `${amountIn} ${quote.coinIn.symbol} → ~${amountOut} ${quote.coinOut.symbol}`;
+
+  return {
+    transaction: await buildSwapTransaction(router, quote, ctx.sender, slippage),
+    preview: {
+      actionType: 'SWAP',
+      title: getActionTitle('SWAP'),
+      summary: `Swap ${swapDescription} via ${router.name}`,
+      completedMessage: `Swapped ${swapDescription} via ${router.name}`,
+      lines: [
+        { label: 'Router', value: router.name },
+        { label: 'Slippage', value: `${(slippage * 100).toFixed(2)}%` },
+      ],
+      suiDeltaMist: isSuiCoinType(quote.coinIn.coinType) ? -quote.amountIn : BigInt(0),
+      activity: { type: 'SWAP', amount: amountIn, token: quote.coinIn.symbol, targetToken: quote.coinOut.symbol },
+    },
+  };
+}
+
+async function buildLending({ action_type: actionType, params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  if (!isLendingIntent(actionType)) {
+    throw new Error(`${actionType} is not a lending action.`);
+  }
+  const action = LENDING_ACTIONS[actionType];
+  const adapter = getLendingAdapter(params.protocol, isDryRun(params.dry_run));
+  assertLendingSupported(adapter, action, ctx.network);
+
+  const token = resolveToken(params.token || 'SUI');
+  if (!token) {
+    throw new Error(`Unknown token: ${params.token}`);
+  }
+  const amount = parsePositiveAmount(params.amount, token.decimals);
+  const amountText = `${formatAmount(amount, token.decimals)} ${token.symbol}`;
+
+  const transaction = new Transaction();
+  await adapter.addAction(transaction, { action, token, amount }, { client: ctx.client, sender: ctx.sender });
+
+  // Dry runs send the coin back to the sender, so the balance does not change
+  const movesSui = isSuiCoinType(token.coinType) && adapter.id !== 'dry-run';
+  const spends = action === 'SUPPLY' || action === 'REPAY';
+
+  return {
+    transaction,
+    preview: {
+      actionType,
+      title: getActionTitle(actionType),
+      summary: `${getActionTitle(actionType)} ${amountText} (${adapter.name})`,
+      completedMessage: `${LENDING_PAST_TENSE[action]} ${amountText} (${adapter.name})`,
+      lines: [
+        { label: 'Protocol', value: adapter.name },
+        { label: 'Amount', value: amountText },
+      ],
+      suiDeltaMist: movesSui ? (spends ? -amount : amount) : BigInt(0),
+      activity: { type: actionType, amount: formatAmount(amount, token.decimals), token: token.symbol, protocol: adapter.id },
+    },
+  };
+}
+
+async function buildNftTransfer({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  if (!params.recipient) {
+    throw new Error('Missing recipient address. Please provide a valid address or contact name.');
+  }
+  if (!params.nft) {
+    throw new Error('Missing NFT. Please name the NFT or give its object ID.');
+  }
+  const recipient = resolveOrThrow(params.recipient, ctx);
+  const nft = findNft(ctx.nfts || (await loadOwnedNfts(ctx.client, ctx.sender)), params.nft);
+
+  return {
+    transaction: buildNftTransferTransaction(nft, recipient.address),
+    preview: {
+      actionType: 'NFT_TRANSFER',
+      title: getActionTitle('NFT_TRANSFER'),
+      summary: `Send ${nft.name} to ${displayRecipient(recipient)}`,
+      completedMessage: `Sent ${nft.name} to ${displayRecipient(recipient)}`,
+      lines: [
+        { label: 'NFT', value: nft.name },
+        { label: 'Collection', value: nft.collection },
+        { label: 'Object ID', value: shortAddress(nft.objectId) },
+        { label: 'Held In', value: nft.kiosk ? `Kiosk ${shortAddress(nft.kiosk.kioskId)}` : 'Wallet' },
+        { label: 'To', value: displayRecipient(recipient) },
+      ],
+      suiDeltaMist: BigInt(0),
+      activity: { type: 'NFT_TRANSFER', recipient: recipient.address, objectId: nft.objectId },
+    },
+  };
+}
+
+async function buildMergeCoins({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  const groups = ctx.coinObjects || (await loadCoinObjects(ctx.client, ctx.sender));
+
+  // A named token merges only that coin; otherwise every fragmented coin type is tidied up
+  let selected = groups;
+  if (params.token) {
+    const coin = await resolveTransferCoin(ctx.client, ctx.sender, params.token);
+    const group = findCoinGroup(groups, coin.coinType);
+    if (!group) {
+      throw new Error(`You don't hold any ${coin.symbol} on this network.`);
+    }
+    selected = [group];
+  }
+
+  const { transaction, merged } = buildMergeCoinsTransaction(ctx.sender, selected);
+  const coinCount = merged.reduce((sum, group) => sum + group.count, 0);
+  const description = merged.map((group) => `${group.count} ${group.symbol} coins`).join(', ');
+
+  return {
+    transaction,
+    preview: {
+      actionType: 'MERGE_COINS',
+      title: getActionTitle('MERGE_COINS'),
+      summary: `Merge ${description} into one coin per type`,
+      completedMessage: `Merged ${description} into one coin per type`,
+      lines: merged.map((group) => ({ label: group.symbol, value: `${group.count} coins → 1` })),
+      suiDeltaMist: BigInt(0),
+      activity: { type: 'MERGE_COINS', token: merged.length === 1 ? merged[0].symbol : undefined, coinCount },
+    },
+  };
+}
+
+async function buildSplitCoins({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  const coin = await resolveTransferCoin(ctx.client, ctx.sender, params.token);
+  const amount = parsePositiveAmount(params.amount, coin.decimals);
+  const amounts = getEqualSplit(amount, params.count ?? 0);
+  const transaction = await buildSplitCoinsTransaction(ctx.client, ctx.sender, coin.coinType, amounts);
+
+  const amountText = `${formatAmount(amount, coin.decimals)} ${coin.symbol}`;
+  const isExact = amounts.every((part) => part === amounts[0]);
+  const partText = `${isExact ? '' : '~'}${formatAmount(amounts[amounts.length - 1], coin.decimals)} ${coin.symbol}`;
+
+  return {
+    transaction,
+    preview: {
+      actionType: 'SPLIT_COINS',
+      title: getActionTitle('SPLIT_COINS'),
+      summary: `Split ${amountText} into ${amounts.length} coins of ${partText}`,
+      completedMessage: `Split ${amountText} into ${amounts.length} coins of ${partText}`,
+      lines: [
+        { label: 'Amount', value: amountText },
+        { label: 'Coins', value: String(amounts.length) },
+        { label: 'Each', value: partText },
+        ...(isSuiCoinType(coin.coinType) ? [] : [{ label: 'Coin Type', value: coin.coinType }]),
+      ],
+      suiDeltaMist: BigInt(0),
+      activity: { type: 'SPLIT_COINS', amount: formatAmount(amount, coin.decimals), token: coin.symbol, coinCount: amounts.length },
+    },
+  };
+}
+
+async function buildMultiStep({ params }: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  // "The rest" and percentages of the balance leave only the dry-run gas budget in the gas coin
+  const stepParams = params.steps || [];
+  const spendPlan = needsSpendableBalance(stepParams)
+    ? ctx.suiSpendPlan ?? (await planStepsSpendAll(ctx.client, stepParams, ctx))
+    : null;
+  const { transaction, steps, totalMist } = await compileSteps(stepParams, { ...ctx, spendableMist: spendPlan?.spendable });
+  if (spendPlan) applySuiSpendPlan(transaction, spendPlan);
+  // Every step spends SUI from gas, so the total is logged as one SUI spend for the spending policy
+  const recipients = Array.from(new Set(steps.flatMap((step) => step.transfers.map((transfer) => transfer.address))));
+
+  return {
+    transaction,
+    preview: {
+      actionType: 'MULTI_STEP',
+      title: getActionTitle('MULTI_STEP'),
+      summary: steps.map((step) => step.description).join(' → '),
+      completedMessage: steps.map((step) => step.description).join(' → '),
+      lines: steps.map((step) => ({ label: `Step ${step.index + 1}`, value: step.description })),
+      suiDeltaMist: -totalMist,
+      activity: {
+        type: 'MULTI_STEP',
+        amount: formatMist(totalMist),
+        token: 'SUI',
+        recipients: recipients.length > 0 ? recipients : undefined,
+        stepCount: steps.length,
+      },
+    },
+  };
+}
+
+/**
+ * Build the transaction for a validated intent, together with its preview
+ * The single entry point used by the chat and the dashboard; nothing is signed here.
+ */
+export async function buildIntent(data: TransactionData, ctx: ExecutorContext): Promise<BuiltIntent> {
+  switch (data.action_type) {
+    case 'TRANSFER':
+      return buildTransfer(data, ctx);
+    case 'BATCH_TRANSFER':
+      return buildBatchTransfer(data, ctx);
+    case 'STAKE':
+      return buildStake(data, ctx);
+    case 'UNSTAKE':
+      return buildUnstake(data, ctx);
+    case 'SWAP':
+      return buildSwap(data, ctx);
+    case 'MULTI_STEP':
+      return buildMultiStep(data, ctx);
+    case 'NFT_TRANSFER':
+      return buildNftTransfer(data, ctx);
+    case 'MERGE_COINS':
+      return buildMergeCoins(data, ctx);
+    case 'SPLIT_COINS':
+      return buildSplitCoins(data, ctx);
+    case 'DEFI_SUPPLY':
+    case 'DEFI_WITHDRAW':
+    case 'DEFI_BORROW':
+    case 'DEFI_REPAY':
+      return buildLending(data, ctx);
+    default:
+      throw new Error(`${data.action_type} cannot be executed.`);
+  }
+}
@@ -0,0 +1,212 @@
+import type { CoinStruct, SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { SUI_TYPE_ARG } from '@mysten/sui/utils';
+import { formatSimulationError } from './simulation';
+
+// A transaction can pay gas with at most 256 coin objects
+export const MAX_GAS_PAYMENT_COINS = 256;
+// Highest budget the network accepts (50 SUI)
+const MAX_GAS_BUDGET_MIST = BigInt(50_000_000_000);
+// Same margin the SDK adds on top of the dry-run computation cost, in gas units
+const GAS_SAFE_OVERHEAD = BigInt(1000);
+
+/**
+ * Gas setup for sending the whole SUI balance
+ * Every SUI coin pays for gas, so the network merges them into one gas coin (gas smashing) and the coin
+ * itself can be transferred. `sendable` is the balance minus the exact net fee from the dry run.
+ */
+export interface SendAllSuiPlan {
+  sender: string;
+  payment: { objectId: string; version: string; digest: string }[];
+  price: bigint;
+  budget: bigint;
+  balance: bigint;
+  // Net fee (computation + storage - rebate) in MIST
+  gasMist: bigint;
+  sendable: bigint;
+}
+
+/**
+ * Gas setup for spending the whole SUI balance inside a transaction (staking all of it, "the rest" of a plan)
+ * Amounts are split from the gas coin while the budget is held in it, so `spendable` is the balance minus the
+ * budget from a dry run; only what the network does not charge of that budget stays behind.
+ */
+export interface SuiSpendPlan {
+  sender: string;
+  payment: { objectId: string; version: string; digest: string }[];
+  price: bigint;
+  budget: bigint;
+  balance: bigint;
+  spendable: bigint;
+}
+
+export interface SuiTransferAmount {
+  address: string;
+  amount: bigint;
+}
+
+// Object references of coins, for paying gas with them (at most MAX_GAS_PAYMENT_COINS)
+export function toGasPayment(coins: CoinStruct[]): SendAllSuiPlan['payment'] {
+  return coins.map((coin) => ({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest }));
+}
+
+/**
+ * All SUI coin objects of the owner
+ */
+export async function getAllSuiCoins(client: SuiClient, owner: string): Promise<CoinStruct[]> {
+  const coins: CoinStruct[] = [];
+  let cursor: string | null | undefined = null;
+  do {
+    const page = await client.getCoins({ owner, coinType: SUI_TYPE_ARG, cursor });
+    coins.push(...page.data);
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+  return coins;
+}
+
+/**
+ * Split every transfer except the largest from the gas coin, then send the gas coin itself to the largest
+ * What the gas coin holds after the fee is charged goes to that recipient, so nothing is left behind.
+ */
+function addSendAll(tx: Transaction, transfers: SuiTransferAmount[]) {
+  const gasIndex = transfers.reduce((largest, transfer, index) => (transfer.amount > transfers[largest].amount ? index : largest), 0);
+  const others = transfers.filter((_, index) => index !== gasIndex);
+  if (others.length > 0) {
+    const coins = tx.splitCoins(tx.gas, others.map((transfer) => tx.pure.u64(transfer.amount)));
+    others.forEach((transfer, index) => {
+      tx.transferObjects([coins[index]], transfer.address);
+    });
+  }
+  tx.transferObjects([tx.gas], transfers[gasIndex].address);
+}
+
+// Every SUI coin of the sender, checked against the gas payment limit, and their total balance
+async function loadGasCoins(client: SuiClient, sender: string): Promise<{ payment: SendAllSuiPlan['payment']; balance: bigint }> {
+  const coins = await getAllSuiCoins(client, sender);
+  if (coins.length === 0) {
+    throw new Error('Insufficient SUI balance.');
+  }
+  if (coins.length > MAX_GAS_PAYMENT_COINS) {
+    throw new Error(
+      `Your wallet holds ${coins.length} SUI coin objects, but a transaction can use at most ${MAX_GAS_PAYMENT_COINS}. Please merge your SUI coins first.`
+    );
+  }
+  return { payment: toGasPayment(coins), balance: coins.reduce((sum, coin) => sum + BigInt(coin.balance), BigInt(0)) };
+}
+
+/**
+ * Dry-run a probe paid with the given coins; returns the gas price, the budget the real transaction needs
+ * (as the SDK would set it) and the net fee
+ */
+async function estimateGas(
+  client: SuiClient,
+  probe: Transaction,
+  sender: string,
+  payment: SendAllSuiPlan['payment'],
+  probeBudget: bigint
+): Promise<{ price: bigint; needed: bigint; gasMist: bigint }> {
+  probe.setSender(sender);
+  probe.setGasPayment(payment);
+  probe.setGasBudget(probeBudget < MAX_GAS_BUDGET_MIST ? probeBudget : MAX_GAS_BUDGET_MIST);
+
+  let result;
+  try {
+    result = await client.dryRunTransactionBlock({ transactionBlock: await probe.build({ client }) });
+  } catch (error) {
+    throw new Error(`Could not estimate the network fee: ${formatSimulationError(error instanceof Error ? error.message : String(error))}`);
+  }
+  if (result.effects.status.status !== 'success') {
+    throw new Error(`Could not estimate the network fee: ${formatSimulationError(result.effects.status.error || 'dry run failed')}`);
+  }
+
+  const { computationCost, storageCost, storageRebate } = result.effects.gasUsed;
+  const price = BigInt(probe.getData().gasData.price || 1);
+  return {
+    price,
+    needed: BigInt(computationCost) + BigInt(storageCost) + GAS_SAFE_OVERHEAD * price,
+    gasMist: BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate),
+  };
+}
+
+/**
+ * Work out the exact fee of sending the whole SUI balance to `recipientCount` recipients
+ * A transaction of the same shape (1 MIST per recipient, paid with the same coins) is dry-run; its gas
+ * cost is what the real transfer will be charged.
+ */
+export async function planSendAllSui(client: SuiClient, sender: string, recipientCount: number = 1): Promise<SendAllSuiPlan> {
+  const { payment, balance } = await loadGasCoins(client, sender);
+  const count = BigInt(Math.max(recipientCount, 1));
+  if (balance <= count) {
+    throw new Error('Insufficient SUI balance.');
+  }
+
+  const probe = new Transaction();
+  addSendAll(
+    probe,
+    Array.from({ length: Number(count) }, () => ({ address: sender, amount: BigInt(1) }))
+  );
+  // The splits are taken from what the budget leaves of the gas coin
+  const { price, needed, gasMist } = await estimateGas(client, probe, sender, payment, balance - count);
+  const budget = needed < balance ? needed : balance;
+  if (gasMist >= balance) {
+    throw new Error('Your SUI balance does not cover the network fee.');
+  }
+
+  return { sender, payment, price, budget, balance, gasMist, sendable: balance - gasMist };
+}
+
+/**
+ * Work out how much SUI a transaction can spend from the gas coin when it spends all of it
+ * `buildProbe` returns a transaction of the same shape and the budget to dry-run it with - that budget must be
+ * left over by the probe's own amounts. The gas cost of the dry run becomes the budget held back.
+ */
+export async function planSpendAllSui(
+  client: SuiClient,
+  sender: string,
+  buildProbe: (balanceMist: bigint) => Promise<{ transaction: Transaction; budget: bigint }>
+): Promise<SuiSpendPlan> {
+  const { payment, balance } = await loadGasCoins(client, sender);
+  const probe = await buildProbe(balance);
+  const { price, needed } = await estimateGas(client, probe.transaction, sender, payment, probe.budget);
+  if (needed >= balance) {
+    throw new Error('Your SUI balance does not cover the network fee.');
+  }
+  return { sender, payment, price, budget: needed, balance, spendable: balance - needed };
+}
+
+/**
+ * Pay a transaction with every SUI coin and the budget planned by `planSpendAllSui`
+ */
+export function applySuiSpendPlan(tx: Transaction, plan: SuiSpendPlan) {
+  tx.setSender(plan.sender);
+  tx.setGasPayment(plan.payment);
+  tx.setGasPrice(plan.price);
+  tx.setGasBudget(plan.budget);
+}
+
+/**
+ * Build the transfer of a whole SUI balance planned by `planSendAllSui`
+ * The amounts must add up to `plan.sendable`; the sender ends with no SUI coin at all.
+ */
+export function buildSendAllSuiTransaction(plan: SendAllSuiPlan, transfers: SuiTransferAmount[]): Transaction {
+  if (transfers.length === 0) {
+    throw new Error('No recipients to send to.');
+  }
+  const total = transfers.reduce((sum, transfer) => sum + transfer.amount, BigInt(0));
+  if (total !== plan.sendable) {
+    throw new Error('The amounts do not add up to the sendable SUI balance.');
+  }
+  // The budget is held back from the gas coin while the splits run; the largest amount has to cover it
+  const largest = transfers.reduce((max, transfer) => (transfer.amount > max ? transfer.amount : max), BigInt(0));
+  if (largest < plan.budget - plan.gasMist) {
+    throw new Error('The SUI balance is too small to split between this many recipients.');
+  }
+
+  const tx = new Transaction();
+  tx.setSender(plan.sender);
+  tx.setGasPayment(plan.payment);
+  tx.setGasPrice(plan.price);
+  tx.setGasBudget(plan.budget);
+  addSendAll(tx, transfers);
+  return tx;
+}
@@ -0,0 +1,54 @@
+import { Transaction } from '@mysten/sui/transactions';
+import type { OwnedNft } from '@/lib/nft';
+
+/**
+ * Build the transfer of one NFT
+ * - owned directly → transferObjects
+ * - placed in a kiosk → kiosk::take with the owner cap, then transferObjects
+ *   (a PersonalKioskCap lends its KioskOwnerCap for the call and gets it back in the same PTB)
+ * Locked and exclusively listed kiosk items cannot be taken out and are rejected.
+ */
+export function buildNftTransferTransaction(nft: OwnedNft, recipient: string): Transaction {
+  const tx = new Transaction();
+
+  if (!nft.kiosk) {
+    tx.transferObjects([tx.object(nft.objectId)], recipient);
+    return tx;
+  }
+
+  const { kioskId, capId, personalKioskPackage, isLocked, isListedExclusively } = nft.kiosk;
+  if (isLocked) {
+    throw new Error(
+      `${nft.name} is locked in your kiosk by its collection's transfer policy and can only leave it through a sale. Please use a kiosk marketplace.`
+    );
+  }
+  if (isListedExclusively) {
+    throw new Error(`${nft.name} is listed exclusively on a marketplace. Please delist it first.`);
+  }
+
+  if (personalKioskPackage) {
+    const [cap, borrow] = tx.moveCall({
+      target: `${personalKioskPackage}::personal_kiosk::borrow_val`,
+      arguments: [tx.object(capId)],
+    });
+    const item = tx.moveCall({
+      target: '0x2::kiosk::take',
+      typeArguments: [nft.type],
+      arguments: [tx.object(kioskId), cap, tx.pure.id(nft.objectId)],
+    });
+    tx.transferObjects([item], recipient);
+    tx.moveCall({
+      target: `${personalKioskPackage}::personal_kiosk::return_val`,
+      arguments: [tx.object(capId), cap, borrow],
+    });
+    return tx;
+  }
+
+  const item = tx.moveCall({
+    target: '0x2::kiosk::take',
+    typeArguments: [nft.type],
+    arguments: [tx.object(kioskId), tx.object(capId), tx.pure.id(nft.objectId)],
+  });
+  tx.transferObjects([item], recipient);
+  return tx;
+}
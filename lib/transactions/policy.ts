@@ -0,0 +1,262 @@
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type { ActionType, TransactionData, TransactionParams } from '@/lib/schemas/transaction';
+import { resolveToken } from '@/lib/swap';
+import type { ActivityLogEntry, Contact, SpendingPolicy } from '@/types';
+import { formatAmount, parseAmount } from './amount';
+import { getBatchRows, hasPercentRows } from './batch';
+import { isSuiCoinType } from './coins';
+
+// No rules enabled - the AI can trigger anything the user confirms
+export const DEFAULT_SPENDING_POLICY: SpendingPolicy = {
+  maxPerTransactionSui: null,
+  dailyLimitSui: null,
+  contactsOnly: false,
+  blockedCoinTypes: [],
+  largeTransferSui: null,
+  cooldownMinutes: 0,
+};
+
+export type PolicyRule = 'PER_TRANSACTION_LIMIT' | 'DAILY_LIMIT' | 'CONTACTS_ONLY' | 'BLOCKED_COIN' | 'COOLDOWN';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  // Explanation shown in chat
+  message: string;
+}
+
+export interface PolicyContext {
+  policy: SpendingPolicy;
+  contacts: Contact[];
+  // Past activity of the wallet, used for the daily limit and the cool-down
+  activityLogs: ActivityLogEntry[];
+  now: number;
+  // SUI balance in MIST - an isMax intent spends (up to) all of it
+  balanceMist?: bigint;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Actions that move SUI out of the wallet (params.token is the spent coin, null meaning SUI)
+const SPENDING_ACTIONS: ActionType[] = ['TRANSFER', 'BATCH_TRANSFER', 'SWAP', 'STAKE', 'DEFI_SUPPLY', 'DEFI_REPAY', 'MULTI_STEP'];
+const SPENDING_ACTIVITY_TYPES: ActivityLogEntry['type'][] = ['TRANSFER', 'BATCH_TRANSFER', 'SWAP', 'STAKE', 'DEFI_SUPPLY', 'DEFI_REPAY', 'MULTI_STEP'];
+// Activity that counts as a transfer for the cool-down (a multi-step plan with transfer steps among them)
+const TRANSFER_ACTIVITY_TYPES: ActivityLogEntry['type'][] = ['TRANSFER', 'BATCH_TRANSFER', 'MULTI_STEP'];
+
+function isSuiToken(token: string | null | undefined): boolean {
+  if (!token || token.trim().toUpperCase() === 'SUI') return true;
+  try {
+    return token.includes('::') && isSuiCoinType(token.trim());
+  } catch {
+    return false;
+  }
+}
+
+function parseSui(amount: string | null | undefined): bigint | null {
+  if (!amount) return null;
+  try {
+    return parseAmount(amount, 9);
+  } catch {
+    return null;
+  }
+}
+
+function formatSui(mist: bigint): string {
+  return `${formatAmount(mist, 9)} SUI`;
+}
+
+// Params of each spend: the steps of a multi-step request, otherwise the intent itself
+// (cancelling a scheduled payment names the payment but spends nothing)
+function getSpends(data: TransactionData): TransactionParams[] {
+  if (data.action_type === 'SCHEDULE' && data.params.schedule?.operation === 'cancel') return [];
+  return data.action_type === 'MULTI_STEP' ? (data.params.steps || []).map((step) => step.params) : [data.params];
+}
+
+// SUI sent by a batch without a total: its fixed amounts plus its percentages of the balance (null when not loaded)
+function getBatchRowsOutflowMist(params: TransactionParams, balanceMist?: bigint): bigint | null {
+  if (hasPercentRows(params) && balanceMist === undefined) {
+    return null;
+  }
+  return getBatchRows(params).reduce((sum, row) => {
+    if (row.amount) return sum + (parseSui(row.amount) || BigInt(0));
+    if (row.percent && balanceMist !== undefined) {
+      return sum + (balanceMist * BigInt(Math.round(Math.min(Math.max(row.percent, 0), 100) * 10_000))) / BigInt(1_000_000);
+    }
+    return sum;
+  }, BigInt(0));
+}
+
+/**
+ * SUI leaving the wallet with this intent, in MIST
+ * Null when it is unknown: an isMax intent without a loaded balance.
+ * Invalid amounts count as zero here - they are rejected later, when the transaction is built.
+ */
+export function getSuiOutflowMist(data: TransactionData, balanceMist?: bigint): bigint | null {
+  if (!SPENDING_ACTIONS.includes(data.action_type)) {
+    return BigInt(0);
+  }
+
+  let total = BigInt(0);
+  for (const params of getSpends(data)) {
+    if (!isSuiToken(params.token)) continue;
+    if (params.isMax === true) {
+      // "All my SUI" / "the rest" - bounded by the whole balance
+      return balanceMist === undefined ? null : balanceMist;
+    }
+    if (!params.amount && getBatchRows(params).length > 0) {
+      const batchMist = getBatchRowsOutflowMist(params, balanceMist);
+      if (batchMist === null) return null;
+      total += batchMist;
+      continue;
+    }
+    total += parseSui(params.amount) || BigInt(0);
+  }
+  return total;
+}
+
+// Every recipient named by the intent (contact names or addresses), including the steps of a multi-step request
+export function getIntentRecipients(data: TransactionData): string[] {
+  return getSpends(data).flatMap((params) => [
+    ...(params.recipient ? [params.recipient] : []),
+    ...getBatchRows(params).map((row) => row.recipient),
+  ]);
+}
+
+// Every coin the intent touches: spent coins and swap targets
+function getTokens(data: TransactionData): string[] {
+  // An NFT transfer moves no coin; merging every coin type names none
+  if (data.action_type === 'NFT_TRANSFER') return [];
+  if (data.action_type === 'MERGE_COINS' && !data.params.token) return [];
+  return getSpends(data).flatMap((params) => [params.token || 'SUI', ...(params.target_token ? [params.target_token] : [])]);
+}
+
+function normalizeCoinType(coinType: string): string | null {
+  try {
+    return normalizeStructTag(coinType.trim());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a token named by the AI matches a blocked entry
+ * Symbols are compared to symbols, to known coin types, and to the struct name of blocked coin types
+ * ("USDT" matches "0x...::usdt::USDT") - a symbol that might be the blocked coin is treated as blocked.
+ */
+function isBlockedToken(token: string, blocked: string): boolean {
+  const tokenSymbol = token.trim().toUpperCase();
+  const blockedSymbol = blocked.trim().toUpperCase();
+  if (tokenSymbol === blockedSymbol) return true;
+
+  const tokenType = token.includes('::') ? normalizeCoinType(token) : normalizeCoinType(resolveToken(token)?.coinType || '');
+  const blockedType = blocked.includes('::') ? normalizeCoinType(blocked) : normalizeCoinType(resolveToken(blocked)?.coinType || '');
+  if (tokenType && blockedType && tokenType === blockedType) return true;
+
+  if (!token.includes('::') && blocked.includes('::')) {
+    return blocked.trim().split('::').pop()?.toUpperCase() === tokenSymbol;
+  }
+  if (token.includes('::') && !blocked.includes('::')) {
+    return token.trim().split('::').pop()?.toUpperCase() === blockedSymbol;
+  }
+  return false;
+}
+
+function isSavedContact(recipient: string, contacts: Contact[]): boolean {
+  const value = recipient.trim().toLowerCase();
+  return contacts.some((contact) => contact.name.toLowerCase() === value || contact.address.toLowerCase() === value);
+}
+
+// SUI spent by a past activity entry, in MIST (0 for entries that did not spend SUI)
+function getActivityOutflowMist(activity: ActivityLogEntry): bigint {
+  if (activity.status !== 'success' || activity.direction === 'in' || !SPENDING_ACTIVITY_TYPES.includes(activity.type)) {
+    return BigInt(0);
+  }
+  if (!isSuiToken(activity.token)) {
+    return BigInt(0);
+  }
+  return parseSui(activity.amount) || BigInt(0);
+}
+
+/**
+ * Check an intent against the wallet's spending policy (pure - runs before any Transaction is built)
+ * Returns every violated rule; an empty list means the intent may continue to the preview.
+ */
+export function evaluateSpendingPolicy(data: TransactionData, ctx: PolicyContext): PolicyViolation[] {
+  const { policy } = ctx;
+  const violations: PolicyViolation[] = [];
+
+  const outflowMist = getSuiOutflowMist(data, ctx.balanceMist);
+  const maxPerTransaction = parseSui(policy.maxPerTransactionSui);
+  const dailyLimit = parseSui(policy.dailyLimitSui);
+
+  if (outflowMist === null && (maxPerTransaction !== null || dailyLimit !== null)) {
+    violations.push({
+      rule: maxPerTransaction !== null ? 'PER_TRANSACTION_LIMIT' : 'DAILY_LIMIT',
+      message: 'Your balance is not loaded yet, so sending your whole balance cannot be checked against your spending limits. Please try again in a moment.',
+    });
+  }
+
+  if (outflowMist !== null && maxPerTransaction !== null && outflowMist > maxPerTransaction) {
+    violations.push({
+      rule: 'PER_TRANSACTION_LIMIT',
+      message: `This would spend ${formatSui(outflowMist)}, above your per-transaction limit of ${formatSui(maxPerTransaction)}.`,
+    });
+  }
+
+  if (outflowMist !== null && dailyLimit !== null && outflowMist > BigInt(0)) {
+    const spentToday = ctx.activityLogs
+      .filter((activity) => ctx.now - activity.timestamp < DAY_MS)
+      .reduce((sum, activity) => sum + getActivityOutflowMist(activity), BigInt(0));
+    if (spentToday + outflowMist > dailyLimit) {
+      const remaining = dailyLimit > spentToday ? dailyLimit - spentToday : BigInt(0);
+      violations.push({
+        rule: 'DAILY_LIMIT',
+        message: `You have spent ${formatSui(spentToday)} in the last 24 hours. Your daily limit is ${formatSui(dailyLimit)}, so at most ${formatSui(remaining)} can still be spent.`,
+      });
+    }
+  }
+
+  if (policy.contactsOnly) {
+    const unknownRecipients = getIntentRecipients(data).filter((recipient) => !isSavedContact(recipient, ctx.contacts));
+    if (unknownRecipients.length > 0) {
+      violations.push({
+        rule: 'CONTACTS_ONLY',
+        message: `Your policy only allows sending to saved contacts. Not in your address book: ${unknownRecipients.join(', ')}.`,
+      });
+    }
+  }
+
+  if (policy.blockedCoinTypes.length > 0) {
+    const blockedTokens = getTokens(data).filter((token) => policy.blockedCoinTypes.some((blocked) => isBlockedToken(token, blocked)));
+    if (blockedTokens.length > 0) {
+      violations.push({
+        rule: 'BLOCKED_COIN',
+        message: `Your policy blocks ${Array.from(new Set(blockedTokens)).join(', ')}.`,
+      });
+    }
+  }
+
+  const largeTransfer = parseSui(policy.largeTransferSui);
+  if (largeTransfer !== null && policy.cooldownMinutes > 0 && SPENDING_ACTIONS.includes(data.action_type)) {
+    const cooldownMs = policy.cooldownMinutes * 60 * 1000;
+    const lastLarge = ctx.activityLogs
+      .filter((activity) => TRANSFER_ACTIVITY_TYPES.includes(activity.type))
+      .filter((activity) => getActivityOutflowMist(activity) >= largeTransfer && ctx.now - activity.timestamp < cooldownMs)
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
+    if (lastLarge) {
+      const minutesLeft = Math.ceil((lastLarge.timestamp + cooldownMs - ctx.now) / 60000);
+      violations.push({
+        rule: 'COOLDOWN',
+        message: `A large transfer of ${lastLarge.amount} ${lastLarge.token || 'SUI'} was made recently. Your policy pauses spending for ${policy.cooldownMinutes} minutes after transfers of ${formatSui(largeTransfer)} or more - ${minutesLeft} minute(s) left.`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Chat explanation for a blocked intent
+ */
+export function formatPolicyViolations(violations: PolicyViolation[]): string {
+  return `🛑 Blocked by your spending policy:\n${violations.map((violation) => `- ${violation.message}`).join('\n')}\n\nYou can review the rules in Spending Policy settings.`;
+}
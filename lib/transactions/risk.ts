@@ -0,0 +1,124 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { ActivityLogEntry, Contact } from '@/types';
+
+// A full Sui address: 0x + 32 bytes of hex
+const FULL_ADDRESS_REGEX = /^0x[0-9a-fA-F]{64}$/;
+
+// Address-poisoning lookalikes copy the characters wallets show: the start and the end
+const LOOKALIKE_MATCH_CHARS = 4;
+
+export type RecipientRiskLevel = 'low' | 'medium' | 'high';
+
+export type RecipientWarningCode = 'MALFORMED_ADDRESS' | 'LOOKALIKE_CONTACT' | 'SELF_TRANSFER' | 'NEW_ADDRESS';
+
+export interface RecipientWarning {
+  code: RecipientWarningCode;
+  level: RecipientRiskLevel;
+  message: string;
+}
+
+export interface RecipientRisk {
+  address: string;
+  // Highest level among the warnings, null when there is nothing to flag
+  level: RecipientRiskLevel | null;
+  warnings: RecipientWarning[];
+}
+
+export interface RecipientRiskContext {
+  sender: string;
+  contacts: Contact[];
+  activityLogs: ActivityLogEntry[];
+}
+
+const LEVEL_ORDER: Record<RecipientRiskLevel, number> = { low: 1, medium: 2, high: 3 };
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  try {
+    return normalizeSuiAddress(a) === normalizeSuiAddress(b);
+  } catch {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+}
+
+// Same first and last characters, different middle
+function isLookalike(address: string, contactAddress: string): boolean {
+  const a = address.toLowerCase().replace(/^0x/, '');
+  const b = contactAddress.toLowerCase().replace(/^0x/, '');
+  return (
+    a !== b &&
+    a.slice(0, LOOKALIKE_MATCH_CHARS) === b.slice(0, LOOKALIKE_MATCH_CHARS) &&
+    a.slice(-LOOKALIKE_MATCH_CHARS) === b.slice(-LOOKALIKE_MATCH_CHARS)
+  );
+}
+
+function hasSentTo(address: string, activityLogs: ActivityLogEntry[]): boolean {
+  return activityLogs.some(
+    (activity) =>
+      activity.status === 'success' &&
+      [activity.recipient, ...(activity.recipients || [])].some((recipient) => !!recipient && sameAddress(recipient, address))
+  );
+}
+
+/**
+ * Flag a recipient address before funds are sent to it
+ * - high: malformed or wrong-length address, or a lookalike of a saved contact (address poisoning)
+ * - medium: the user's own address
+ * - low: an address never sent to before (saved contacts are already verified by the user)
+ */
+export function assessRecipient(address: string, ctx: RecipientRiskContext): RecipientRisk {
+  const warnings: RecipientWarning[] = [];
+  const isContact = ctx.contacts.some((contact) => sameAddress(contact.address, address));
+
+  if (!FULL_ADDRESS_REGEX.test(address)) {
+    warnings.push({
+      code: 'MALFORMED_ADDRESS',
+      level: 'high',
+      message: /^0x[0-9a-fA-F]+$/.test(address)
+        ? `Address has ${address.length - 2} hex characters instead of 64 - it may have been copied incompletely.`
+        : 'Address is not a valid Sui address.',
+    });
+  }
+
+  if (!isContact) {
+    const lookalike = ctx.contacts.find((contact) => isLookalike(address, contact.address));
+    if (lookalike) {
+      warnings.push({
+        code: 'LOOKALIKE_CONTACT',
+        level: 'high',
+        message: `Looks like ${lookalike.name}'s address (${shortAddress(lookalike.address)}) but differs in the middle - possible address poisoning.`,
+      });
+    }
+  }
+
+  if (sameAddress(address, ctx.sender)) {
+    warnings.push({
+      code: 'SELF_TRANSFER',
+      level: 'medium',
+      message: 'This is your own address.',
+    });
+  } else if (!isContact && !hasSentTo(address, ctx.activityLogs)) {
+    warnings.push({
+      code: 'NEW_ADDRESS',
+      level: 'low',
+      message: 'You have never sent to this address before.',
+    });
+  }
+
+  const level = warnings.reduce<RecipientRiskLevel | null>(
+    (highest, warning) => (!highest || LEVEL_ORDER[warning.level] > LEVEL_ORDER[highest] ? warning.level : highest),
+    null
+  );
+
+  return { address, level, warnings };
+}
+
+/**
+ * High-risk recipients need an extra confirmation on top of the confirm button
+ */
+export function needsExtraConfirmation(risks: RecipientRisk[]): boolean {
+  return risks.some((risk) => risk.level === 'high');
+}
@@ -0,0 +1,126 @@
+import type { ObjectOwner, SuiClient } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getCoinDisplay } from './coins';
+
+export interface SimulatedBalanceChange {
+  coinType: string;
+  symbol: string;
+  // Null when the coin has no metadata; the raw amount is shown instead
+  decimals: number | null;
+  // Negative when the sender spends the coin (SUI includes the gas fee)
+  amount: bigint;
+}
+
+export interface SimulatedObjectChange {
+  kind: 'created' | 'mutated' | 'deleted' | 'wrapped' | 'transferred' | 'published';
+  objectId: string;
+  objectType: string | null;
+}
+
+export interface TransactionSimulation {
+  success: boolean;
+  // Abort reason or build error when the simulation failed
+  error: string | null;
+  // Net gas cost in MIST (computation + storage - rebate)
+  gasMist: bigint;
+  balanceChanges: SimulatedBalanceChange[];
+  objectChanges: SimulatedObjectChange[];
+}
+
+function isOwnedBy(owner: ObjectOwner, address: string): boolean {
+  return (
+    typeof owner === 'object' &&
+    'AddressOwner' in owner &&
+    normalizeSuiAddress(owner.AddressOwner) === normalizeSuiAddress(address)
+  );
+}
+
+/**
+ * Turn a raw Move abort into something readable
+ * "MoveAbort(MoveLocation { module: ModuleId { ..., name: Identifier(\"pool\") }, ..., function_name: Some(\"swap\") }, 2) in command 1"
+ * → "pool::swap aborted with code 2 (command 1)"
+ */
+export function formatSimulationError(error: string): string {
+  const abort = error.match(/MoveAbort\(.*name: Identifier\("([^"]+)"\).*function_name: Some\("([^"]+)"\).*?,\s*(\d+)\)(?: in command (\d+))?/);
+  if (abort) {
+    const [, module, fn, code, command] = abort;
+    return `${module}::${fn} aborted with code ${code}${command ? ` (command ${command})` : ''}`;
+  }
+  return error.replace(/^Dry run failed, could not automatically determine a budget:\s*/, '');
+}
+
+/**
+ * Dry-run a transaction before it is signed
+ * The transaction is built for `sender` (gas payment and budget are filled in); a failure while building
+ * is reported the same way as an execution failure, so callers only have to check `success`.
+ */
+export async function simulateTransaction(
+  client: SuiClient,
+  tx: Transaction,
+  sender: string
+): Promise<TransactionSimulation> {
+  const failed = (error: unknown): TransactionSimulation => ({
+    success: false,
+    error: formatSimulationError(error instanceof Error ? error.message : String(error)),
+    gasMist: BigInt(0),
+    balanceChanges: [],
+    objectChanges: [],
+  });
+
+  let bytes: Uint8Array;
+  try {
+    tx.setSenderIfNotSet(sender);
+    bytes = await tx.build({ client });
+  } catch (error) {
+    return failed(error);
+  }
+
+  let result;
+  try {
+    result = await client.dryRunTransactionBlock({ transactionBlock: bytes });
+  } catch (error) {
+    return failed(error);
+  }
+
+  const { status, gasUsed, gasObject } = result.effects;
+  const gasMist =
+    BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+
+  const balanceChanges = await Promise.all(
+    result.balanceChanges
+      .filter((change) => isOwnedBy(change.owner, sender))
+      .map(async (change) => {
+        const { symbol, decimals } = await getCoinDisplay(client, change.coinType);
+        return { coinType: change.coinType, symbol, decimals, amount: BigInt(change.amount) };
+      })
+  );
+
+  // The gas coin is always mutated; it is already covered by the gas cost
+  const objectChanges = result.objectChanges
+    .filter((change) => change.type === 'published' || change.objectId !== gasObject.reference.objectId)
+    .map((change) =>
+      change.type === 'published'
+        ? { kind: change.type, objectId: change.packageId, objectType: null }
+        : { kind: change.type, objectId: change.objectId, objectType: change.objectType }
+    );
+
+  return {
+    success: status.status === 'success',
+    error: status.status === 'success' ? null : formatSimulationError(status.error || 'Transaction would fail'),
+    gasMist,
+    balanceChanges,
+    objectChanges,
+  };
+}
+
+/**
+ * Simulate and throw when the transaction would fail - signing must never be requested for it
+ */
+export async function assertSimulationSucceeds(client: SuiClient, tx: Transaction, sender: string): Promise<TransactionSimulation> {
+  const simulation = await simulateTransaction(client, tx, sender);
+  if (!simulation.success) {
+    throw new Error(`Simulation failed: ${simulation.error}`);
+  }
+  return simulation;
+}
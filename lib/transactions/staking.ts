@@ -0,0 +1,179 @@
+import { Transaction } from '@mysten/sui/transactions';
+import { SUI_SYSTEM_STATE_OBJECT_ID } from '@mysten/sui/utils';
+import type { DelegatedStake, SuiClient, SuiValidatorSummary, ValidatorsApy } from '@mysten/sui/client';
+import { parsePositiveAmount } from './amount';
+import { planSpendAllSui, type SuiSpendPlan } from './gas';
+
+// request_add_stake aborts below the protocol's minimum stake (1 SUI)
+export const MIN_STAKE_MIST = BigInt(1_000_000_000);
+
+// Value of the `validator` param when the user asks for the best APY
+export const HIGHEST_APY_VALIDATOR = 'highest_apy';
+
+export interface ValidatorOption {
+  name: string;
+  address: string;
+  imageUrl: string;
+  // APY as a fraction (0.035 = 3.5%)
+  apy: number;
+  // Commission in basis points (200 = 2%)
+  commissionRate: number;
+}
+
+/**
+ * Merge active validators with their APYs, highest APY first
+ */
+export function toValidatorOptions(validators: SuiValidatorSummary[], apys?: ValidatorsApy): ValidatorOption[] {
+  const apyByAddress = new Map((apys?.apys || []).map((entry) => [entry.address, entry.apy]));
+
+  return validators
+    .map((validator) => ({
+      name: validator.name,
+      address: validator.suiAddress,
+      imageUrl: validator.imageUrl,
+      apy: apyByAddress.get(validator.suiAddress) ?? 0,
+      commissionRate: Number(validator.commissionRate),
+    }))
+    .sort((a, b) => b.apy - a.apy);
+}
+
+/**
+ * Pick the validator for a stake request
+ * - null/undefined or "highest_apy" → validator with the highest APY
+ * - 0x address → exact address match
+ * - anything else → validator name match (exact first, then partial)
+ * Returns null when the requested validator is not in the active set.
+ */
+export function selectValidator(options: ValidatorOption[], requested?: string | null): ValidatorOption | null {
+  if (options.length === 0) return null;
+
+  const query = requested?.trim().toLowerCase();
+  if (!query || query === HIGHEST_APY_VALIDATOR) {
+    return options[0];
+  }
+
+  if (query.startsWith('0x')) {
+    return options.find((option) => option.address.toLowerCase() === query) || null;
+  }
+
+  return (
+    options.find((option) => option.name.toLowerCase() === query) ||
+    options.find((option) => option.name.toLowerCase().includes(query)) ||
+    null
+  );
+}
+
+/**
+ * Resolve the amount to stake in MIST
+ * isMax stakes the spendable balance: everything but the gas budget (see planStakeAll).
+ */
+export function getStakeAmountMist(amount: string | null | undefined, isMax: boolean, spendableMist?: bigint): bigint {
+  if (isMax) {
+    if (spendableMist === undefined) {
+      throw new Error('Balance is not loaded yet. Please try again in a moment.');
+    }
+    return spendableMist;
+  }
+
+  return parsePositiveAmount(amount, 9);
+}
+
+/**
+ * Build a native staking transaction (0x3::sui_system::request_add_stake)
+ * The stake is split from gas; the resulting StakedSui object is sent to the sender by the system module.
+ */
+export function buildStakeTransaction(amountMist: bigint, validatorAddress: string): Transaction {
+  if (amountMist < MIN_STAKE_MIST) {
+    throw new Error('The minimum stake is 1 SUI.');
+  }
+
+  const tx = new Transaction();
+  const [stakeCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(amountMist)]);
+  tx.moveCall({
+    target: '0x3::sui_system::request_add_stake',
+    arguments: [tx.object(SUI_SYSTEM_STATE_OBJECT_ID), stakeCoin, tx.pure.address(validatorAddress)],
+  });
+  return tx;
+}
+
+/**
+ * Gas for staking the whole SUI balance: a minimum stake to the same validator is dry-run for the budget
+ */
+export async function planStakeAll(client: SuiClient, sender: string, validatorAddress: string): Promise<SuiSpendPlan> {
+  return planSpendAllSui(client, sender, async (balanceMist) => {
+    if (balanceMist <= MIN_STAKE_MIST) {
+      throw new Error('The minimum stake is 1 SUI.');
+    }
+    return { transaction: buildStakeTransaction(MIN_STAKE_MIST, validatorAddress), budget: balanceMist - MIN_STAKE_MIST };
+  });
+}
+
+export interface StakePosition {
+  stakedSuiId: string;
+  validatorAddress: string;
+  // Falls back to the shortened address for validators outside the active set
+  validatorName: string;
+  principalMist: bigint;
+  // Only active stakes earn rewards; pending stakes report 0
+  estimatedRewardMist: bigint;
+  status: 'Pending' | 'Active' | 'Unstaked';
+}
+
+/**
+ * Flatten the wallet's delegated stakes into one entry per StakedSui object
+ */
+export function toStakePositions(delegatedStakes: DelegatedStake[], validators: ValidatorOption[]): StakePosition[] {
+  const nameByAddress = new Map(validators.map((validator) => [validator.address, validator.name]));
+
+  return delegatedStakes.flatMap((delegation) =>
+    delegation.stakes
+      .filter((stake) => stake.status !== 'Unstaked')
+      .map((stake) => ({
+        stakedSuiId: stake.stakedSuiId,
+        validatorAddress: delegation.validatorAddress,
+        validatorName:
+          nameByAddress.get(delegation.validatorAddress) ||
+          `${delegation.validatorAddress.slice(0, 6)}...${delegation.validatorAddress.slice(-4)}`,
+        principalMist: BigInt(stake.principal),
+        estimatedRewardMist: stake.status === 'Active' ? BigInt(stake.estimatedReward) : BigInt(0),
+        status: stake.status,
+      }))
+  );
+}
+
+/**
+ * Pick the positions to withdraw
+ * - null/undefined → every position
+ * - 0x address → positions with that validator
+ * - anything else → positions whose validator name matches (exact first, then partial)
+ */
+export function selectStakePositions(positions: StakePosition[], requested?: string | null): StakePosition[] {
+  const query = requested?.trim().toLowerCase();
+  if (!query) return positions;
+
+  if (query.startsWith('0x')) {
+    return positions.filter((position) => position.validatorAddress.toLowerCase() === query);
+  }
+
+  const exact = positions.filter((position) => position.validatorName.toLowerCase() === query);
+  return exact.length > 0 ? exact : positions.filter((position) => position.validatorName.toLowerCase().includes(query));
+}
+
+/**
+ * Build an unstake transaction (0x3::sui_system::request_withdraw_stake)
+ * Every position is withdrawn in the same PTB; principal and rewards are returned to the sender.
+ */
+export function buildUnstakeTransaction(stakedSuiIds: string[]): Transaction {
+  if (stakedSuiIds.length === 0) {
+    throw new Error('No staked positions to withdraw.');
+  }
+
+  const tx = new Transaction();
+  for (const stakedSuiId of stakedSuiIds) {
+    tx.moveCall({
+      target: '0x3::sui_system::request_withdraw_stake',
+      arguments: [tx.object(SUI_SYSTEM_STATE_OBJECT_ID), tx.object(stakedSuiId)],
+    });
+  }
+  return tx;
+}
@@ -0,0 +1,89 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+// "alice.sui", "pay.alice.sui" - labels of letters, digits and hyphens ending in .sui
+const SUINS_NAME_REGEX = /^(?:[a-z0-9][a-z0-9-]*\.)+sui$/i;
+
+// Lookups are cached per client (one per network), so a name never resolves to another network's owner;
+// a missing name or address is cached as null
+const addressCaches = new WeakMap<SuiClient, Map<string, string | null>>();
+const nameCaches = new WeakMap<SuiClient, Map<string, string | null>>();
+
+function getClientCache(caches: WeakMap<SuiClient, Map<string, string | null>>, client: SuiClient): Map<string, string | null> {
+  let cache = caches.get(client);
+  if (!cache) {
+    cache = new Map();
+    caches.set(client, cache);
+  }
+  return cache;
+}
+
+// Lookups in flight at once when resolving a list of recipients
+const LOOKUP_CONCURRENCY = 20;
+
+export function isSuiNsName(value: string | null | undefined): boolean {
+  return !!value && SUINS_NAME_REGEX.test(value.trim());
+}
+
+/**
+ * Forward lookup: "alice.sui" → the address it points to, or null when the name is not registered
+ */
+export async function resolveSuiNsName(client: SuiClient, name: string): Promise<string | null> {
+  const key = name.trim().toLowerCase();
+  const addressCache = getClientCache(addressCaches, client);
+  if (!addressCache.has(key)) {
+    const address = await client.resolveNameServiceAddress({ name: key });
+    addressCache.set(key, address ? normalizeSuiAddress(address) : null);
+  }
+  return addressCache.get(key) ?? null;
+}
+
+/**
+ * Reverse lookup: address → its default SuiNS name, or null when it has none
+ * Errors are swallowed - a missing label must never block a transfer.
+ */
+export async function lookupSuiNsName(client: SuiClient, address: string): Promise<string | null> {
+  const key = normalizeSuiAddress(address);
+  const nameCache = getClientCache(nameCaches, client);
+  if (!nameCache.has(key)) {
+    try {
+      const { data } = await client.resolveNameServiceNames({ address: key, format: 'dot', limit: 1 });
+      nameCache.set(key, data[0] || null);
+    } catch (error) {
+      console.warn('⚠️ SuiNS reverse lookup failed:', error);
+      return null;
+    }
+  }
+  return nameCache.get(key) ?? null;
+}
+
+/**
+ * Resolve every .sui name and label every address in a list of recipients
+ * Returns name → address for forward lookups and address → name for reverse lookups;
+ * names that are not registered are left out, so they fail like unknown contacts.
+ */
+export async function resolveSuiNsRecipients(
+  client: SuiClient,
+  recipients: string[]
+): Promise<{ addresses: Record<string, string>; names: Record<string, string> }> {
+  const addresses: Record<string, string> = {};
+  const names: Record<string, string> = {};
+
+  // Large batches (imported payout lists) are looked up a few at a time instead of hundreds of parallel requests
+  const unique = Array.from(new Set(recipients.map((recipient) => recipient.trim())));
+  for (let i = 0; i < unique.length; i += LOOKUP_CONCURRENCY) {
+    await Promise.all(
+      unique.slice(i, i + LOOKUP_CONCURRENCY).map(async (value) => {
+        if (isSuiNsName(value)) {
+          const address = await resolveSuiNsName(client, value);
+          if (address) addresses[value.toLowerCase()] = address;
+        } else if (/^0x[0-9a-fA-F]+$/.test(value)) {
+          const name = await lookupSuiNsName(client, value);
+          if (name) names[normalizeSuiAddress(value)] = name;
+        }
+      })
+    );
+  }
+
+  return { addresses, names };
+}
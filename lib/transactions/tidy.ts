@@ -0,0 +1,109 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { Transaction, type TransactionObjectArgument } from '@mysten/sui/transactions';
+import { getMergeableGroups, type CoinObjectGroup } from '@/lib/coins';
+import { isSuiCoinType, MERGE_CHUNK_SIZE, takeCoins } from './coins';
+import { getAllSuiCoins, MAX_GAS_PAYMENT_COINS, toGasPayment } from './gas';
+
+// Coin objects merged by one transaction (a PTB takes at most 2048 input objects)
+export const MAX_MERGE_COINS = 1000;
+// Coins created by one split, the same bound as the recipients of a batch transfer
+export const MAX_SPLIT_COINS = 500;
+
+export interface MergedGroup {
+  coinType: string;
+  symbol: string;
+  // Objects merged into one
+  count: number;
+}
+
+type CoinObject = CoinObjectGroup['coins'][number];
+
+// Coins are passed by reference, so a merge of hundreds of objects needs no lookups while building
+function coinRef(tx: Transaction, coin: CoinObject) {
+  return tx.objectRef({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest });
+}
+
+function mergeInto(tx: Transaction, target: TransactionObjectArgument, sources: CoinObject[]) {
+  for (let i = 0; i < sources.length; i += MERGE_CHUNK_SIZE) {
+    tx.mergeCoins(
+      target,
+      sources.slice(i, i + MERGE_CHUNK_SIZE).map((coin) => coinRef(tx, coin))
+    );
+  }
+}
+
+/**
+ * Merge every listed coin type with more than one object into a single coin of that type
+ * - SUI: all coins pay for gas, so the network merges them into the gas coin (gas smashing);
+ *   coins beyond the 256 gas payment objects are merged into the gas coin explicitly, and when there are none
+ *   the gas coin is sent back to the owner, since a transaction needs at least one command
+ * - other coins: merged into their largest coin, which keeps its object ID
+ * Empty coins are merged away too. At most MAX_MERGE_COINS objects are merged; a second run merges the rest.
+ */
+export function buildMergeCoinsTransaction(
+  owner: string,
+  groups: CoinObjectGroup[]
+): { transaction: Transaction; merged: MergedGroup[] } {
+  const tx = new Transaction();
+  const merged: MergedGroup[] = [];
+  let capacity = MAX_MERGE_COINS;
+
+  for (const group of getMergeableGroups(groups)) {
+    if (capacity < 2) break;
+    const coins = group.coins.slice(0, capacity);
+    capacity -= coins.length;
+
+    if (isSuiCoinType(group.coinType)) {
+      tx.setGasPayment(toGasPayment(coins.slice(0, MAX_GAS_PAYMENT_COINS)));
+      if (coins.length > MAX_GAS_PAYMENT_COINS) {
+        mergeInto(tx, tx.gas, coins.slice(MAX_GAS_PAYMENT_COINS));
+      } else {
+        tx.transferObjects([tx.gas], owner);
+      }
+    } else {
+      const [primary, ...rest] = coins;
+      mergeInto(tx, coinRef(tx, primary), rest);
+    }
+    merged.push({ coinType: group.coinType, symbol: group.symbol, count: coins.length });
+  }
+
+  if (merged.length === 0) {
+    throw new Error('Nothing to merge: each coin type is already held as a single coin object.');
+  }
+  return { transaction: tx, merged };
+}
+
+/**
+ * Split `amount` into `count` equal parts in base units; the remainder goes one unit each to the first parts
+ */
+export function getEqualSplit(amount: bigint, count: number): bigint[] {
+  if (!Number.isInteger(count) || count < 2 || count > MAX_SPLIT_COINS) {
+    throw new Error(`The number of coins must be a whole number between 2 and ${MAX_SPLIT_COINS}.`);
+  }
+  const part = amount / BigInt(count);
+  if (part <= BigInt(0)) {
+    throw new Error(`The amount is too small to split into ${count} coins.`);
+  }
+  const remainder = Number(amount % BigInt(count));
+  return Array.from({ length: count }, (_, index) => part + (index < remainder ? BigInt(1) : BigInt(0)));
+}
+
+/**
+ * Build a split of the owner's coins into new coins of the given amounts, kept by the owner
+ * SUI pays gas with its largest coins (up to 256), so the split works however fragmented the balance is.
+ */
+export async function buildSplitCoinsTransaction(
+  client: SuiClient,
+  owner: string,
+  coinType: string,
+  amounts: bigint[]
+): Promise<Transaction> {
+  const tx = new Transaction();
+  if (isSuiCoinType(coinType)) {
+    const coins = (await getAllSuiCoins(client, owner)).sort((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? 1 : -1));
+    tx.setGasPayment(toGasPayment(coins.slice(0, MAX_GAS_PAYMENT_COINS)));
+  }
+  const parts = await takeCoins(tx, client, owner, coinType, amounts);
+  tx.transferObjects(parts, owner);
+  return tx;
+}
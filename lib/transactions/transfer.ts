@@ -0,0 +1,164 @@
+import type { SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type { TransactionStep } from '@/lib/schemas/transaction';
+import { KNOWN_TOKENS, type SwapToken } from '@/lib/swap';
+import { getBatchRows, getBatchTotal, hasPercentRows, planBatchTransfer } from './batch';
+import { isSuiCoinType, takeCoins } from './coins';
+import { planSendAllSui, type SendAllSuiPlan } from './gas';
+
+export interface CoinTransfer {
+  address: string;
+  amount: bigint;
+}
+
+async function withMetadata(client: SuiClient, coinType: string): Promise<SwapToken> {
+  const metadata = await client.getCoinMetadata({ coinType });
+  if (!metadata) {
+    throw new Error(`Could not load metadata for ${coinType}. Decimals are unknown, so the amount cannot be converted.`);
+  }
+  return { symbol: metadata.symbol, coinType, decimals: metadata.decimals };
+}
+
+/**
+ * Resolve the token of a transfer to a coin type and its decimals
+ * - null/undefined or "SUI" → SUI
+ * - full coin type ("0x...::usdc::USDC") → that type
+ * - any other symbol → the coin in the sender's wallet with that symbol (struct name first, then metadata symbol)
+ * Unknown symbols and symbols held under several coin types are rejected.
+ */
+export async function resolveTransferCoin(client: SuiClient, owner: string, token?: string | null): Promise<SwapToken> {
+  const query = token?.trim() || 'SUI';
+
+  if (query.includes('::')) {
+    let coinType: string;
+    try {
+      coinType = normalizeStructTag(query);
+    } catch {
+      throw new Error(`Invalid coin type '${query}'.`);
+    }
+    return isSuiCoinType(coinType) ? KNOWN_TOKENS.SUI : withMetadata(client, coinType);
+  }
+
+  const symbol = query.toUpperCase();
+  if (symbol === 'SUI') {
+    return KNOWN_TOKENS.SUI;
+  }
+
+  const owned = (await client.getAllBalances({ owner }))
+    .map((balance) => balance.coinType)
+    .filter((coinType) => !isSuiCoinType(coinType));
+
+  let matches = owned.filter((coinType) => coinType.split('::').pop()?.toUpperCase() === symbol);
+  if (matches.length === 0) {
+    const metadata = await Promise.all(
+      owned.map(async (coinType) => ({
+        coinType,
+        symbol: (await client.getCoinMetadata({ coinType }).catch(() => null))?.symbol,
+      }))
+    );
+    matches = metadata.filter((entry) => entry.symbol?.toUpperCase() === symbol).map((entry) => entry.coinType);
+  }
+
+  if (matches.length > 1) {
+    throw new Error(
+      `'${query}' is ambiguous: your wallet holds ${matches.length} coins with this symbol (${matches.join(', ')}). Please use the full coin type.`
+    );
+  }
+  if (matches.length === 0) {
+    throw new Error(
+      KNOWN_TOKENS[symbol]
+        ? `You don't hold any ${symbol} on this network.`
+        : `Unknown token '${query}'. Please use a token you hold or its full coin type.`
+    );
+  }
+
+  return withMetadata(client, matches[0]);
+}
+
+/**
+ * Balance that can be sent when the user sends "all" of a coin
+ * SUI is the balance minus the exact network fee of sending all of it to `recipientCount` recipients;
+ * other coins are sent in full.
+ */
+export async function getTransferableBalance(
+  client: SuiClient,
+  owner: string,
+  coin: SwapToken,
+  recipientCount: number = 1
+): Promise<bigint> {
+  if (isSuiCoinType(coin.coinType)) {
+    return (await planSendAllSui(client, owner, recipientCount)).sendable;
+  }
+  const { totalBalance } = await client.getBalance({ owner, coinType: coin.coinType });
+  return BigInt(totalBalance);
+}
+
+export interface BatchFunding {
+  // Sendable balance for isMax and for percentages without a total; null when the batch needs none
+  transferable: bigint | null;
+  // Set when the batch sends the whole SUI balance and is built with buildSendAllSuiTransaction
+  sendAll: SendAllSuiPlan | null;
+}
+
+/**
+ * Balance a batch transfer is planned against, and whether it sends the whole SUI balance
+ * - isMax, or SUI percentages adding up to all of the balance: the send-all plan (balance minus the exact fee)
+ * - SUI percentages of part of the balance: the balance minus the gas budget, since those amounts are split
+ *   from the gas coin and the budget has to stay in it
+ * - other coins: the full balance
+ */
+export async function getBatchFunding(
+  client: SuiClient,
+  owner: string,
+  coin: SwapToken,
+  params: TransactionStep['params']
+): Promise<BatchFunding> {
+  const recipientCount = getBatchRows(params).length;
+  // A given total is what percentages refer to; no balance is needed then
+  if (params.isMax !== true && (!hasPercentRows(params) || !!params.amount)) {
+    return { transferable: null, sendAll: null };
+  }
+  if (!isSuiCoinType(coin.coinType)) {
+    return { transferable: await getTransferableBalance(client, owner, coin), sendAll: null };
+  }
+
+  const sendAll = await planSendAllSui(client, owner, recipientCount);
+  if (params.isMax === true || getBatchTotal(planBatchTransfer(params, coin, sendAll.sendable)) === sendAll.sendable) {
+    return { transferable: sendAll.sendable, sendAll };
+  }
+  // Dry-run with one more split, so the probe creates as many coins as the real batch does
+  const split = await planSendAllSui(client, owner, recipientCount + 1);
+  return { transferable: split.balance - split.budget, sendAll: null };
+}
+
+/**
+ * Build a transfer of any Coin<T> to one or more recipients in one PTB
+ * The sender's coins are merged once and split into one coin per recipient.
+ */
+export async function buildTransferTransaction(
+  client: SuiClient,
+  sender: string,
+  coin: SwapToken,
+  transfers: CoinTransfer[]
+): Promise<Transaction> {
+  if (transfers.length === 0) {
+    throw new Error('No recipients to send to.');
+  }
+  if (transfers.some((transfer) => transfer.amount <= BigInt(0))) {
+    throw new Error('Amount per recipient must be greater than 0.');
+  }
+
+  const tx = new Transaction();
+  const coins = await takeCoins(
+    tx,
+    client,
+    sender,
+    coin.coinType,
+    transfers.map((transfer) => transfer.amount)
+  );
+  transfers.forEach((transfer, index) => {
+    tx.transferObjects([coins[index]], transfer.address);
+  });
+  return tx;
+}
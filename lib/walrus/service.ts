@@ -1,15 +1,26 @@
 import type { WalletMemory, WalrusUploadResponse } from '@/types';
 
-// Walrus Testnet Endpoints - can be overridden via environment variables
-const WALRUS_PUBLISHER = 
-  (typeof window !== 'undefined' ? (window as any).__WALRUS_PUBLISHER__ : null) ||
-  process.env.NEXT_PUBLIC_WALRUS_PUBLISHER ||
-  'https://publisher.walrus-testnet.walrus.space';
-  
-const WALRUS_AGGREGATOR = 
-  (typeof window !== 'undefined' ? (window as any).__WALRUS_AGGREGATOR__ : null) ||
-  process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR ||
-  'https://aggregator.walrus-testnet.walrus.space';
+export type WalrusNetwork = 'mainnet' | 'testnet';
+
+// Walrus Endpoints per network - can be overridden via environment variables
+// There is no public mainnet publisher, so mainnet uploads need NEXT_PUBLIC_WALRUS_MAINNET_PUBLISHER
+const WALRUS_ENDPOINTS: Record<WalrusNetwork, { publisher: string | null; aggregator: string }> = {
+  testnet: {
+    publisher: process.env.NEXT_PUBLIC_WALRUS_PUBLISHER || 'https://publisher.walrus-testnet.walrus.space',
+    aggregator: process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR || 'https://aggregator.walrus-testnet.walrus.space',
+  },
+  mainnet: {
+    publisher: process.env.NEXT_PUBLIC_WALRUS_MAINNET_PUBLISHER || null,
+    aggregator: process.env.NEXT_PUBLIC_WALRUS_MAINNET_AGGREGATOR || 'https://aggregator.walrus-mainnet.walrus.space',
+  },
+};
+
+/**
+ * Publisher and aggregator URLs for a Walrus network (unknown values fall back to testnet)
+ */
+export function getWalrusEndpoints(walrusNetwork: string | null | undefined) {
+  return WALRUS_ENDPOINTS[walrusNetwork === 'mainnet' ? 'mainnet' : 'testnet'];
+}
 
 // Storage duration in epochs (1 epoch ≈ 1 day on testnet)
 const DEFAULT_EPOCHS = 5;
@@ -50,15 +61,17 @@ async function fetchWithTimeout(
 /**
  * Upload data to Walrus via backend proxy
  * @param data - The data to upload (will be JSON stringified)
+ * @param walrusNetwork - Walrus network to store on (default: testnet)
  * @param epochs - Number of epochs to store (default: 5)
  * @returns The blob ID if successful, null on error
  */
 export async function uploadToWalrus(
   data: WalletMemory,
+  walrusNetwork: WalrusNetwork = 'testnet',
   epochs: number = DEFAULT_EPOCHS
 ): Promise<string | null> {
   // Use backend proxy to avoid CORS issues
-  const uploadUrl = `/api/walrus/save?epochs=${epochs}`;
+  const uploadUrl = `/api/walrus/save?epochs=${epochs}&network=${walrusNetwork}`;
   
   try {
     console.log('📤 [Walrus] Starting upload via proxy...', {
@@ -67,6 +80,7 @@ export async function uploadToWalrus(
       activityLogsLength: data.activityLogs.length,
       contactsLength: data.contacts?.length || 0,
       epochs,
+      walrusNetwork,
     });
 
     const jsonData = JSON.stringify(data);
@@ -141,11 +155,12 @@ export async function uploadToWalrus(
 /**
  * Download data from Walrus via backend proxy
  * @param blobId - The blob ID to download
+ * @param walrusNetwork - Walrus network the blob is stored on (default: testnet)
  * @returns The wallet memory data if successful
  */
-export async function downloadFromWalrus(blobId: string): Promise<WalletMemory | null> {
+export async function downloadFromWalrus(blobId: string, walrusNetwork: WalrusNetwork = 'testnet'): Promise<WalletMemory | null> {
   // Use backend proxy to avoid CORS issues
-  const downloadUrl = `/api/walrus/get?blobId=${encodeURIComponent(blobId)}`;
+  const downloadUrl = `/api/walrus/get?blobId=${encodeURIComponent(blobId)}&network=${walrusNetwork}`;
   
   try {
     console.log('📥 [Walrus] Starting download via proxy...', { blobId });
@@ -229,20 +244,22 @@ export function createEmptyMemory(walletAddress: string): WalletMemory {
 /**
  * Get the localStorage key for storing blobId mapping
  * @param walletAddress - The wallet address
+ * @param walrusNetwork - Walrus network (testnet keeps the original key)
  * @returns The localStorage key
  */
-export function getBlobIdStorageKey(walletAddress: string): string {
-  return `walrus_blob_${walletAddress}`;
+export function getBlobIdStorageKey(walletAddress: string, walrusNetwork: WalrusNetwork = 'testnet'): string {
+  return walrusNetwork === 'testnet' ? `walrus_blob_${walletAddress}` : `walrus_blob_${walrusNetwork}_${walletAddress}`;
 }
 
 /**
  * Save blobId to localStorage for quick lookup
  * @param walletAddress - The wallet address
  * @param blobId - The Walrus blob ID
+ * @param walrusNetwork - Walrus network the blob is stored on
  */
-export function saveBlobIdLocally(walletAddress: string, blobId: string): void {
+export function saveBlobIdLocally(walletAddress: string, blobId: string, walrusNetwork: WalrusNetwork = 'testnet'): void {
   try {
-    localStorage.setItem(getBlobIdStorageKey(walletAddress), blobId);
+    localStorage.setItem(getBlobIdStorageKey(walletAddress, walrusNetwork), blobId);
     console.log('💾 Saved blobId to localStorage:', blobId);
   } catch (error) {
     console.error('❌ Failed to save blobId to localStorage:', error);
@@ -252,11 +269,12 @@ export function saveBlobIdLocally(walletAddress: string, blobId: string): void {
 /**
  * Load blobId from localStorage
  * @param walletAddress - The wallet address
+ * @param walrusNetwork - Walrus network the blob is stored on
  * @returns The blob ID if found
  */
-export function loadBlobIdLocally(walletAddress: string): string | null {
+export function loadBlobIdLocally(walletAddress: string, walrusNetwork: WalrusNetwork = 'testnet'): string | null {
   try {
-    const blobId = localStorage.getItem(getBlobIdStorageKey(walletAddress));
+    const blobId = localStorage.getItem(getBlobIdStorageKey(walletAddress, walrusNetwork));
     if (blobId) {
       console.log('📂 Loaded blobId from localStorage:', blobId);
     }
@@ -24,11 +24,34 @@ export interface ChatMessage {
 
 // Activity Log Entry
 export interface ActivityLogEntry {
-  type: 'TRANSFER' | 'BATCH_TRANSFER' | 'DEFI_SUPPLY' | 'SWAP' | 'STAKE';
+  type:
+    | 'TRANSFER'
+    | 'BATCH_TRANSFER'
+    | 'DEFI_SUPPLY'
+    | 'DEFI_WITHDRAW'
+    | 'DEFI_BORROW'
+    | 'DEFI_REPAY'
+    | 'SWAP'
+    | 'STAKE'
+    | 'UNSTAKE'
+    | 'NFT_TRANSFER'
+    | 'MERGE_COINS'
+    | 'SPLIT_COINS'
+    | 'MULTI_STEP';
   digest: string;
   amount?: string;
+  token?: string; // Input token symbol for SWAP
+  targetToken?: string; // Output token symbol for SWAP
   recipient?: string;
-  recipients?: string[];
+  recipients?: string[]; // Recipients of a BATCH_TRANSFER or of the transfer steps of a MULTI_STEP
+  validator?: string; // Validator address for STAKE / UNSTAKE
+  protocol?: string; // Lending protocol for DEFI_* (dry-run for simulations)
+  objectId?: string; // Object ID for NFT_TRANSFER
+  coinCount?: number; // Coin objects merged (MERGE_COINS) or created (SPLIT_COINS)
+  stepCount?: number; // Steps of a MULTI_STEP
+  direction?: 'in' | 'out'; // 'in' for transfers received from others (missing means sent)
+  sender?: string; // Sender of an incoming transfer
+  network?: string; // Sui network the transaction ran on (missing for entries logged before switching existed)
   timestamp: number;
   status: 'success' | 'failed';
 }
@@ -39,6 +62,43 @@ export interface Contact {
   address: string;
 }
 
+// Spending Policy - guardrails on what the AI can trigger
+// SUI amounts are decimal strings (e.g. "2.5") so the policy stays JSON-serializable; null disables a rule
+export interface SpendingPolicy {
+  maxPerTransactionSui: string | null;
+  dailyLimitSui: string | null;
+  contactsOnly: boolean; // Recipients must be saved in the address book
+  blockedCoinTypes: string[]; // Symbols ("USDT") or full coin types ("0x...::usdt::USDT")
+  largeTransferSui: string | null; // Transfers of at least this amount start the cool-down
+  cooldownMinutes: number;
+}
+
+// Scheduled Payment - a transfer kept in Walrus memory and raised for signing when it is due
+// Params are kept as the user wrote them (contact / .sui names are resolved at each run); times are local
+export interface ScheduledPaymentParams {
+  amount?: string | null;
+  token?: string | null;
+  recipient?: string | null;
+  recipients?: string[] | null;
+  allocations?: Array<{ recipient: string; amount?: string | null; percent?: number | null; shares?: number | null }> | null;
+}
+
+export interface ScheduledJob {
+  id: string;
+  actionType: 'TRANSFER' | 'BATCH_TRANSFER';
+  params: ScheduledPaymentParams;
+  frequency: 'once' | 'daily' | 'weekly' | 'monthly';
+  weekday?: number; // 0 = Sunday ... 6 = Saturday (weekly)
+  dayOfMonth?: number; // 1-31, the last day in shorter months (monthly)
+  startDate?: string; // YYYY-MM-DD - the date of a one-off payment, otherwise no run before it
+  time: string; // HH:MM
+  nextRunAt: number;
+  runsLeft: number | null; // null repeats until cancelled
+  network: string; // Sui network the payment runs on
+  createdAt: number;
+  lastRunAt?: number;
+}
+
 // Wallet Memory - stored on Walrus
 export interface WalletMemory {
   walletAddress: string;
@@ -46,6 +106,8 @@ export interface WalletMemory {
   aiSummary: string;
   activityLogs: ActivityLogEntry[];
   contacts: Contact[];
+  spendingPolicy?: SpendingPolicy; // Missing in memories saved before policies existed
+  scheduledJobs?: ScheduledJob[]; // Missing in memories saved before scheduling existed
   lastUpdated: number;
   blobId?: string;
 }